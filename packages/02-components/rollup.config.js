@@ -29,7 +29,8 @@ export default {
     /** Minify JS, compile JS to a lower language target */
     esbuild({
       minify: true,
-      target: ['chrome64', 'firefox67', 'safari11.1'],
+      // esbuild can't lower destructuring, and lists it as unsupported before Safari 14.1 (it had bugs there)
+      target: ['chrome64', 'firefox67', 'safari14.1'],
     }),    
     /** Bundle assets references via import.meta.url */
     importMetaAssets(),
@@ -1,9 +1,18 @@
 import { LitElement, html, noChange, nothing } from 'lit';
 import { customElement, property } from 'lit/decorators.js';
+import { localized, msg } from '@lit/localize';
 
+/**
+ * The strings are localized (see the 13-localization chapter): `msg()` returns the string of the active locale,
+ * and `@localized()` re-renders the element when the locale changes.
+ * `msg()` is called in `render()`, a class field initializer would keep the locale of the first render.
+ */
+@localized()
 @customElement('render-component')
 export class RenderComponent extends LitElement {
-  header = 'Render a component';
+  get header() {
+    return msg('Render a component');
+  }
 
   /**
    * Define a render method that will return a lit template.
@@ -44,22 +53,22 @@ export class RenderComponent extends LitElement {
       <main>
         <h1>${this.header}</h1>
 
-        <h3>Render can return primitive values</h3>
+        <h3>${msg('Render can return primitive values')}</h3>
         <render-primitve></render-primitve>
 
-        <h3>Render can return DOM nodes</h3>
+        <h3>${msg('Render can return DOM nodes')}</h3>
         <render-dom-node></render-dom-node>
 
-        <h3>Render can return noChange</h3>
+        <h3>${msg('Render can return noChange')}</h3>
         <render-no-change></render-no-change>
 
-        <h3>Render can return nothing</h3>
+        <h3>${msg('Render can return nothing')}</h3>
         <render-nothing></render-nothing>
 
-        <h3>Render can return arrays of any of the supported types</h3>
+        <h3>${msg('Render can return arrays of any of the supported types')}</h3>
         <render-array></render-array>
 
-        <h3>Composing templates</h3>
+        <h3>${msg('Composing templates')}</h3>
         <render-composing-templates></render-composing-templates>
       </main>
     `;
@@ -1,5 +1,16 @@
-import { LitElement, html } from 'lit';
+import { LitElement, PropertyDeclaration, PropertyValues, css, html } from 'lit';
 import { customElement, property, state } from 'lit/decorators.js';
+import {
+  ConversionErrorDetail,
+  ReportConversionErrors,
+  dateConverter,
+  durationConverter,
+  enumConverter,
+  jsonConverter,
+  listConverter,
+  urlConverter,
+} from './converters.js';
+import { DetectShadowedProperties } from './shadowed-properties.js';
 
 @customElement('reactive-properties')
 export class ReactiveProperties extends LitElement {
@@ -54,6 +65,7 @@ export class ReactiveProperties extends LitElement {
    * Class fields are defined on the element instance whereas reactive properties are defined as accessors on the element prototype.
    * According to the rules of JavaScript, an instance property takes precedence over and effectively hides a prototype property.
    * This means that reactive property accessors do not function when class fields are used such that setting the property won't trigger an element update.
+   * `shadowed-properties.ts` detects it, see `shadowed-field` below.
    */
   aClassField = "won't trigger an update";
 
@@ -103,6 +115,38 @@ export class PublicReactiveProperties extends LitElement {
   }
 }
 
+/**
+ * A reactive property shadowed by a class field.
+ * This package compiles with `useDefineForClassFields: false`: `label = '...'` is an assignment, through the accessor.
+ * The constructor defines `label` the way a native class field does (`useDefineForClassFields: true`, or JavaScript),
+ * and `DetectShadowedProperties` warns about it before the first update, in development.
+ * Both buttons change a property, only `count` updates the element.
+ * Lit's development build (e.g. in a Vite dev server) throws on its first update instead, and it renders nothing.
+ */
+@customElement('shadowed-field')
+export class ShadowedField extends DetectShadowedProperties(LitElement) {
+  @property({ type: Number })
+  count = 0;
+
+  @property()
+  label!: string;
+
+  constructor() {
+    super();
+    // What the class field `label = 'Not shadowed'` compiles to with `useDefineForClassFields: true`
+    Object.defineProperty(this, 'label', { value: 'Shadowed', writable: true, enumerable: true, configurable: true });
+  }
+
+  render() {
+    return html`
+      <h3>Shadowed reactive property</h3>
+      <p>count: ${this.count}, label: ${this.label}</p>
+      <button @click=${() => this.count++}>count++</button>
+      <button @click=${() => (this.label += '!')}>label += '!'</button>
+    `;
+  }
+}
+
 /**
  * [Property Options](https://lit.dev/docs/components/properties/#property-options)
  * The argument to the @property decorators is an options object.
@@ -144,20 +188,299 @@ export class PublicReactiveProperties extends LitElement {
  * - This field should generally match the TypeScript type declared for the field.
  *   However, the type option is used by the Lit's runtime for string serialization/deserialization,
  *   and should not be confused with a type-checking mechanism.
+ *
+ * Playground
+ * Pick options for a sample `value` property, then set its attribute or the property in the inspector.
+ * The log shows the resulting property value and its `typeof`, the reflected attribute, and whether an update ran:
+ * - `type` only converts attributes: setting the property to `"42"` with `type: Number` keeps a string;
+ * - `reflect` writes the property to the attribute after an update, a rejected change (`hasChanged`) isn't reflected;
+ * - `noAccessor` properties still read their attribute, but never trigger an update.
  */
 @customElement('property-options')
 export class PropertyOptions extends LitElement {
+  /** The options picked in the form, turned into a `PropertyDeclaration` by `declaration()` */
+  @state()
+  private _choices: OptionChoices = {
+    attribute: 'default',
+    type: 'String',
+    converter: 'default',
+    hasChanged: 'default',
+    reflect: false,
+    noAccessor: false,
+    state: false,
+  };
+
+  @state()
+  private _sample?: OptionsSample;
+
+  @state()
+  private _log: LogEntry[] = [];
+
+  @state()
+  private _attributeInput = '42';
+
+  @state()
+  private _propertyInput = '42';
+
+  /**
+   * Options are read once, when the class is defined: every change of options defines a new sample element.
+   */
+  willUpdate(changedProperties: PropertyValues) {
+    if (changedProperties.has('_choices')) {
+      this._sample = defineSample(declaration(this._choices));
+      this._log = [];
+    }
+  }
+
   render() {
+    const choices = this._choices;
+    const attributeName = this._sample && sampleAttribute(this._sample);
     return html`
       <main>
-        <h1>Hello</h1>
+        <h3>Property options playground</h3>
+        <form @change=${this._handleChange} @submit=${(e: Event) => e.preventDefault()}>
+          <label>
+            attribute
+            <select name="attribute">
+              ${option('default', 'true (attribute "value")', choices.attribute)}
+              ${option('custom', '"sample-value"', choices.attribute)}
+              ${option('false', 'false', choices.attribute)}
+            </select>
+          </label>
+          <label>
+            type
+            <select name="type">
+              ${Object.keys(types).map((type) => option(type, type, choices.type))}
+            </select>
+          </label>
+          <label>
+            converter
+            <select name="converter">
+              ${option('default', 'default', choices.converter)}
+              ${option('list', 'comma-separated list', choices.converter)}
+            </select>
+          </label>
+          <label>
+            hasChanged
+            <select name="hasChanged">
+              ${option('default', 'default (!==)', choices.hasChanged)}
+              ${option('ignoreCase', 'ignore case', choices.hasChanged)}
+              ${option('never', 'never', choices.hasChanged)}
+            </select>
+          </label>
+          <label><input type="checkbox" name="reflect" .checked=${choices.reflect} /> reflect</label>
+          <label><input type="checkbox" name="noAccessor" .checked=${choices.noAccessor} /> noAccessor</label>
+          <label><input type="checkbox" name="state" .checked=${choices.state} /> state</label>
+        </form>
+
+        <pre>@property(${declarationSource(choices)})\nvalue;</pre>
+        <p>
+          Observed attributes of <code>&lt;${this._sample?.localName}&gt;</code>:
+          <code>${JSON.stringify((this._sample?.constructor as typeof LitElement | undefined)?.observedAttributes)}</code>
+        </p>
+        <div class="sample">${this._sample}</div>
+
+        <fieldset>
+          <legend>Inspector</legend>
+          <label>
+            Attribute <code>${attributeName ?? '(none)'}</code>
+            <input .value=${this._attributeInput}
+              @input=${(e: Event) => (this._attributeInput = (e.target as HTMLInputElement).value)} />
+          </label>
+          <button ?disabled=${!attributeName} @click=${this._setAttribute}>setAttribute()</button>
+          <button ?disabled=${!attributeName} @click=${this._removeAttribute}>removeAttribute()</button>
+          <br />
+          <label>
+            Property <code>value</code> (JSON, or else a string)
+            <input .value=${this._propertyInput}
+              @input=${(e: Event) => (this._propertyInput = (e.target as HTMLInputElement).value)} />
+          </label>
+          <button @click=${this._setProperty}>Set the property</button>
+        </fieldset>
+
+        <table>
+          <tr>
+            <th>Action</th>
+            <th>Property value</th>
+            <th>Reflected attribute</th>
+            <th>Update triggered</th>
+          </tr>
+          ${this._log.map(
+            ({ action, value, attribute, updated }) => html`
+              <tr>
+                <td><code>${action}</code></td>
+                <td><code>${value}</code></td>
+                <td><code>${attribute}</code></td>
+                <td>${updated ? '✅ yes' : '— no'}</td>
+              </tr>
+            `
+          )}
+        </table>
       </main>
     `;
   }
+
+  private _handleChange(e: Event) {
+    const input = e.target as HTMLInputElement | HTMLSelectElement;
+    const value = input instanceof HTMLInputElement && input.type === 'checkbox' ? input.checked : input.value;
+    this._choices = { ...this._choices, [input.name]: value };
+  }
+
+  private _setAttribute() {
+    const name = sampleAttribute(this._sample!)!;
+    this._record(`setAttribute("${name}", "${this._attributeInput}")`, () =>
+      this._sample!.setAttribute(name, this._attributeInput)
+    );
+  }
+
+  private _removeAttribute() {
+    const name = sampleAttribute(this._sample!)!;
+    this._record(`removeAttribute("${name}")`, () => this._sample!.removeAttribute(name));
+  }
+
+  private _setProperty() {
+    let value: unknown;
+    try {
+      value = JSON.parse(this._propertyInput);
+    } catch {
+      value = this._propertyInput;
+    }
+    this._record(`value = ${JSON.stringify(value)}`, () => (this._sample!.value = value));
+  }
+
+  /** Runs the action, waits for the update it may have scheduled and logs what changed. */
+  private async _record(action: string, run: () => void) {
+    const sample = this._sample!;
+    await sample.updateComplete;
+    const updates = sample.updates;
+    run();
+    await sample.updateComplete;
+    const name = sampleAttribute(sample);
+    this._log = [
+      ...this._log,
+      {
+        action,
+        value: `${JSON.stringify(sample.value)} (${typeof sample.value})`,
+        attribute: name === undefined ? '(no attribute)' : JSON.stringify(sample.getAttribute(name)),
+        updated: sample.updates > updates,
+      },
+    ];
+  }
+
+  static styles = css`
+    form {
+      display: flex;
+      flex-wrap: wrap;
+      gap: 0.5rem 1rem;
+    }
+    .sample {
+      border: 1px dotted gray;
+      padding: 0.5rem;
+    }
+    table {
+      text-align: left;
+    }
+  `;
 }
 
+const types = { String, Number, Boolean, Object, Array };
+
+interface OptionChoices {
+  attribute: 'default' | 'custom' | 'false';
+  type: keyof typeof types;
+  converter: 'default' | 'list';
+  hasChanged: 'default' | 'ignoreCase' | 'never';
+  reflect: boolean;
+  noAccessor: boolean;
+  state: boolean;
+}
+
+interface LogEntry {
+  action: string;
+  value: string;
+  attribute: string;
+  updated: boolean;
+}
+
+const hasChangedFunctions = {
+  ignoreCase: (value: unknown, oldValue: unknown) =>
+    String(value).toLowerCase() !== String(oldValue).toLowerCase(),
+  never: () => false,
+};
+
+/** The `@property()` options of the choices, leaving out the defaults like you would in code. */
+const declaration = (choices: OptionChoices): PropertyDeclaration => ({
+  ...(choices.attribute === 'custom' && { attribute: 'sample-value' }),
+  ...(choices.attribute === 'false' && { attribute: false }),
+  ...(choices.type !== 'String' && { type: types[choices.type] }),
+  ...(choices.converter === 'list' && { converter: listConverter() }),
+  ...(choices.hasChanged !== 'default' && { hasChanged: hasChangedFunctions[choices.hasChanged] }),
+  ...(choices.reflect && { reflect: true }),
+  ...(choices.noAccessor && { noAccessor: true }),
+  ...(choices.state && { state: true }),
+});
+
+const declarationSource = (choices: OptionChoices) => {
+  const source = [
+    choices.attribute === 'custom' && `attribute: 'sample-value'`,
+    choices.attribute === 'false' && 'attribute: false',
+    choices.type !== 'String' && `type: ${choices.type}`,
+    choices.converter === 'list' && 'converter: listConverter()',
+    choices.hasChanged !== 'default' && `hasChanged: ${choices.hasChanged}`,
+    choices.reflect && 'reflect: true',
+    choices.noAccessor && 'noAccessor: true',
+    choices.state && 'state: true',
+  ].filter(Boolean);
+  return source.length ? `{ ${source.join(', ')} }` : '';
+};
+
+const option = (value: string, label: string, selected: string) =>
+  html`<option value=${value} ?selected=${value === selected}>${label}</option>`;
+
+/** The sample element: one `value` property declared with the playground options, counting its updates. */
+interface OptionsSample extends LitElement {
+  value: unknown;
+  readonly updates: number;
+}
+
+let samples = 0;
+
+/**
+ * Defines a new element class with the options, the same as `@property(options) value;`.
+ * A custom element name can only be defined once, hence a new name each time.
+ */
+const defineSample = (options: PropertyDeclaration) => {
+  const name = `property-options-sample-${++samples}`;
+  class Sample extends LitElement implements OptionsSample {
+    static properties = { value: options };
+
+    declare value: unknown;
+
+    updates = 0;
+
+    updated() {
+      this.updates++;
+    }
+
+    render() {
+      return html`<code>value</code>: ${JSON.stringify(this.value)}`;
+    }
+  }
+  customElements.define(name, Sample);
+  return document.createElement(name) as OptionsSample;
+};
+
+/** The attribute observed for `value`, `undefined` when there is none. */
+const sampleAttribute = (sample: OptionsSample) =>
+  (sample.constructor as typeof LitElement).observedAttributes[0] as string | undefined;
+
+const sizes = ['small', 'medium', 'large'] as const;
+
+const isObject = (value: unknown) =>
+  (typeof value === 'object' && value !== null && !Array.isArray(value)) || 'expected an object';
+
 @customElement('observed-attributes')
-export class ReactivePropertiesAttributes extends LitElement {
+export class ReactivePropertiesAttributes extends ReportConversionErrors(LitElement) {
 
   /**
    * By default, Lit creates a corresponding observed attribute for all public reactive properties.
@@ -187,11 +510,96 @@ export class ReactivePropertiesAttributes extends LitElement {
   @property({ attribute: false })
   myData = {};
 
+  /**
+   * Complex types need a converter, see `converters.ts`.
+   * With `reflect: true`, a property change is written back to the attribute with `toAttribute()`:
+   * the attribute round-trips, e.g. `published="2024-05-01"` stays `2024-05-01`.
+   * A malformed attribute keeps the previous value and is listed under Errors (`ReportConversionErrors`).
+   */
+  @property({ converter: jsonConverter<Record<string, unknown>>(isObject), reflect: true })
+  config?: Record<string, unknown>;
+
+  @property({ converter: dateConverter, reflect: true })
+  published?: Date;
+
+  @property({ converter: listConverter(), reflect: true })
+  tags: string[] = [];
+
+  @property({ converter: enumConverter(sizes), reflect: true })
+  size: (typeof sizes)[number] = 'medium';
+
+  @property({ converter: urlConverter(), reflect: true })
+  homepage?: URL;
+
+  @property({ converter: durationConverter, reflect: true })
+  timeout = 30_000;
+
+  @state()
+  private _errors: ConversionErrorDetail[] = [];
+
+  @state()
+  private _attribute = 'published';
+
+  @state()
+  private _attributeValue = '2024-02-30';
+
+  constructor() {
+    super();
+    this.addEventListener('attribute-conversion-error', (e) => (this._errors = [...this._errors, e.detail]));
+  }
+
   render() {
+    const rows: Array<[attribute: string, value: string, change: string, run: () => void]> = [
+      ['config', JSON.stringify(this.config), 'Toggle theme', () =>
+        (this.config = { ...this.config, theme: this.config?.theme === 'dark' ? 'light' : 'dark' })],
+      ['published', String(this.published?.toISOString()), 'Next day', () =>
+        (this.published = new Date((this.published?.getTime() ?? Date.now()) + 86_400_000))],
+      ['tags', JSON.stringify(this.tags), 'Add a tag', () => (this.tags = [...this.tags, `tag ${this.tags.length + 1}`])],
+      ['size', this.size, 'Next size', () => (this.size = sizes[(sizes.indexOf(this.size) + 1) % sizes.length])],
+      ['homepage', String(this.homepage?.href), 'Go up', () => (this.homepage = new URL('..', this.homepage ?? location.href))],
+      ['timeout', `${this.timeout} ms`, 'Add 30s', () => (this.timeout += 30_000)],
+    ];
     return html`
       <main>
-        <h1>Hello</h1>
+        <h3>Attribute converters</h3>
+        <table>
+          <tr>
+            <th>Attribute</th>
+            <th>Property</th>
+            <th>Change the property</th>
+          </tr>
+          ${rows.map(
+            ([attribute, value, change, run]) => html`
+              <tr>
+                <td><code data-attribute=${attribute}></code></td>
+                <td><code>${value}</code></td>
+                <td><button @click=${run}>${change}</button></td>
+              </tr>
+            `
+          )}
+        </table>
+        <p>
+          <select @change=${(e: Event) => (this._attribute = (e.target as HTMLSelectElement).value)}>
+            ${rows.map(([attribute]) => html`<option ?selected=${attribute === this._attribute}>${attribute}</option>`)}
+          </select>
+          <input .value=${this._attributeValue}
+            @input=${(e: Event) => (this._attributeValue = (e.target as HTMLInputElement).value)} />
+          <button @click=${() => this.setAttribute(this._attribute, this._attributeValue)}>setAttribute()</button>
+        </p>
+        <h4>Errors</h4>
+        <ul>
+          ${this._errors.map(({ attribute, message }) => html`<li><code>${attribute}</code>: ${message}</li>`)}
+        </ul>
       </main>
     `;
   }
+
+  /**
+   * Properties are reflected during the update, after `render()` ran: the attributes are read here.
+   */
+  updated() {
+    for (const code of this.renderRoot.querySelectorAll<HTMLElement>('[data-attribute]')) {
+      code.textContent = `${code.dataset.attribute}=${JSON.stringify(this.getAttribute(code.dataset.attribute!))}`;
+    }
+  }
 }
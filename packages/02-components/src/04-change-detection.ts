@@ -0,0 +1,212 @@
+import { LitElement, css, html } from 'lit';
+import { customElement, property, state } from 'lit/decorators.js';
+import {
+  Versioned,
+  deepChanged,
+  keyedArrayChanged,
+  shallowChanged,
+  versionChanged,
+} from './has-changed.js';
+
+interface Employee {
+  id: number;
+  givenName: string;
+  familyName: string;
+}
+
+/**
+ * Counts its renders. Each subclass declares `value` with another `hasChanged`:
+ * a set of `value` that `hasChanged` rejects doesn't render.
+ */
+class RenderCounter extends LitElement {
+  renders = 0;
+
+  value: unknown;
+
+  render() {
+    this.renders++;
+    const items = this.value instanceof Versioned ? this.value.value : this.value;
+    return html`${this.renders} renders${Array.isArray(items) ? html`, ${items.length} items` : ''}`;
+  }
+}
+
+@customElement('default-changed')
+export class DefaultChanged extends RenderCounter {
+  @property({ attribute: false })
+  value: unknown;
+}
+
+@customElement('shallow-changed')
+export class ShallowChanged extends RenderCounter {
+  @property({ attribute: false, hasChanged: shallowChanged })
+  value: unknown;
+}
+
+@customElement('deep-changed')
+export class DeepChanged extends RenderCounter {
+  @property({ attribute: false, hasChanged: deepChanged })
+  value: unknown;
+}
+
+@customElement('keyed-array-changed')
+export class KeyedArrayChanged extends RenderCounter {
+  @property({ attribute: false, hasChanged: keyedArrayChanged((employee: Employee) => employee.id) })
+  value: Employee[] | undefined;
+}
+
+@customElement('version-changed')
+export class VersionChanged extends RenderCounter {
+  @property({ attribute: false, hasChanged: versionChanged })
+  value: Versioned<Employee[]> | undefined;
+}
+
+const employees = (): Employee[] => [
+  { id: 0, givenName: 'Fred', familyName: 'Flintstone' },
+  { id: 1, givenName: 'George', familyName: 'Jetson' },
+  { id: 2, givenName: 'Barney', familyName: 'Rubble' },
+  { id: 3, givenName: 'Cosmo', familyName: 'Spacely' },
+];
+
+/**
+ * Change detection
+ * Every render of this element sets the `value` of every counter below, with the same kind of value
+ * `DynamicStyles` (03-styles) and `RepeatElements` (08-templates) receive:
+ * - object literals created by the template, like the `classMap()` and `styleMap()` arguments;
+ * - an array copied to make a change visible (`[...employees]`), or mutated in place.
+ * Each counter shows its renders, and the sets its `hasChanged` skipped.
+ *
+ * `Versioned` mutates in place without copying: the `default-changed` counter receiving the same array
+ * never sees the added employees.
+ */
+@customElement('change-detection')
+export class ChangeDetection extends LitElement {
+  @state()
+  private _color = 'lightgreen';
+
+  @state()
+  private _highlight = true;
+
+  @state()
+  private _unrelated = 0;
+
+  @state()
+  private _employees = employees();
+
+  @state()
+  private _versioned = new Versioned(employees());
+
+  private _sort = 1;
+
+  private _renders = 0;
+
+  render() {
+    this._renders++;
+    const styles = { color: this._color, fontFamily: 'Roboto' };
+    const look = { classes: { someclass: true, anotherclass: this._highlight }, styles };
+    return html`
+      <h3>Change detection</h3>
+      <p>
+        <button @click=${() => this._unrelated++}>Re-render</button>
+        <button @click=${() => (this._color = this._color === 'lightgreen' ? 'crimson' : 'lightgreen')}>
+          Change the color
+        </button>
+        <button @click=${() => (this._highlight = !this._highlight)}>Toggle a class</button>
+        <button @click=${() => (this._employees = [...this._employees])}>Copy the employees</button>
+        <button @click=${this._toggleSort}>Toggle sort</button>
+        <button @click=${this._rename}>Rename the first employee</button>
+        <button @click=${this._add}>Add an employee in place</button>
+      </p>
+      <p>Rendered ${this._renders} times (re-renders: ${this._unrelated}), each render sets every counter.</p>
+      <table>
+        <tr>
+          <th></th>
+          <th>default (<code>!==</code>)</th>
+          <th>shallowChanged</th>
+          <th>deepChanged</th>
+          <th>keyedArrayChanged</th>
+          <th>versionChanged</th>
+        </tr>
+        <tr>
+          <th>Flat object</th>
+          ${counter(html`<default-changed data-counter .value=${styles}></default-changed>`)}
+          ${counter(html`<shallow-changed data-counter .value=${styles}></shallow-changed>`)}
+          ${counter(html`<deep-changed data-counter .value=${styles}></deep-changed>`)}
+        </tr>
+        <tr>
+          <th>Nested object</th>
+          ${counter(html`<default-changed data-counter .value=${look}></default-changed>`)}
+          ${counter(html`<shallow-changed data-counter .value=${look}></shallow-changed>`)}
+          ${counter(html`<deep-changed data-counter .value=${look}></deep-changed>`)}
+        </tr>
+        <tr>
+          <th>Copied array</th>
+          ${counter(html`<default-changed data-counter .value=${this._employees}></default-changed>`)}
+          ${counter(html`<shallow-changed data-counter .value=${this._employees}></shallow-changed>`)}
+          ${counter(html`<deep-changed data-counter .value=${this._employees}></deep-changed>`)}
+          ${counter(html`<keyed-array-changed data-counter .value=${this._employees}></keyed-array-changed>`)}
+        </tr>
+        <tr>
+          <th>Array mutated in place</th>
+          ${counter(html`<default-changed data-counter .value=${this._versioned.value}></default-changed>`)}
+          <td></td>
+          <td></td>
+          <td></td>
+          ${counter(html`<version-changed data-counter .value=${this._versioned}></version-changed>`)}
+        </tr>
+      </table>
+    `;
+  }
+
+  /**
+   * The counters render after this element: the skipped sets are written once they are done.
+   */
+  async updated() {
+    const counters = [...this.renderRoot.querySelectorAll<RenderCounter>('[data-counter]')];
+    await Promise.all(counters.map((counter) => counter.updateComplete));
+    for (const counter of counters) {
+      counter.nextElementSibling!.textContent = `${this._renders - counter.renders} skipped`;
+    }
+  }
+
+  private _toggleSort() {
+    this._sort *= -1;
+    this._employees = [...this._employees].sort(
+      (a, b) => this._sort * (a.familyName.localeCompare(b.familyName) || a.givenName.localeCompare(b.givenName))
+    );
+  }
+
+  /** Immutable update: a new array with a new first item, the other items are the same objects */
+  private _rename() {
+    const [first, ...others] = this._employees;
+    this._employees = [{ ...first, givenName: `${first.givenName}!` }, ...others];
+  }
+
+  private _add() {
+    this._versioned = this._versioned.update((list) =>
+      list.push({ id: list.length, givenName: 'Employee', familyName: `${list.length}` })
+    );
+  }
+
+  static styles = css`
+    table {
+      text-align: left;
+    }
+    td small {
+      display: block;
+      color: gray;
+    }
+  `;
+}
+
+const counter = (element: unknown) => html`<td>${element}<small></small></td>`;
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'default-changed': DefaultChanged;
+    'shallow-changed': ShallowChanged;
+    'deep-changed': DeepChanged;
+    'keyed-array-changed': KeyedArrayChanged;
+    'version-changed': VersionChanged;
+    'change-detection': ChangeDetection;
+  }
+}
@@ -2,6 +2,7 @@ import { LitElement, html } from 'lit';
 import { customElement } from 'lit/decorators.js';
 
 import './03-reactive-properties.js';
+import './04-change-detection.js';
 
 @customElement('app-lit-components')
 export class AppLitComponents extends LitElement {
@@ -12,6 +13,19 @@ export class AppLitComponents extends LitElement {
       <main>
         <h1>${this.header}</h1>
         <reactive-properties name="Reactive Properties"></reactive-properties>
+        <shadowed-field></shadowed-field>
+        <property-options></property-options>
+        <observed-attributes
+          myvalue="99"
+          my-name="Fred"
+          config='{"theme": "dark"}'
+          published="2024-05-01"
+          tags="lit, web components"
+          size="huge"
+          homepage="https://lit.dev/docs/components/properties/"
+          timeout="1m 30s"
+        ></observed-attributes>
+        <change-detection></change-detection>
       </main>
     `;
   }
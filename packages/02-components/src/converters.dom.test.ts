@@ -0,0 +1,73 @@
+import { LitElement } from 'lit';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ConversionErrorDetail, ReportConversionErrors } from './converters.js';
+import { ReactivePropertiesAttributes } from './03-reactive-properties.js';
+
+describe('ReportConversionErrors', () => {
+  let element: ReactivePropertiesAttributes;
+  let errors: ConversionErrorDetail[];
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    element = new ReactivePropertiesAttributes();
+    errors = [];
+    const container = document.createElement('div');
+    container.addEventListener('attribute-conversion-error', (e) => errors.push(e.detail));
+    container.append(element);
+    document.body.append(container);
+    await element.updateComplete;
+  });
+
+  afterEach(() => {
+    document.body.innerHTML = '';
+    vi.restoreAllMocks();
+  });
+
+  it('keeps the value, and dispatches an event that bubbles out of the element', () => {
+    element.setAttribute('size', 'huge');
+
+    expect(element.size).toBe('medium');
+    expect(errors).toEqual([
+      { attribute: 'size', value: 'huge', message: 'enum: expected one of small, medium, large (got "huge")' },
+    ]);
+    expect(console.warn).toHaveBeenCalledWith('<observed-attributes size>', errors[0].message);
+  });
+
+  it('converts the valid values', () => {
+    element.setAttribute('size', 'large');
+    element.setAttribute('published', '2024-02-30');
+
+    expect(element.size).toBe('large');
+    expect(element.published).toBeUndefined();
+    expect(errors.map(({ attribute }) => attribute)).toEqual(['published']);
+  });
+
+  it('still reflects the property after an error', async () => {
+    element.setAttribute('size', 'huge');
+    element.size = 'large';
+    await element.updateComplete;
+
+    expect(element.getAttribute('size')).toBe('large');
+  });
+
+  it('calls the converter as a method, like Lit does', () => {
+    const prefixed = {
+      prefix: '#',
+      fromAttribute(this: { prefix: string }, value: string | null) {
+        return `${this.prefix}${value}`;
+      },
+    };
+    class PrefixedElement extends ReportConversionErrors(LitElement) {
+      static properties = { tag: { converter: prefixed } };
+
+      declare tag?: string;
+    }
+    customElements.define('prefixed-element', PrefixedElement);
+    const prefixedElement = new PrefixedElement();
+
+    prefixedElement.setAttribute('tag', 'lit');
+
+    expect(prefixedElement.tag).toBe('#lit');
+    expect(errors).toEqual([]);
+  });
+});
@@ -0,0 +1,148 @@
+import { describe, expect, it } from 'vitest';
+import {
+  AttributeConversionError,
+  dateConverter,
+  durationConverter,
+  enumConverter,
+  jsonConverter,
+  listConverter,
+  urlConverter,
+} from './converters.js';
+
+describe('jsonConverter', () => {
+  const json = jsonConverter();
+  const object = jsonConverter((value) => (typeof value === 'object' && value !== null) || 'expected an object');
+
+  it('parses the attribute and writes the value back', () => {
+    expect(json.fromAttribute!('{"theme": "dark"}')).toEqual({ theme: 'dark' });
+    expect(json.toAttribute!([1, 'a'])).toBe('[1,"a"]');
+  });
+
+  it('rejects malformed JSON', () => {
+    expect(() => json.fromAttribute!('{theme: dark}')).toThrow(AttributeConversionError);
+  });
+
+  it('rejects the values validate() rejects, with its message', () => {
+    expect(() => object.fromAttribute!('42')).toThrow('json: expected an object (got "42")');
+    expect(object.fromAttribute!('{}')).toEqual({});
+  });
+
+  it('returns undefined for a removed attribute, and removes it for undefined', () => {
+    expect(json.fromAttribute!(null)).toBeUndefined();
+    expect(json.toAttribute!(undefined)).toBeUndefined();
+  });
+});
+
+describe('dateConverter', () => {
+  it('reads an ISO date as UTC midnight', () => {
+    expect(dateConverter.fromAttribute!('2024-05-01')?.toISOString()).toBe('2024-05-01T00:00:00.000Z');
+  });
+
+  it('reads a date-time with its offset', () => {
+    expect(dateConverter.fromAttribute!('2024-05-01T23:30:00-02:00')?.toISOString()).toBe('2024-05-02T01:30:00.000Z');
+  });
+
+  it('rejects a day that does not exist, instead of rolling over to the next month', () => {
+    expect(() => dateConverter.fromAttribute!('2024-02-30')).toThrow('date: no such date (got "2024-02-30")');
+    expect(dateConverter.fromAttribute!('2024-02-29')?.toISOString()).toBe('2024-02-29T00:00:00.000Z');
+  });
+
+  it('rejects the formats Date.parse() accepts besides ISO 8601', () => {
+    expect(() => dateConverter.fromAttribute!('May 1, 2024')).toThrow(AttributeConversionError);
+  });
+
+  it('writes a date at midnight UTC without its time, so the attribute round-trips', () => {
+    expect(dateConverter.toAttribute!(dateConverter.fromAttribute!('2024-05-01'))).toBe('2024-05-01');
+    expect(dateConverter.toAttribute!(new Date(Date.UTC(2024, 4, 1, 12, 30)))).toBe('2024-05-01T12:30:00.000Z');
+  });
+});
+
+describe('listConverter', () => {
+  const list = listConverter();
+
+  it('trims the items and drops the empty ones', () => {
+    expect(list.fromAttribute!(' a, b ,,c ')).toEqual(['a', 'b', 'c']);
+    expect(list.fromAttribute!('')).toEqual([]);
+  });
+
+  it('splits on another separator', () => {
+    expect(listConverter(' ').fromAttribute!('a  b')).toEqual(['a', 'b']);
+  });
+
+  it('round-trips', () => {
+    const attribute = list.toAttribute!(['lit', 'web components']) as string;
+
+    expect(attribute).toBe('lit,web components');
+    expect(list.fromAttribute!(attribute)).toEqual(['lit', 'web components']);
+  });
+});
+
+describe('enumConverter', () => {
+  const size = enumConverter(['small', 'medium', 'large']);
+
+  it('round-trips the listed values', () => {
+    expect(size.fromAttribute!('small')).toBe('small');
+    expect(size.toAttribute!(size.fromAttribute!('large'))).toBe('large');
+  });
+
+  it('rejects other values, case-sensitively', () => {
+    expect(() => size.fromAttribute!('huge')).toThrow('enum: expected one of small, medium, large (got "huge")');
+    expect(() => size.fromAttribute!('Small')).toThrow(AttributeConversionError);
+  });
+});
+
+describe('urlConverter', () => {
+  const url = urlConverter({ base: 'https://lit.dev/docs/' });
+
+  it('resolves a relative URL against the base', () => {
+    expect(url.fromAttribute!('../api/')?.href).toBe('https://lit.dev/api/');
+    expect(url.toAttribute!(new URL('https://lit.dev/'))).toBe('https://lit.dev/');
+  });
+
+  it('only accepts http and https by default', () => {
+    expect(() => url.fromAttribute!('javascript:alert(1)')).toThrow('url: expected a URL with http: or https:');
+    expect(() => url.fromAttribute!('mailto:team@example.com')).toThrow(AttributeConversionError);
+  });
+
+  it('accepts the protocols it is given', () => {
+    const mailto = urlConverter({ base: 'https://lit.dev/', protocols: ['mailto:'] });
+
+    expect(mailto.fromAttribute!('mailto:team@example.com')?.href).toBe('mailto:team@example.com');
+    expect(() => mailto.fromAttribute!('https://lit.dev/')).toThrow(AttributeConversionError);
+  });
+
+  it('rejects an invalid URL', () => {
+    expect(() => url.fromAttribute!('https://[lit')).toThrow('url: invalid URL');
+  });
+});
+
+describe('durationConverter', () => {
+  it.each([
+    ['250ms', 250],
+    ['1.5s', 1500],
+    ['2h', 7_200_000],
+    [' 1h 1m 30s ', 3_690_000],
+  ])('reads %j as %i ms', (value, ms) => {
+    expect(durationConverter.fromAttribute!(value)).toBe(ms);
+  });
+
+  it.each(['30', '2d', '1m30s', ''])('rejects %j', (value) => {
+    expect(() => durationConverter.fromAttribute!(value)).toThrow(AttributeConversionError);
+  });
+
+  it('writes the largest units first', () => {
+    expect(durationConverter.toAttribute!(90_250)).toBe('1m 30s 250ms');
+    expect(durationConverter.toAttribute!(3_600_000)).toBe('1h');
+    expect(durationConverter.toAttribute!(0)).toBe('0ms');
+  });
+
+  it('writes a negative duration as 0ms, which reads back', () => {
+    expect(durationConverter.toAttribute!(-90_250)).toBe('0ms');
+    expect(durationConverter.toAttribute!(-0.5)).toBe('0ms');
+    expect(durationConverter.fromAttribute!('0ms')).toBe(0);
+  });
+
+  it('round-trips', () => {
+    expect(durationConverter.toAttribute!(durationConverter.fromAttribute!('1m 30s'))).toBe('1m 30s');
+  });
+});
@@ -0,0 +1,246 @@
+import { ComplexAttributeConverter, PropertyDeclaration, ReactiveElement } from 'lit';
+
+/**
+ * Attribute converters
+ * A `converter` turns the attribute string into the property value (`fromAttribute`),
+ * and the property value back into a string when the property reflects (`toAttribute`).
+ * ```ts
+ * @property({ converter: dateConverter, reflect: true })
+ * published?: Date;
+ * ```
+ *
+ * Every converter below:
+ * - returns `undefined` when the attribute is removed, and removes the attribute for `undefined` or `null`;
+ * - throws an `AttributeConversionError` for a malformed value. Lit doesn't catch it, extend `ReportConversionErrors()`
+ *   to keep the previous value and get an `attribute-conversion-error` event instead.
+ */
+
+export class AttributeConversionError extends Error {
+  name = 'AttributeConversionError';
+
+  constructor(readonly converter: string, readonly value: string, message: string) {
+    super(`${converter}: ${message} (got ${JSON.stringify(value)})`);
+  }
+}
+
+type Converter<T> = ComplexAttributeConverter<T | undefined>;
+
+/**
+ * Any JSON value. `validate` can reject values of the wrong shape, by returning `false` or a message.
+ */
+export const jsonConverter = <T = unknown>(validate?: (value: unknown) => boolean | string): Converter<T> => ({
+  fromAttribute(value) {
+    if (value === null) {
+      return undefined;
+    }
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(value);
+    } catch (e) {
+      throw new AttributeConversionError('json', value, (e as Error).message);
+    }
+    const valid = validate ? validate(parsed) : true;
+    if (valid !== true) {
+      throw new AttributeConversionError('json', value, valid || 'invalid value');
+    }
+    return parsed as T;
+  },
+  toAttribute: (value) => (value == null ? value : JSON.stringify(value)),
+});
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d{1,3})?)?(Z|[+-]\d{2}:\d{2})?)?$/;
+
+/**
+ * An ISO 8601 date (`2024-05-01`) or date-time (`2024-05-01T12:30:00Z`), as a `Date`.
+ * Like `new Date()`, a date alone is UTC and a date-time without offset is local time.
+ * `Date.parse()` accepts more formats, differently in each browser: anything else is rejected.
+ * A date at midnight UTC is written back without its time, so `published="2024-05-01"` reflects unchanged.
+ */
+export const dateConverter: Converter<Date> = {
+  fromAttribute(value) {
+    if (value === null) {
+      return undefined;
+    }
+    if (!ISO_DATE.test(value)) {
+      throw new AttributeConversionError('date', value, 'expected an ISO 8601 date like 2024-05-01');
+    }
+    // `2024-02-30` matches the pattern, but isn't a day: the date would roll over to March
+    const [year, month, day] = value.slice(0, 10).split('-').map(Number);
+    const calendarDay = new Date(Date.UTC(year, month - 1, day));
+    const date = new Date(value);
+    if (calendarDay.getUTCMonth() !== month - 1 || calendarDay.getUTCDate() !== day || isNaN(date.getTime())) {
+      throw new AttributeConversionError('date', value, 'no such date');
+    }
+    return date;
+  },
+  toAttribute(value) {
+    if (value == null) {
+      return value;
+    }
+    const iso = value.toISOString();
+    return iso.endsWith('T00:00:00.000Z') ? iso.slice(0, 10) : iso;
+  },
+};
+
+/**
+ * A list of strings: `tags="lit, web components"` is `['lit', 'web components']`.
+ * Items are trimmed, empty ones are dropped.
+ */
+export const listConverter = (separator = ','): Converter<string[]> => ({
+  fromAttribute: (value) =>
+    value === null
+      ? undefined
+      : value
+          .split(separator)
+          .map((item) => item.trim())
+          .filter(Boolean),
+  toAttribute: (value) => (value == null ? value : value.join(separator)),
+});
+
+/**
+ * One of `values`, compared case-sensitively.
+ * ```ts
+ * @property({ converter: enumConverter(['small', 'medium', 'large']) })
+ * size: 'small' | 'medium' | 'large' = 'medium';
+ * ```
+ */
+export const enumConverter = <T extends string>(values: readonly T[]): Converter<T> => ({
+  fromAttribute(value) {
+    if (value === null) {
+      return undefined;
+    }
+    if (!(values as readonly string[]).includes(value)) {
+      throw new AttributeConversionError('enum', value, `expected one of ${values.join(', ')}`);
+    }
+    return value as T;
+  },
+  toAttribute: (value) => value,
+});
+
+export interface UrlConverterOptions {
+  /** Base of relative URLs. Default: `document.baseURI` */
+  base?: string;
+  /** Accepted protocols. Default: http and https, which keeps `javascript:` URLs out. */
+  protocols?: string[];
+}
+
+/**
+ * An absolute or relative URL, as a `URL`.
+ */
+export const urlConverter = ({ base, protocols = ['http:', 'https:'] }: UrlConverterOptions = {}): Converter<URL> => ({
+  fromAttribute(value) {
+    if (value === null) {
+      return undefined;
+    }
+    const baseUrl = base ?? document.baseURI;
+    let url: URL;
+    try {
+      url = new URL(value, baseUrl);
+    } catch {
+      throw new AttributeConversionError('url', value, 'invalid URL');
+    }
+    if (!protocols.includes(url.protocol)) {
+      throw new AttributeConversionError('url', value, `expected a URL with ${protocols.join(' or ')}`);
+    }
+    return url;
+  },
+  toAttribute: (value) => (value == null ? value : value.href),
+});
+
+const DURATION_UNITS = { h: 3_600_000, m: 60_000, s: 1000, ms: 1 };
+const DURATION = /^(\d+(?:\.\d+)?)(h|ms|m|s)$/;
+
+/**
+ * A duration in milliseconds, written with units: `250ms`, `1.5s`, `1m 30s`, `2h`.
+ * A number without unit is rejected: `timeout="30"` could mean seconds as well as milliseconds.
+ * Durations have no sign: a negative duration is written as `0ms`.
+ */
+export const durationConverter: Converter<number> = {
+  fromAttribute(value) {
+    if (value === null) {
+      return undefined;
+    }
+    const parts = value.trim().split(/\s+/);
+    return parts.reduce((total, part) => {
+      const match = DURATION.exec(part);
+      if (!match) {
+        throw new AttributeConversionError('duration', value, 'expected a duration like 250ms, 1.5s or 1m 30s');
+      }
+      return total + Number(match[1]) * DURATION_UNITS[match[2] as keyof typeof DURATION_UNITS];
+    }, 0);
+  },
+  toAttribute(value) {
+    if (value == null) {
+      return value;
+    }
+    const parts: string[] = [];
+    let rest = Math.max(value, 0);
+    for (const [unit, ms] of Object.entries(DURATION_UNITS)) {
+      const count = unit === 'ms' ? rest : Math.floor(rest / ms);
+      if (count) {
+        parts.push(`${count}${unit}`);
+        rest -= count * ms;
+      }
+    }
+    return parts.join(' ') || '0ms';
+  },
+};
+
+export interface ConversionErrorDetail {
+  attribute: string;
+  value: string | null;
+  message: string;
+}
+
+/** The attribute Lit observes for a property, like `ReactiveElement` computes it. */
+const attributeName = (name: PropertyKey, { attribute }: PropertyDeclaration) =>
+  attribute === false ? undefined : typeof attribute === 'string' ? attribute : String(name).toLowerCase();
+
+type Constructor<T = {}> = new (...args: any[]) => T;
+
+/**
+ * Catches malformed attribute values instead of letting the converter throw out of `attributeChangedCallback()`:
+ * the property keeps its value, and the element dispatches a bubbling, composed `attribute-conversion-error`
+ * event with a `ConversionErrorDetail`, and logs a warning.
+ *
+ * The value is converted once here to find out, then again by Lit.
+ * A converter throwing inside Lit would leave the property marked as being reflected, and stop reflecting it.
+ */
+export const ReportConversionErrors = <T extends Constructor<ReactiveElement>>(superClass: T) => {
+  class ReportConversionErrorsElement extends superClass {
+    attributeChangedCallback(name: string, oldValue: string | null, value: string | null) {
+      const ctor = this.constructor as typeof ReactiveElement;
+      for (const [property, options] of ctor.elementProperties) {
+        const converter = options.converter as ComplexAttributeConverter | undefined;
+        if (attributeName(property, options) !== name || !converter?.fromAttribute) {
+          continue;
+        }
+        try {
+          // As a method, like Lit calls it: a converter object may use `this`
+          converter.fromAttribute(value, options.type);
+        } catch (e) {
+          if (!(e instanceof AttributeConversionError)) {
+            throw e;
+          }
+          console.warn(`<${this.localName} ${name}>`, e.message);
+          this.dispatchEvent(
+            new CustomEvent<ConversionErrorDetail>('attribute-conversion-error', {
+              detail: { attribute: name, value, message: e.message },
+              bubbles: true,
+              composed: true,
+            })
+          );
+          return;
+        }
+      }
+      super.attributeChangedCallback(name, oldValue, value);
+    }
+  }
+  return ReportConversionErrorsElement;
+};
+
+declare global {
+  interface HTMLElementEventMap {
+    'attribute-conversion-error': CustomEvent<ConversionErrorDetail>;
+  }
+}
@@ -0,0 +1,151 @@
+import { describe, expect, it } from 'vitest';
+import {
+  Versioned,
+  deepChanged,
+  deepEqual,
+  keyedArrayChanged,
+  shallowChanged,
+  shallowEqual,
+  versionChanged,
+} from './has-changed.js';
+
+describe('shallowEqual', () => {
+  it('compares arrays item by item and plain objects key by key, whatever the key order', () => {
+    expect(shallowEqual([1, 'a'], [1, 'a'])).toBe(true);
+    expect(shallowEqual({ color: 'red', size: 1 }, { size: 1, color: 'red' })).toBe(true);
+    expect(shallowEqual([1, 2], [2, 1])).toBe(false);
+    expect(shallowEqual({ a: 1 }, { a: 1, b: undefined })).toBe(false);
+    expect(shallowEqual({ a: undefined }, { b: undefined })).toBe(false);
+  });
+
+  it('compares with Object.is(): NaN equals NaN, 0 and -0 differ', () => {
+    expect(shallowEqual(NaN, NaN)).toBe(true);
+    expect(shallowEqual([NaN], [NaN])).toBe(true);
+    expect(shallowEqual({ x: 0 }, { x: -0 })).toBe(false);
+  });
+
+  it('compares nested objects and dates by identity', () => {
+    const nested = { a: 1 };
+
+    expect(shallowEqual({ nested }, { nested })).toBe(true);
+    expect(shallowEqual({ nested }, { nested: { a: 1 } })).toBe(false);
+    expect(shallowEqual(new Date(0), new Date(0))).toBe(false);
+  });
+
+  it('compares an array and an object with the same entries as different', () => {
+    expect(shallowEqual(['a'], { 0: 'a' })).toBe(false);
+    expect(shallowEqual(null, {})).toBe(false);
+  });
+
+  it('compares class instances by identity', () => {
+    expect(shallowEqual(new Map(), new Map())).toBe(false);
+  });
+});
+
+describe('deepEqual', () => {
+  it('compares nested arrays and plain objects, whatever the key order', () => {
+    expect(deepEqual({ a: [1, { b: 2, c: [3] }], d: 'e' }, { d: 'e', a: [1, { c: [3], b: 2 }] })).toBe(true);
+    expect(deepEqual({ a: [1, { b: 2 }] }, { a: [1, { b: 3 }] })).toBe(false);
+  });
+
+  it('compares dates by time, NaN as equal', () => {
+    expect(deepEqual({ at: new Date(0) }, { at: new Date(0) })).toBe(true);
+    expect(deepEqual({ at: new Date(0) }, { at: new Date(1) })).toBe(false);
+    expect(deepEqual([NaN, { n: NaN }], [NaN, { n: NaN }])).toBe(true);
+    expect(deepEqual(new Date(0), 0)).toBe(false);
+  });
+
+  it('compares cyclic structures of the same shape as equal', () => {
+    const a: Record<string, unknown> = { name: 'a' };
+    a.self = a;
+    const b: Record<string, unknown> = { name: 'a' };
+    b.self = b;
+    const c: Record<string, unknown> = { name: 'c' };
+    c.self = c;
+
+    expect(deepEqual(a, b)).toBe(true);
+    expect(deepEqual(a, c)).toBe(false);
+    expect(deepEqual([a], [b])).toBe(true);
+  });
+
+  it('compares two-step cycles', () => {
+    const parent = (name: string) => {
+      const node: Record<string, unknown> = { name };
+      node.child = { parent: node };
+      return node;
+    };
+
+    expect(deepEqual(parent('p'), parent('p'))).toBe(true);
+    expect(deepEqual(parent('p'), parent('q'))).toBe(false);
+  });
+});
+
+describe('shallowChanged and deepChanged', () => {
+  it('are the negation of their comparison', () => {
+    expect(shallowChanged({ a: 1 }, { a: 1 })).toBe(false);
+    expect(shallowChanged({ a: { b: 1 } }, { a: { b: 1 } })).toBe(true);
+    expect(deepChanged({ a: { b: 1 } }, { a: { b: 1 } })).toBe(false);
+    expect(deepChanged(undefined, {})).toBe(true);
+  });
+});
+
+describe('keyedArrayChanged', () => {
+  type Employee = { id: number; name: string };
+  const byId = keyedArrayChanged((employee: Employee) => employee.id);
+  const alice = { id: 1, name: 'Alice' };
+  const bob = { id: 2, name: 'Bob' };
+
+  it("doesn't change for a copy in the same order", () => {
+    expect(byId([alice, bob], [alice, bob])).toBe(false);
+  });
+
+  it('changes when the keys, their order or the items differ', () => {
+    expect(byId([alice, bob], [bob, alice])).toBe(true);
+    expect(byId([alice], [alice, bob])).toBe(true);
+    expect(byId([alice, { ...bob, name: 'Robert' }], [alice, bob])).toBe(true);
+  });
+
+  it('compares the items with itemEqual', () => {
+    const byIdAndName = keyedArrayChanged(
+      (employee: Employee) => employee.id,
+      (a, b) => a.name === b.name
+    );
+
+    expect(byIdAndName([alice, { ...bob }], [alice, bob])).toBe(false);
+    expect(byIdAndName([alice, { ...bob, name: 'Robert' }], [alice, bob])).toBe(true);
+  });
+
+  it('compares the keys with Object.is(): NaN keys are the same', () => {
+    const byValue = keyedArrayChanged((n: number) => n, () => true);
+
+    expect(byValue([NaN], [NaN])).toBe(false);
+  });
+
+  it('changes from or to undefined', () => {
+    expect(byId(undefined, undefined)).toBe(false);
+    expect(byId([], undefined)).toBe(true);
+    expect(byId(undefined, [])).toBe(true);
+  });
+});
+
+describe('versionChanged', () => {
+  it('changes when the value is updated in place', () => {
+    const employees = new Versioned<string[]>([]);
+    const updated = employees.update((value) => value.push('Alice'));
+
+    expect(updated.value).toBe(employees.value);
+    expect(versionChanged(updated, employees)).toBe(true);
+  });
+
+  it("doesn't change for a Versioned recreated with the same value and version", () => {
+    const value = ['Alice'];
+
+    expect(versionChanged(new Versioned(value, 1), new Versioned(value, 1))).toBe(false);
+  });
+
+  it('changes for another value of the same version, and from or to undefined', () => {
+    expect(versionChanged(new Versioned(['Alice']), new Versioned(['Alice']))).toBe(true);
+    expect(versionChanged(new Versioned([]), undefined)).toBe(true);
+    expect(versionChanged(undefined, undefined)).toBe(false);
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * `hasChanged` helpers
+ * Lit calls `hasChanged(value, oldValue)` on every set of a reactive property, and only schedules an update when
+ * it returns true. The default is `value !== oldValue`, hence two habits:
+ * - objects and arrays are copied (`[...this.items]`) to make a change visible;
+ * - object literals in a template (`.styles=${{ color }}`) update the child on every render of the parent,
+ *   since each render creates a new object.
+ * ```ts
+ * @property({ attribute: false, hasChanged: shallowChanged })
+ * styles: StyleInfo = {};
+ * ```
+ *
+ * A mutated object is the same object: `value` and `oldValue` are then identical, and no comparison of them can see
+ * the mutation. Mutate in place with `Versioned` instead of copying.
+ */
+
+export type HasChanged<T = unknown> = (value: T, oldValue: T) => boolean;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' &&
+  value !== null &&
+  [Object.prototype, null].includes(Object.getPrototypeOf(value));
+
+/** Compares arrays item by item, and plain objects key by key, with `Object.is()` or `equal`. */
+const equalEntries = (a: unknown, b: unknown, equal: (a: unknown, b: unknown) => boolean) => {
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => equal(item, b[i]));
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length && keys.every((key) => key in b && equal(a[key], b[key]));
+  }
+  return false;
+};
+
+/** Equal when identical, or arrays or plain objects with identical items or values. */
+export const shallowEqual = (a: unknown, b: unknown) => Object.is(a, b) || equalEntries(a, b, Object.is);
+
+/** `deepEqual()` with the pairs of objects it is comparing: met again in a cycle, a pair is assumed equal. */
+const deepEqualWithin = (a: unknown, b: unknown, comparing: Array<[unknown, unknown]>): boolean => {
+  if (Object.is(a, b)) {
+    return true;
+  }
+  if (a instanceof Date && b instanceof Date) {
+    return a.getTime() === b.getTime();
+  }
+  if (comparing.some(([x, y]) => x === a && y === b)) {
+    return true;
+  }
+  comparing.push([a, b]);
+  const equal = equalEntries(a, b, (x, y) => deepEqualWithin(x, y, comparing));
+  comparing.pop();
+  return equal;
+};
+
+/**
+ * Equal when identical, or arrays, plain objects or dates with deeply equal contents.
+ * Other objects (class instances, maps) are compared by identity. Cyclic structures are equal when their cycles
+ * have the same shape.
+ */
+export const deepEqual = (a: unknown, b: unknown) => deepEqualWithin(a, b, []);
+
+/** `hasChanged` for flat objects and arrays, e.g. a `styleMap()` or `classMap()` argument. O(size). */
+export const shallowChanged: HasChanged = (value, oldValue) => !shallowEqual(value, oldValue);
+
+/** `hasChanged` for nested data, e.g. JSON from a server. O(size of the whole structure) on every set. */
+export const deepChanged: HasChanged = (value, oldValue) => !deepEqual(value, oldValue);
+
+/**
+ * `hasChanged` for arrays of records with a key, e.g. a list rendered with `repeat()`.
+ * Changed when the keys or their order differ, or when an item at the same place isn't `itemEqual`
+ * (default: the same object, for immutable items). A copy in the same order doesn't update.
+ * ```ts
+ * @property({ attribute: false, hasChanged: keyedArrayChanged((employee: Employee) => employee.id) })
+ * employees: Employee[] = [];
+ * ```
+ */
+export const keyedArrayChanged =
+  <T>(key: (item: T) => unknown, itemEqual: (a: T, b: T) => boolean = Object.is): HasChanged<T[] | undefined> =>
+  (value, oldValue) =>
+    !value || !oldValue
+      ? value !== oldValue
+      : value.length !== oldValue.length ||
+        value.some((item, i) => !Object.is(key(item), key(oldValue[i])) || !itemEqual(item, oldValue[i]));
+
+/**
+ * A value mutated in place, and a version counting its mutations.
+ * `update()` mutates the value and returns a new `Versioned` of the next version: nothing is copied,
+ * and `versionChanged` compares two numbers whatever the size of the value.
+ * ```ts
+ * this.employees = this.employees.update((employees) => employees.push(employee));
+ * ```
+ *
+ * Older `Versioned` share the mutated value: keep the latest one only.
+ */
+export class Versioned<T> {
+  constructor(readonly value: T, readonly version = 0) {}
+
+  update(mutate: (value: T) => void) {
+    mutate(this.value);
+    return new Versioned(this.value, this.version + 1);
+  }
+}
+
+/**
+ * `hasChanged` for `Versioned` values: changed when the value or its version differ.
+ * A `Versioned` recreated with the same value and version doesn't update.
+ */
+export const versionChanged: HasChanged<Versioned<unknown> | undefined> = (value, oldValue) =>
+  value?.value !== oldValue?.value || value?.version !== oldValue?.version;
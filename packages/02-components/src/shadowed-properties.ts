@@ -0,0 +1,105 @@
+import { ReactiveElement } from 'lit';
+
+/**
+ * Shadowed reactive properties
+ * Lit defines reactive properties as accessors on the prototype. An own property of the instance with the same name
+ * hides the accessor: setting it no longer triggers an update, and nothing tells you.
+ * Class fields create such own properties when they are defined rather than assigned:
+ * - TypeScript with `useDefineForClassFields: true`, the default from target ES2022;
+ * - native class fields, in JavaScript or TypeScript's ES2022+ output.
+ * ```ts
+ * static properties = { count: { type: Number } };
+ * count = 0; // defines an own `count`, the component never updates when it changes
+ * ```
+ *
+ * Lit only checks for it in its development build, which production bundles and dev servers resolving the default
+ * export don't load. This check runs on the first update, in Vite's dev server and in Vitest (`import.meta.env.DEV`).
+ */
+
+export type ShadowingCheckMode = 'off' | 'warn' | 'throw';
+
+/**
+ * What to do when an element shadows reactive properties:
+ * `warn` logs once per element class, `throw` rejects the first update (use it in tests), `off` skips the check.
+ * `warn` in development, `off` in production builds and outside Vite (`web-dev-server` loads Lit's development build,
+ * which checks it itself).
+ */
+export const shadowingCheck: { mode: ShadowingCheckMode } = {
+  // Cast: the package isn't built with Vite's types, and `import.meta.env` is undefined outside Vite
+  mode: (import.meta as { env?: { DEV?: boolean } }).env?.DEV ? 'warn' : 'off',
+};
+
+/**
+ * The reactive properties of the element hidden by an own property.
+ * `noAccessor` properties are skipped: Lit doesn't define an accessor for them.
+ */
+export const shadowedProperties = (element: ReactiveElement) => {
+  const ctor = element.constructor as typeof ReactiveElement;
+  return [...ctor.elementProperties]
+    .filter(([name, options]) => !options.noAccessor && Object.prototype.hasOwnProperty.call(element, name))
+    .map(([name]) => String(name));
+};
+
+const warned = new WeakSet<typeof ReactiveElement>();
+
+/** Warns about the shadowed reactive properties of the element, or throws in `throw` mode */
+const checkShadowedProperties = (element: ReactiveElement) => {
+  if (shadowingCheck.mode === 'off') {
+    return;
+  }
+  const shadowed = shadowedProperties(element);
+  if (!shadowed.length) {
+    return;
+  }
+  const message =
+    `<${element.localName}> shadows its reactive properties ${shadowed.join(', ')} with class fields: ` +
+    `changing them won't update the element. ` +
+    `Use \`declare\` or \`accessor\` for the fields, or set "useDefineForClassFields": false.`;
+  if (shadowingCheck.mode === 'throw') {
+    throw new Error(message);
+  }
+  const ctor = element.constructor as typeof ReactiveElement;
+  if (!warned.has(ctor)) {
+    warned.add(ctor);
+    console.warn(message);
+  }
+};
+
+/**
+ * Checks the element for shadowed reactive properties before its first update.
+ * An initializer: add it to an element class, or extend `DetectShadowedProperties(LitElement)`.
+ * ```ts
+ * MyElement.addInitializer(detectShadowedProperties);
+ * ```
+ * In `throw` mode, the error rejects `updateComplete`: an error thrown while connecting would only be reported
+ * by the browser, not thrown by `append()`. Lit's development build rejects it first, with its own check.
+ *
+ * Properties set on an element before it was upgraded are not reported: Lit moves them to the accessors.
+ */
+export const detectShadowedProperties = (element: ReactiveElement) => {
+  element.addController({
+    hostUpdate() {
+      if (!element.hasUpdated) {
+        checkShadowedProperties(element);
+      }
+    },
+  });
+};
+
+type Constructor<T = {}> = new (...args: any[]) => T;
+
+/**
+ * Checks the element in `scheduleUpdate()`, before Lit's own check in the first update of its development build:
+ * in `throw` mode, `updateComplete` rejects with the error of this check.
+ */
+export const DetectShadowedProperties = <T extends Constructor<ReactiveElement>>(superClass: T) => {
+  class DetectShadowedPropertiesElement extends superClass {
+    protected scheduleUpdate() {
+      if (!this.hasUpdated) {
+        checkShadowedProperties(this);
+      }
+      return super.scheduleUpdate();
+    }
+  }
+  return DetectShadowedPropertiesElement;
+};
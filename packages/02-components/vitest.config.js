@@ -0,0 +1,13 @@
+import { defineConfig } from 'vitest/config';
+import { dom } from '../../vitest.shared.js';
+
+export default defineConfig({
+  test: {
+    projects: [
+      // The converters are plain functions, tested in Node. `out-tsc` holds the compiled copies of the tests.
+      { test: { name: 'node', environment: 'node', include: ['src/**/*.test.ts'], exclude: ['src/**/*.dom.test.ts'] } },
+      // The elements using them, in a headless DOM
+      { ...dom, test: { ...dom.test, name: 'dom', include: ['src/**/*.dom.test.ts'] } },
+    ],
+  },
+});
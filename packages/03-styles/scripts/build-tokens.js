@@ -0,0 +1,125 @@
+// Generates the design tokens of `tokens.json`:
+// - `src/generated/tokens.ts`: typed values, `css` fragments and the declarations of each theme, for elements;
+// - `src/generated/tokens.css`: a global stylesheet declaring the custom properties on `:root`.
+// Run it with `pnpm tokens:build` after editing `tokens.json`.
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+
+const source = new URL("../tokens.json", import.meta.url);
+const output = new URL("../src/generated/", import.meta.url);
+
+const header = `Do not modify this file by hand!
+Re-generate this file by running \`pnpm tokens:build\`.`;
+
+const { themes, ...base } = JSON.parse(await readFile(source, "utf8"));
+
+/** `color-scheme` of a theme is a CSS property, every other entry is a token */
+const splitTheme = ({ "color-scheme": colorScheme, ...tokens }) => ({ colorScheme, tokens });
+
+/** `{ font: { family: { body: "Inter" } } }` → `[["--token-font-family-body", "Inter"]]` */
+const flatten = (tokens, path = []) =>
+  Object.entries(tokens).flatMap(([key, value]) =>
+    typeof value === "object" ? flatten(value, [...path, key]) : [[`--token-${[...path, key].join("-")}`, value]]
+  );
+
+const themeNames = Object.keys(themes);
+const [defaultTheme] = themeNames;
+const themeTokens = splitTheme(themes[defaultTheme]).tokens;
+for (const name of themeNames) {
+  const keys = flatten(splitTheme(themes[name]).tokens).map(([property]) => property);
+  const expected = flatten(themeTokens).map(([property]) => property);
+  if (keys.join() !== expected.join()) {
+    throw new Error(`Theme "${name}" must define the same tokens as "${defaultTheme}"`);
+  }
+}
+
+const declarations = (tokens, indent) =>
+  flatten(tokens)
+    .map(([property, value]) => `${indent}${property}: ${value};`)
+    .join("\n");
+
+const themeDeclarations = (name, indent) => {
+  const { colorScheme, tokens } = splitTheme(themes[name]);
+  return `${indent}color-scheme: ${colorScheme};\n${declarations(tokens, indent)}`;
+};
+
+/** The same shape as the tokens, each one replaced by a `var()` fragment falling back to its value */
+const fragments = (tokens, indent, path = []) => {
+  const entries = Object.entries(tokens).map(([key, value]) => {
+    const name = `--token-${[...path, key].join("-")}`;
+    const fragment =
+      typeof value === "object" ? fragments(value, `${indent}  `, [...path, key]) : `css\`var(${name}, ${value})\``;
+    return `${indent}  ${JSON.stringify(key)}: ${fragment},`;
+  });
+  return `{\n${entries.join("\n")}\n${indent}}`;
+};
+
+const json = (value) => JSON.stringify(value, null, 2);
+
+const ts = `// ${header.replace("\n", "\n// ")}
+
+import { CSSResult, css } from "lit";
+
+export const themeNames = ${json(themeNames)} as const;
+
+export type ThemeName = (typeof themeNames)[number];
+
+/** The values of the tokens shared by every theme */
+export const tokens = ${json(base)} as const;
+
+/** The values of the tokens of each theme */
+export const themes = ${json(themes)} as const;
+
+/**
+ * The tokens as \`var()\` fragments, to interpolate in \`css\`:
+ * \`color: \${vars.color.text}\` is \`color: var(--token-color-text, ${themes[defaultTheme].color.text})\`.
+ * The fallback is the value of the ${defaultTheme} theme, for pages without the tokens.
+ */
+export const vars = ${fragments({ ...base, ...themeTokens }, "")};
+
+/** Declares the custom properties of the shared tokens, for \`:host\` or \`:root\` */
+export const tokenDeclarations = css\`
+${declarations(base, "  ")}
+\`;
+
+/** Declares the custom properties of each theme, and its \`color-scheme\` */
+export const themeDeclarations: Record<ThemeName, CSSResult> = {
+${themeNames.map((name) => `  ${json(name)}: css\`\n${themeDeclarations(name, "    ")}\n  \`,`).join("\n")}
+};
+`;
+
+const stylesheet = `/*
+ * ${header.replace("\n", "\n * ")}
+ *
+ * The ${defaultTheme} theme by default, the ${themeNames.join(", ")} themes on \`[data-theme]\`,
+ * and the system preferences with \`prefers-color-scheme\` and \`prefers-contrast\`.
+ */
+:root {
+${declarations(base, "  ")}
+${themeDeclarations(defaultTheme, "  ")}
+}
+
+@media (prefers-color-scheme: dark) {
+  :root {
+${themeDeclarations("dark", "    ")}
+  }
+}
+
+@media (prefers-contrast: more) {
+  :root {
+${themeDeclarations("high-contrast", "    ")}
+  }
+}
+${themeNames
+  .map(
+    (name) => `
+[data-theme="${name}"] {
+${themeDeclarations(name, "  ")}
+}`
+  )
+  .join("\n")}
+`;
+
+await mkdir(output, { recursive: true });
+await writeFile(new URL("tokens.ts", output), ts);
+await writeFile(new URL("tokens.css", output), stylesheet);
+console.log(`Generated ${themeNames.length} themes and ${flatten(base).length + flatten(themeTokens).length} tokens`);
@@ -1,11 +1,13 @@
 import { LitElement, css, html } from 'lit';
-import { buttonStyles } from './styles.js';
+import { registry } from 'lit-styles';
 import { customElement } from 'lit/decorators.js';
 
 @customElement('sharing-styles')
 export class SharingStyles extends LitElement {
   static styles = [
-    buttonStyles,
+    // The shared button styles come from the style registry (lit-styles), requested by name:
+    // every element requesting "buttons" adopts the same constructed stylesheet.
+    registry.request(SharingStyles, 'buttons'),
     // Note that the host element can be affected by styles from outside the shadow tree, as well, 
     // so you should consider the styles you set in :host and :host() rules 
     // as default styles that can be overridden by the user.
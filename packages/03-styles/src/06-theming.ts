@@ -1,16 +1,19 @@
 import {LitElement, html, css} from 'lit';
 import {customElement} from 'lit/decorators.js';
+import {vars} from './generated/tokens.ts';
 
+// The element's own custom properties win, the design tokens are the defaults:
+// a `<theme-provider>` above it changes the tokens, a `--theming-element-*` property overrides one element.
 @customElement('theming-element')
 export class ThemingElement extends LitElement {
   static styles = css`
     :host {
-      color: var(--theming-element-text-color, black);
-      background: var(--theming-element-background-color, white);
-      font-family: var(--theming-element-font-family, Inter);
+      color: var(--theming-element-text-color, ${vars.color.text});
+      background: var(--theming-element-background-color, ${vars.color.surface});
+      font-family: var(--theming-element-font-family, ${vars.font.family.body});
       display: block;
-      padding: 8px;
-      margin: 8px;
+      padding: ${vars.space.medium};
+      margin: ${vars.space.medium};
     }
   `;
   protected render() {
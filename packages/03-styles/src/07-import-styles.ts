@@ -1,11 +1,13 @@
 import { css, html } from 'lit';
 import { LitElement } from 'lit';
+import { registry } from 'lit-styles';
 import { customElement } from 'lit/decorators.js';
 import { buttonStyles } from './07-styles-ts.js';
 
 @customElement('import-styles')
 export class ImportStyles extends LitElement {
   static styles = [
+    registry.request(ImportStyles, 'buttons'),
     buttonStyles,
     css`
       :host { display: block;
@@ -1,13 +1,16 @@
 import { css } from "lit";
+import { vars } from "./generated/tokens.ts";
 
+/**
+ * The design tokens as the defaults of the shared buttons (the "buttons" module of lit-styles),
+ * instead of white and blue. Add it after the module.
+ */
 export const buttonStyles = css`
   .blue-button {
-    color: white;
-    color: var(--button-text-color, white);
-    background: var(--button-background-color, blue);
-    font-family: var(--button-font-family, Inter);
+    color: var(--button-text-color, ${vars.color["on-accent"]});
+    background: var(--button-background-color, ${vars.color.accent});
   }
   .blue-button:disabled {
-    background-color: grey;
+    background-color: ${vars.color.disabled};
   }
 `;
@@ -0,0 +1,51 @@
+import { LitElement, css, html, unsafeCSS } from "lit";
+import { customElement, property } from "lit/decorators.js";
+import { ThemeName, themeDeclarations, themeNames, tokenDeclarations, vars } from "./generated/tokens.ts";
+
+/**
+ * Scopes a theme to its subtree.
+ * Custom properties are inherited: the `--token-*` properties declared on the host reach every element below,
+ * through shadow roots, and win over the ones of the document (`src/generated/tokens.css`).
+ * Without a `theme`, the subtree keeps the theme of its ancestors.
+ *
+ * ```html
+ * <theme-provider theme="dark">
+ *   <theming-element></theming-element>
+ * </theme-provider>
+ * ```
+ */
+@customElement("theme-provider")
+export class ThemeProvider extends LitElement {
+  static styles = [
+    css`
+      :host {
+        display: block;
+        ${tokenDeclarations}
+        color: ${vars.color.text};
+        background: ${vars.color.background};
+        font-family: ${vars.font.family.body};
+        line-height: ${vars.font["line-height"].body};
+      }
+    `,
+    ...themeNames.map(
+      (name) => css`
+        :host([theme="${unsafeCSS(name)}"]) {
+          ${themeDeclarations[name]}
+        }
+      `
+    ),
+  ];
+
+  @property({ reflect: true })
+  theme?: ThemeName;
+
+  protected render() {
+    return html`<slot></slot>`;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    "theme-provider": ThemeProvider;
+  }
+}
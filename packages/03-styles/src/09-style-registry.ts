@@ -0,0 +1,150 @@
+import { LitElement, css, html } from "lit";
+import { StyleName, StyleRegistry, buttons, defineStyles, registry } from "lit-styles";
+import { customElement, queryAll, state } from "lit/decorators.js";
+import "./03-sharing-styles.ts";
+import "./07-import-styles.ts";
+
+/** Requests four modules by name, on top of its own styles */
+@customElement("registry-card")
+export class RegistryCard extends LitElement {
+  static styles = [
+    registry.request(RegistryCard, "typography", "layout", "buttons", "focus-ring"),
+    css`
+      :host {
+        display: block;
+        padding: 8px;
+        border: 1px solid currentColor;
+      }
+    `,
+  ];
+
+  protected render() {
+    return html`
+      <h4><slot></slot></h4>
+      <div class="row">
+        <button class="blue-button">Open</button>
+        <button class="blue-button" disabled>Delete</button>
+      </div>
+      <p class="small">Styled by <code>typography</code>, <code>layout</code>, <code>buttons</code> and
+        <code>focus-ring</code></p>
+    `;
+  }
+}
+
+interface RegistryCheck {
+  description: string;
+  run: (demos: HTMLElement[]) => boolean;
+}
+
+const adopted = (element: HTMLElement) => element.shadowRoot?.adoptedStyleSheets ?? [];
+
+const checks: RegistryCheck[] = [
+  {
+    description: "both cards adopt the same stylesheets",
+    run: ([first, second]) =>
+      adopted(first).length > 0 && adopted(first).every((sheet, i) => sheet === adopted(second)[i]),
+  },
+  {
+    description: "registry-card, sharing-styles and import-styles adopt one buttons stylesheet",
+    run: (demos) => demos.every((demo) => adopted(demo).includes(registry.get("buttons")!.styles.styleSheet!)),
+  },
+  {
+    description: "another version of a registered module is ignored and reported",
+    run: () => {
+      const local = new StyleRegistry();
+      local.register(buttons, defineStyles("buttons", "2.0.0", css``));
+      return local.get("buttons") === buttons && local.conflicts().length === 1;
+    },
+  },
+  {
+    description: "requesting an unknown module throws",
+    run: () => {
+      try {
+        new StyleRegistry().request(RegistryCard, "cards" as StyleName);
+        return false;
+      } catch {
+        return true;
+      }
+    },
+  },
+];
+
+/**
+ * Reports which elements use which module of the style registry, and checks the stylesheets they adopt:
+ * one `CSSStyleSheet` per module, whatever the number of elements. ✅ or ❌ for each check, failures are
+ * also reported with `console.error`.
+ */
+@customElement("style-registry-report")
+export class StyleRegistryReport extends LitElement {
+  static styles = css`
+    :host {
+      display: block;
+      text-align: left;
+    }
+    ul {
+      list-style: none;
+      padding: 0;
+      font-size: small;
+    }
+    .pass {
+      color: green;
+    }
+    .fail {
+      color: crimson;
+    }
+  `;
+
+  @state()
+  private _results: Array<{ description: string; pass: boolean }> = [];
+
+  @queryAll("registry-card, sharing-styles, import-styles")
+  private _demos!: NodeListOf<LitElement>;
+
+  protected render() {
+    return html`
+      <registry-card>First card</registry-card>
+      <registry-card>Second card</registry-card>
+      <sharing-styles hidden></sharing-styles>
+      <import-styles hidden></import-styles>
+      <table>
+        <tr>
+          <th>Module</th>
+          <th>Version</th>
+          <th>Elements</th>
+        </tr>
+        ${registry.usage().map(
+          ({ name, version, elements }) => html`
+            <tr>
+              <td><code>${name}</code></td>
+              <td>${version}</td>
+              <td>${elements.join(", ")}</td>
+            </tr>
+          `
+        )}
+      </table>
+      <ul>
+        ${this._results.map(
+          ({ description, pass }) => html`<li class=${pass ? "pass" : "fail"}>${pass ? "✅" : "❌"} ${description}</li>`
+        )}
+      </ul>
+    `;
+  }
+
+  async firstUpdated() {
+    const demos = [...this._demos];
+    await Promise.all(demos.map((demo) => demo.updateComplete));
+    this._results = checks.map(({ description, run }) => ({ description, pass: run(demos) }));
+    for (const { description, pass } of this._results) {
+      if (!pass) {
+        console.error(`[style-registry-report] ${description}`);
+      }
+    }
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    "registry-card": RegistryCard;
+    "style-registry-report": StyleRegistryReport;
+  }
+}
@@ -1,5 +1,5 @@
 import { LitElement, css, html } from "lit";
-import { customElement } from "lit/decorators.js";
+import { customElement, state } from "lit/decorators.js";
 import "./01-add-styles.ts";
 import "./02-inheriting-styles.ts";
 import "./03-sharing-styles.ts";
@@ -7,92 +7,153 @@ import "./04-styling-children.ts";
 import "./05-dynamic-styles.ts";
 import "./06-theming.ts";
 import "./07-import-styles.ts";
-
+import "./08-theme-provider.ts";
+import "./09-style-registry.ts";
+import { ThemeName, themeNames } from "./generated/tokens.ts";
 /**
- * An example element.
+ * The styles the notes expect of each demo are checked by `src/styles.test.ts` (`pnpm test`).
  *
  * @slot - This element has a slot
- * @csspart button - The button
  */
-@customElement("app-element")
+@customElement("app-lit-styles")
 export class AppElement extends LitElement {
   static styles = css`
     .container {
       padding: 2rem;  
     }
+    .custom-properties {
+      --theming-element-text-color: green;
+      --theming-element-background-color: lightblue;
+      --theming-element-font-family: Roboto;
+
+      --button-text-color: black;
+      --button-background-color: lightblue;
+      --button-font-family: Inter;
+    }
+    .themes {
+      display: grid;
+      grid-template-columns: repeat(auto-fit, minmax(200px, 1fr));
+      gap: 1rem;
+    }
+    .themes theme-provider {
+      padding: 1rem;
+    }
   `;
 
+  /** The theme of the page, the system preferences when undefined */
+  @state()
+  private _theme?: ThemeName;
+
   render() {
     return html`
-      <main class="container">
-        <h3>01 - Add Styles</h3>
-        <add-styles></add-styles>
-        <br />
-        <small>*Verify: the text above is green</small>
-        <hr />
+      <theme-provider .theme=${this._theme}>
+        <label>
+          Theme
+          <select @change=${this._handleThemeChange}>
+            <option value="">System</option>
+            ${themeNames.map((name) => html`<option>${name}</option>`)}
+          </select>
+        </label>
+        <main class="container">
+          <h3>01 - Add Styles</h3>
+          <add-styles></add-styles>
+          <br />
+          <small>*Verify: the text above is green</small>
+          <hr />
 
-        <h3>02 - Inheriting Styles</h3>
-        <inheriting-styles></inheriting-styles>
-        <br />
-        <small>*Verify: border and padding from super class and color from base class</small>
-        <hr />
+          <h3>02 - Inheriting Styles</h3>
+          <inheriting-styles></inheriting-styles>
+          <br />
+          <small>*Verify: border and padding from super class and color from base class</small>
+          <hr />
 
-        <h3>03 - Sharing Styles</h3>
-        <sharing-styles></sharing-styles>
-        <br />
-        <small>*Verify: display and border are :host; color and background-color are "shared" (constructed stylesheet)</small>
-        <hr />
+          <h3>03 - Sharing Styles</h3>
+          <sharing-styles></sharing-styles>
+          <br />
+          <small>*Verify: display and border are :host; color and background-color are "shared" (constructed stylesheet)</small>
+          <hr />
  
-        <h3>04 - Styling Children</h3>
-        <styling-children>
-          <p>Styled paragraph (blue)</p>
-          <span slot="indiv">Styled div (red)</span>
-          <span slot="hi">Styled slot (purple)</span>
-        </styling-children>
-        <br />
-        <small>*Verify: Styled paragraph is blue and Styled div is red and Styled slot is purple</small>
-        <hr />
-        <styling-children>
-          <div>Stylable with ::slotted()</div>
-        </styling-children>
+          <h3>04 - Styling Children</h3>
+          <styling-children>
+            <p>Styled paragraph (blue)</p>
+            <span slot="indiv">Styled div (red)</span>
+            <span slot="hi">Styled slot (purple)</span>
+          </styling-children>
+          <br />
+          <small>*Verify: Styled paragraph is blue and Styled div is red and Styled slot is purple</small>
+          <hr />
+          <styling-children>
+            <div>Stylable with ::slotted()</div>
+          </styling-children>
+          <br />
+          <small>*Verify: Stylable with ::slotted() is green</small>
+          <hr />
+          <!-- Note that only direct slotted children can be styled with ::slotted(). -->
+          <!-- The paragraph used to look green: ::slotted(*) doesn't match it, but color and font-family are
+               inherited properties, so it inherits them from the slotted div.
+               Giving the div another color shows the paragraph only follows its parent. -->
+          <styling-children>
+            <div style="color: orange"><p>Not stylable with ::slotted()</p></div>
+          </styling-children>
+          <br />
+          <small>*Verify: styles are not applied to the paragraph, it inherits orange from its slotted parent</small>
+          <hr />
+
+          <h3>05 - Dynamic Styles</h3>
+          <dynamic-styles></dynamic-styles>
+          <br />
+          <small>*Verify: red border with padding, navy background, lightgreen text</small>
+          <hr />
+        </main>
+
+        <h3>06 - Theming</h3>
+        <!-- The custom properties of the element override the design tokens of the theme -->
+        <div class="custom-properties">
+          <theming-element></theming-element>
+        </div>
         <br />
-        <small>*Verify: Stylable with ::slotted() is green</small>
+        <small>*Verify: green text, lightblue background, Roboto font</small>
         <hr />
-        <!-- Note that only direct slotted children can be styled with ::slotted(). -->
-        <!-- cr. This is styled green, not sure what the docs are referring to. -->
-        <styling-children>
-          <div><p>Not stylable with ::slotted()</p></div>
-        </styling-children>
+
+        <h3>07 - Import Styles</h3>
+        <div class="custom-properties">
+          <import-styles></import-styles>
+        </div>
         <br />
-        <small>*Verify: styles are not applied to the paragraph
-          FAILED: cr. This is styled green, not sure what the docs are referring to.
-        </small>
+        <small>*Verify: lightblue button with black text</small>
         <hr />
 
-        <h3>05 - Dynamic Styles</h3>
-        <dynamic-styles></dynamic-styles>
+        <h3>08 - Design tokens</h3>
+        <div class="themes">
+          ${themeNames.map(
+            (name) => html`
+              <theme-provider theme=${name}>
+                <strong>${name}</strong>
+                <theming-element></theming-element>
+                <import-styles></import-styles>
+              </theme-provider>
+            `
+          )}
+        </div>
         <br />
-        <small>*Verify: red border with padding, navy background, lightgreen text</small>
+        <small>*Verify: the text, surface and accent button colors of each theme</small>
         <hr />
-      </main>
-
-      <h3>06 - Theming</h3>
-      <theming-element></theming-element>
-      <br />
-      <small>*Verify: green text, lightblue background, Roboto font</small>
-      <hr />
 
-      <h3>07 - Import Styles</h3>
-      <import-styles></import-styles>
-      <br />
-      <small>*Verify: blue lightblue button with black text</small>
-      <hr />
+        <h3>09 - Style registry</h3>
+        <style-registry-report></style-registry-report>
+        <hr />
+      </theme-provider>
     `;
   }
+
+  private _handleThemeChange(e: Event) {
+    const { value } = e.target as HTMLSelectElement;
+    this._theme = (value || undefined) as ThemeName | undefined;
+  }
 }
 
 declare global {
   interface HTMLElementTagNameMap {
-    "app-element": AppElement;
+    "app-lit-styles": AppElement;
   }
 }
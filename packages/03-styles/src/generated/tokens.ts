@@ -0,0 +1,178 @@
+// Do not modify this file by hand!
+// Re-generate this file by running `pnpm tokens:build`.
+
+import { CSSResult, css } from "lit";
+
+export const themeNames = [
+  "light",
+  "dark",
+  "high-contrast"
+] as const;
+
+export type ThemeName = (typeof themeNames)[number];
+
+/** The values of the tokens shared by every theme */
+export const tokens = {
+  "font": {
+    "family": {
+      "body": "Inter, system-ui, Avenir, Helvetica, Arial, sans-serif",
+      "accent": "Roboto, sans-serif",
+      "mono": "ui-monospace, Menlo, Consolas, monospace"
+    },
+    "size": {
+      "small": "0.875rem",
+      "body": "1rem",
+      "heading": "1.5rem"
+    },
+    "weight": {
+      "body": "400",
+      "bold": "600"
+    },
+    "line-height": {
+      "body": "1.5"
+    }
+  },
+  "space": {
+    "small": "4px",
+    "medium": "8px",
+    "large": "16px"
+  },
+  "radius": {
+    "control": "4px"
+  }
+} as const;
+
+/** The values of the tokens of each theme */
+export const themes = {
+  "light": {
+    "color-scheme": "light",
+    "color": {
+      "text": "#213547",
+      "background": "#ffffff",
+      "surface": "#f4f6f8",
+      "border": "#c4ccd4",
+      "accent": "#1a56db",
+      "on-accent": "#ffffff",
+      "disabled": "#9aa5b1"
+    }
+  },
+  "dark": {
+    "color-scheme": "dark",
+    "color": {
+      "text": "rgba(255, 255, 255, 0.87)",
+      "background": "#242424",
+      "surface": "#2f2f2f",
+      "border": "#4a4a4a",
+      "accent": "#8ab4f8",
+      "on-accent": "#111111",
+      "disabled": "#5f6368"
+    }
+  },
+  "high-contrast": {
+    "color-scheme": "dark",
+    "color": {
+      "text": "#ffffff",
+      "background": "#000000",
+      "surface": "#000000",
+      "border": "#ffffff",
+      "accent": "#ffff00",
+      "on-accent": "#000000",
+      "disabled": "#808080"
+    }
+  }
+} as const;
+
+/**
+ * The tokens as `var()` fragments, to interpolate in `css`:
+ * `color: ${vars.color.text}` is `color: var(--token-color-text, #213547)`.
+ * The fallback is the value of the light theme, for pages without the tokens.
+ */
+export const vars = {
+  "font": {
+    "family": {
+      "body": css`var(--token-font-family-body, Inter, system-ui, Avenir, Helvetica, Arial, sans-serif)`,
+      "accent": css`var(--token-font-family-accent, Roboto, sans-serif)`,
+      "mono": css`var(--token-font-family-mono, ui-monospace, Menlo, Consolas, monospace)`,
+    },
+    "size": {
+      "small": css`var(--token-font-size-small, 0.875rem)`,
+      "body": css`var(--token-font-size-body, 1rem)`,
+      "heading": css`var(--token-font-size-heading, 1.5rem)`,
+    },
+    "weight": {
+      "body": css`var(--token-font-weight-body, 400)`,
+      "bold": css`var(--token-font-weight-bold, 600)`,
+    },
+    "line-height": {
+      "body": css`var(--token-font-line-height-body, 1.5)`,
+    },
+  },
+  "space": {
+    "small": css`var(--token-space-small, 4px)`,
+    "medium": css`var(--token-space-medium, 8px)`,
+    "large": css`var(--token-space-large, 16px)`,
+  },
+  "radius": {
+    "control": css`var(--token-radius-control, 4px)`,
+  },
+  "color": {
+    "text": css`var(--token-color-text, #213547)`,
+    "background": css`var(--token-color-background, #ffffff)`,
+    "surface": css`var(--token-color-surface, #f4f6f8)`,
+    "border": css`var(--token-color-border, #c4ccd4)`,
+    "accent": css`var(--token-color-accent, #1a56db)`,
+    "on-accent": css`var(--token-color-on-accent, #ffffff)`,
+    "disabled": css`var(--token-color-disabled, #9aa5b1)`,
+  },
+};
+
+/** Declares the custom properties of the shared tokens, for `:host` or `:root` */
+export const tokenDeclarations = css`
+  --token-font-family-body: Inter, system-ui, Avenir, Helvetica, Arial, sans-serif;
+  --token-font-family-accent: Roboto, sans-serif;
+  --token-font-family-mono: ui-monospace, Menlo, Consolas, monospace;
+  --token-font-size-small: 0.875rem;
+  --token-font-size-body: 1rem;
+  --token-font-size-heading: 1.5rem;
+  --token-font-weight-body: 400;
+  --token-font-weight-bold: 600;
+  --token-font-line-height-body: 1.5;
+  --token-space-small: 4px;
+  --token-space-medium: 8px;
+  --token-space-large: 16px;
+  --token-radius-control: 4px;
+`;
+
+/** Declares the custom properties of each theme, and its `color-scheme` */
+export const themeDeclarations: Record<ThemeName, CSSResult> = {
+  "light": css`
+    color-scheme: light;
+    --token-color-text: #213547;
+    --token-color-background: #ffffff;
+    --token-color-surface: #f4f6f8;
+    --token-color-border: #c4ccd4;
+    --token-color-accent: #1a56db;
+    --token-color-on-accent: #ffffff;
+    --token-color-disabled: #9aa5b1;
+  `,
+  "dark": css`
+    color-scheme: dark;
+    --token-color-text: rgba(255, 255, 255, 0.87);
+    --token-color-background: #242424;
+    --token-color-surface: #2f2f2f;
+    --token-color-border: #4a4a4a;
+    --token-color-accent: #8ab4f8;
+    --token-color-on-accent: #111111;
+    --token-color-disabled: #5f6368;
+  `,
+  "high-contrast": css`
+    color-scheme: dark;
+    --token-color-text: #ffffff;
+    --token-color-background: #000000;
+    --token-color-surface: #000000;
+    --token-color-border: #ffffff;
+    --token-color-accent: #ffff00;
+    --token-color-on-accent: #000000;
+    --token-color-disabled: #808080;
+  `,
+};
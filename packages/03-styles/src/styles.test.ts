@@ -0,0 +1,185 @@
+import { ReactiveElement, TemplateResult, html, render } from "lit";
+import { afterEach, describe, expect, it } from "vitest";
+import "./01-add-styles.ts";
+import "./02-inheriting-styles.ts";
+import "./03-sharing-styles.ts";
+import "./04-styling-children.ts";
+import "./05-dynamic-styles.ts";
+import "./06-theming.ts";
+import "./07-import-styles.ts";
+import "./08-theme-provider.ts";
+import { themeNames, themes, tokens } from "./generated/tokens.ts";
+
+/** Renders a demo in the document and waits for every element of it to render */
+const mount = async (template: TemplateResult) => {
+  const container = document.createElement("div");
+  document.body.append(container);
+  render(template, container);
+  const elements = [...container.querySelectorAll("*")].filter((el) => el instanceof ReactiveElement);
+  await Promise.all(elements.map((el) => el.updateComplete));
+  return container;
+};
+
+/**
+ * The values `getComputedStyle()` gives for `styles`: expectations are written as in CSS (`green`, `1px`)
+ * and resolved like the styles of the demo. Use longhands (`border-top-color`), shorthands have no computed value.
+ * They are resolved together: a border width only computes to its value with a border style.
+ */
+const resolve = (styles: Record<string, string>) => {
+  const probe = document.createElement("div");
+  Object.entries(styles).forEach(([name, value]) => probe.style.setProperty(name, value));
+  document.body.append(probe);
+  const computed = getComputedStyle(probe);
+  const resolved = Object.fromEntries(Object.keys(styles).map((name) => [name, computed.getPropertyValue(name)]));
+  probe.remove();
+  return resolved;
+};
+
+const expectStyles = (target: Element | null | undefined, styles: Record<string, string>) => {
+  expect(target).toBeInstanceOf(Element);
+  const computed = getComputedStyle(target!);
+  const actual = Object.fromEntries(Object.keys(styles).map((name) => [name, computed.getPropertyValue(name)]));
+  expect(actual).toEqual(resolve(styles));
+};
+
+const shadow = (host: Element | null, selector: string) => host?.shadowRoot?.querySelector(selector);
+
+afterEach(() => {
+  document.body.innerHTML = "";
+});
+
+describe("01 - Add Styles", () => {
+  it("the text is green", async () => {
+    const demo = await mount(html`<add-styles></add-styles>`);
+    expectStyles(shadow(demo.firstElementChild, "span"), { color: "green" });
+  });
+});
+
+describe("02 - Inheriting Styles", () => {
+  it("has the border and padding of the super class and the color of the base class", async () => {
+    const demo = await mount(html`<inheriting-styles></inheriting-styles>`);
+    expectStyles(shadow(demo.firstElementChild, "div"), {
+      "border-top-width": "1px",
+      "border-top-style": "solid",
+      "border-top-color": "gray",
+      "padding-top": "8px",
+      color: "red",
+    });
+  });
+});
+
+describe("03 - Sharing Styles", () => {
+  it("styles the host with :host", async () => {
+    const demo = await mount(html`<sharing-styles></sharing-styles>`);
+    expectStyles(demo.firstElementChild, {
+      display: "block",
+      "border-top-width": "1px",
+      "border-top-style": "solid",
+      "border-top-color": "black",
+    });
+  });
+
+  it("styles the button with the shared constructed stylesheet", async () => {
+    const demo = await mount(html`<sharing-styles></sharing-styles>`);
+    expectStyles(shadow(demo.firstElementChild, "button"), { color: "white", "background-color": "blue" });
+  });
+});
+
+describe("04 - Styling Children", () => {
+  it("styles the slotted children by selector and by slot", async () => {
+    const demo = await mount(html`
+      <styling-children>
+        <p>Styled paragraph (blue)</p>
+        <span slot="indiv">Styled div (red)</span>
+        <span slot="hi">Styled slot (purple)</span>
+      </styling-children>
+    `);
+    expectStyles(demo.querySelector("p"), { color: "blue" });
+    expectStyles(demo.querySelector('[slot="indiv"]'), { color: "red" });
+    expectStyles(demo.querySelector('[slot="hi"]'), { color: "purple" });
+  });
+
+  it("styles any slotted child with ::slotted(*)", async () => {
+    const demo = await mount(html`<styling-children><div>Stylable with ::slotted()</div></styling-children>`);
+    expectStyles(demo.querySelector("div"), { color: "green", "font-family": "Roboto" });
+  });
+
+  it("doesn't style a nested child, which inherits the color of its slotted parent", async () => {
+    const demo = await mount(html`
+      <styling-children>
+        <div><p>Not stylable with ::slotted(p)</p></div>
+        <div style="color: orange"><p>Not stylable with ::slotted()</p></div>
+      </styling-children>
+    `);
+    const [inherited, overridden] = demo.querySelectorAll("p");
+    expectStyles(inherited, { color: "green" });
+    expectStyles(overridden, { color: "orange" });
+  });
+});
+
+describe("05 - Dynamic Styles", () => {
+  it("applies the classes of classMap and the styles of styleMap", async () => {
+    const demo = await mount(html`<dynamic-styles></dynamic-styles>`);
+    expectStyles(shadow(demo.firstElementChild, "div"), {
+      "border-top-width": "1px",
+      "border-top-style": "solid",
+      "border-top-color": "red",
+      "padding-top": "4px",
+      "background-color": "navy",
+      color: "lightgreen",
+      "font-family": "Roboto",
+    });
+  });
+});
+
+describe("06 - Theming", () => {
+  it("takes the custom properties set above it over the design tokens", async () => {
+    const demo = await mount(html`
+      <div
+        style="--theming-element-text-color: green; --theming-element-background-color: lightblue;
+               --theming-element-font-family: Roboto"
+      >
+        <theming-element></theming-element>
+      </div>
+    `);
+    expectStyles(demo.querySelector("theming-element"), {
+      color: "green",
+      "background-color": "lightblue",
+      "font-family": "Roboto",
+    });
+  });
+});
+
+describe("07 - Import Styles", () => {
+  it("takes the custom properties set above it over the design tokens", async () => {
+    const demo = await mount(html`
+      <div style="--button-text-color: black; --button-background-color: lightblue; --button-font-family: Inter">
+        <import-styles></import-styles>
+      </div>
+    `);
+    expectStyles(shadow(demo.querySelector("import-styles"), "button"), {
+      color: "black",
+      "background-color": "lightblue",
+      "font-family": "Inter",
+    });
+  });
+});
+
+describe("08 - Design tokens", () => {
+  it.each(themeNames)("gives the %s text and surface colors, and the body font", async (theme) => {
+    const demo = await mount(html`<theme-provider theme=${theme}><theming-element></theming-element></theme-provider>`);
+    expectStyles(demo.querySelector("theming-element"), {
+      color: themes[theme].color.text,
+      "background-color": themes[theme].color.surface,
+      "font-family": tokens.font.family.body,
+    });
+  });
+
+  it.each(themeNames)("gives the %s accent colors to the buttons", async (theme) => {
+    const demo = await mount(html`<theme-provider theme=${theme}><import-styles></import-styles></theme-provider>`);
+    expectStyles(shadow(demo.querySelector("import-styles"), "button"), {
+      color: themes[theme].color["on-accent"],
+      "background-color": themes[theme].color.accent,
+    });
+  });
+});
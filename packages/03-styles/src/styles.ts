@@ -1,11 +0,0 @@
-import { css } from "lit";
-
-export const buttonStyles = css`
-  .blue-button {
-    color: white;
-    background-color: blue;
-  }
-  .blue-button:disabled {
-    background-color: grey;
-  }
-`;
@@ -1,8 +1,9 @@
 import { LitElement, html } from "lit";
 import { customElement } from "lit/decorators.js";
+import { Traced } from "./lifecycle-tracer";
 
 @customElement("constructor-element")
-export class ConstructorElement extends LitElement {
+export class ConstructorElement extends Traced(LitElement) {
   msg: string;
 
   /**
@@ -18,7 +19,6 @@ export class ConstructorElement extends LitElement {
    */
   constructor() {
     super();
-    console.log("ConstructorElement::constructor");
     this.msg = "message initialized in the constructor";
   }
 
@@ -1,10 +1,11 @@
 import { LitElement, html } from "lit";
 import { customElement } from "lit/decorators.js";
+import { Traced } from "./lifecycle-tracer";
 
 @customElement("connected-callback-element")
-export class ConnectedCallbackElement extends LitElement {
+export class ConnectedCallbackElement extends Traced(LitElement) {
   _handleKeydown = (e: KeyboardEvent) => {
-    console.log("Key pressed:", e.key);
+    this.tracer.record("keydown", undefined, e.key);
   };
 
   /**
@@ -12,10 +13,10 @@ export class ConnectedCallbackElement extends LitElement {
    * - Setup tasks that should only occur when the element is connected to the document.
    * - Most commonly adding event listeners to nodes external to the element, like a keydown event handler added to the window.
    * - Typically, anything done in connectedCallback() should be undone when the element is disconnected for example, removing event listeners on window to prevent memory leaks.
+   * - For real shortcuts, see `ShortcutController` in 09-reactive-controllers: every element shares one window listener, removed with the last binding.
    */
   connectedCallback() {
     super.connectedCallback();
-    console.log("ConnectedCallbackElement::connectedCallback");
     // WARN: The listener is added to the window object, so it will be triggered for all key presses in the browser.
     window.addEventListener("keydown", this._handleKeydown);
   }
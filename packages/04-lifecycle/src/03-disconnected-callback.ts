@@ -1,10 +1,11 @@
 import { LitElement, html } from "lit";
 import { customElement } from "lit/decorators.js";
+import { Traced } from "./lifecycle-tracer";
 
 @customElement("disconnected-callback-element")
-export class DisconnectedCallbackElement extends LitElement {
+export class DisconnectedCallbackElement extends Traced(LitElement) {
   _handleKeydown = (e: KeyboardEvent) => {
-    console.log("Key pressed:", e.key);
+    this.tracer.record("keydown", undefined, e.key);
   };
 
   /**
@@ -17,7 +18,6 @@ export class DisconnectedCallbackElement extends LitElement {
    */
   connectedCallback() {
     super.connectedCallback();
-    console.log("DisconnectedCallbackElement::connectedCallback");
     // WARN: The listener is added to the window object, so it will be triggered for all key presses in the browser.
     window.addEventListener("keydown", this._handleKeydown);
   }
@@ -39,7 +39,6 @@ export class DisconnectedCallbackElement extends LitElement {
    */
   disconnectedCallback() {
     super.disconnectedCallback();
-    console.log("DisconnectedCallbackElement::disconnectedCallback");
     window.removeEventListener("keydown", this._handleKeydown);
   }
 
@@ -1,8 +1,9 @@
 import { LitElement, html } from "lit";
 import { customElement, property } from "lit/decorators.js";
+import { Traced } from "./lifecycle-tracer";
 
 @customElement("attribute-changed-callback-element")
-export class AttributeChangedCallbackElement extends LitElement {
+export class AttributeChangedCallbackElement extends Traced(LitElement) {
   @property({ type: String })
   msg: string = 'default'
 
@@ -20,13 +21,11 @@ export class AttributeChangedCallbackElement extends LitElement {
    * You rarely need to implement this callback.
    */
   attributeChangedCallback(name: string, oldValue: string, newValue: string) {
-    console.log("AttributeChangedCallbackElement::attributeChangedCallback");
-    console.log("name:", name);
-    console.log("oldValue:", oldValue);
-    console.log("newValue:", newValue);
+    // Not calling super, so the Traced mixin doesn't see this callback and it has to be recorded here.
+    this.tracer.record("attributeChanged", undefined, { name, oldValue, newValue });
     // WARN: if you do not explicity set the property, it will not be updated.
     // However, if you remove the attributeChangedCallback() method, the property will be updated.
-    // Comment the line below to see the difference, the console logs will fire but the template will not be updated.
+    // Comment the line below to see the difference, the callback is traced but the template will not be updated.
     this.msg = newValue;
     // cr. tried using requestUpdate() without setting the variable `msg` but it did not work.
   }
@@ -1,8 +1,9 @@
 import { LitElement, html } from "lit";
 import { customElement } from "lit/decorators.js";
+import { Traced } from "./lifecycle-tracer";
 
 @customElement("adopted-callback-element")
-export class AdoptedCallbackElement extends LitElement {
+export class AdoptedCallbackElement extends Traced(LitElement) {
   
   /**
    * Invoked when a component is moved to a new document.
@@ -18,7 +19,7 @@ export class AdoptedCallbackElement extends LitElement {
    * Use cases include working with iframes or moving elements between shadow roots.
    */
   adoptedCallback() {   
-    console.log("AdoptedCallbackElement::adoptedCallback");
+    super.adoptedCallback();
   }
 
   render() {
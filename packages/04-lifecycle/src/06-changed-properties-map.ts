@@ -1,5 +1,6 @@
 import { LitElement, PropertyValueMap, html } from "lit";
 import { customElement, property } from "lit/decorators.js";
+import { Traced } from "./lifecycle-tracer";
 
 /**
  * Many reactive update methods receive a Map of changed properties. 
@@ -7,7 +8,7 @@ import { customElement, property } from "lit/decorators.js";
  * You can always find the current property values using `this.property` or `this[property]`.
  */
 @customElement("changed-properties-map-element")
-export class ChangedPropertiesMapElement extends LitElement {
+export class ChangedPropertiesMapElement extends Traced(LitElement) {
   @property({ type: String })
   msg = "Hello World";
 
@@ -33,11 +34,9 @@ export class ChangedPropertiesMapElement extends LitElement {
      * Changing a property after render() (for example, in the updated() method) triggers a new update cycle,
      *  and the changed property is added to a new changedProperties map to be used for the next cycle.
      */
-    changedProperties: PropertyValueMap<this>
+    _changedProperties: PropertyValueMap<this>
   ): boolean {
-    console.log(
-      `ChangedPropertiesMapElement::shouldUpdate`, changedProperties
-    );
+    // The Traced mixin records the map, see the timeline next to this demo.
     return true;
   }
 
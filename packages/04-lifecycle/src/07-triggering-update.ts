@@ -1,5 +1,6 @@
 import { LitElement, html } from "lit";
 import { customElement } from "lit/decorators.js";
+import { Traced } from "./lifecycle-tracer";
 
 /**
  * An update is triggered when a reactive property changes or the `requestUpdate()` method is called.
@@ -21,14 +22,14 @@ import { customElement } from "lit/decorators.js";
  * ```
  */
 @customElement("triggering-update-element")
-export class TriggeringUpdateElement extends LitElement {
-  private _timerInterval: number | undefined;
+export class TriggeringUpdateElement extends Traced(LitElement) {
+  private _timerInterval: ReturnType<typeof setInterval> | undefined;
 
   override connectedCallback() {
     super.connectedCallback();
     // Call `requestUpdate()` to schedule an explicit update.
     this._timerInterval = setInterval(() => {
-      console.log("[TriggeringUpdateElement]::requestUpdate()");
+      this.tracer.record("requestUpdate");
       this.requestUpdate();
     }, 1000);
   }
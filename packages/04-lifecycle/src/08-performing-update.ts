@@ -1,6 +1,7 @@
 import { LitElement, PropertyValues } from "lit";
 import { customElement, property, state } from "lit/decorators.js";
 import { html } from "lit/html.js";
+import { Traced } from "./lifecycle-tracer";
 
 /**
  * Performing an update
@@ -12,7 +13,7 @@ import { html } from "lit/html.js";
  * 
  */
 @customElement("performing-update-element")
-export class PerformingUpdateElement extends LitElement {
+export class PerformingUpdateElement extends Traced(LitElement) {
   @property({ type: String })
   prop1 = "";
 
@@ -37,7 +38,6 @@ export class PerformingUpdateElement extends LitElement {
    * Called on server? No.
    */
   override shouldUpdate(changedProperties: Map<string, any>) {
-    console.log("[PerformingUpdateElement] shouldUpdate()", changedProperties);
     // Only update element if prop1 changed.
     return changedProperties.has("prop1");
   }
@@ -59,7 +59,6 @@ export class PerformingUpdateElement extends LitElement {
    * and are used in the rest of the update process.
    */
   override willUpdate(changedProperties: PropertyValues<this>) {
-    console.log("[PerformingUpdateElement] willUpdate()", changedProperties);
     // only need to check changed properties for an expensive computation.
     if (changedProperties.has('prop1')) {
       this.sha = `${this.prop1} ${this.prop2}`;
@@ -82,7 +81,6 @@ export class PerformingUpdateElement extends LitElement {
    * Generally, you should not need to implement this method.
    */
   override update(changedProperties: PropertyValues<this>) {
-    console.log("[PerformingUpdateElement] update()", changedProperties);
     super.update(changedProperties);
   }
 
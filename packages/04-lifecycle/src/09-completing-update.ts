@@ -1,5 +1,15 @@
 import { html, LitElement, PropertyValues } from "lit";
 import { customElement, state } from "lit/decorators.js";
+import { Traced } from "./lifecycle-tracer";
+
+/** Dispatched once `loggedIn` was rendered. Doesn't bubble: only heard on the element */
+export class LoginEvent extends Event {
+  declare readonly type: "login";
+
+  constructor() {
+    super("login");
+  }
+}
 
 /**
  * After `update()` is called to render changes to the component's DOM,
@@ -52,7 +62,7 @@ import { customElement, state } from "lit/decorators.js";
  * ```
  */
 @customElement("completing-update-element")
-export class CompletingUpdateElement extends LitElement {
+export class CompletingUpdateElement extends Traced(LitElement) {
   @state()
   loggedIn = false;
   /**
@@ -72,7 +82,6 @@ export class CompletingUpdateElement extends LitElement {
    * e.g. focusing a particular rendered element or adding a `ResizeObserver` or `IntersectionObserver` to an element.
    */
   override firstUpdated(_changedProperties: PropertyValues): void {
-    console.log("[CompletingUpdateElement] firstUpdated", _changedProperties);
     const input = this.shadowRoot?.getElementById("complete-update");
     if (input) {
       input.focus();
@@ -96,7 +105,6 @@ export class CompletingUpdateElement extends LitElement {
    * e.g. code that performs animation may need to measure the element DOM.
    */
   override updated(_changedProperties: PropertyValues): void {
-    console.log("[CompletingUpdateElement] updated", _changedProperties);
     if (_changedProperties.has("collapsed")) {
       // this._measureDOM();
     }
@@ -106,7 +114,7 @@ export class CompletingUpdateElement extends LitElement {
     this.loggedIn = true;
     // Wait for `loggedIn` state to be rendered to the DOM
     await this.updateComplete;
-    this.dispatchEvent(new Event("login"));
+    this.dispatchEvent(new LoginEvent());
   }
 
   override render() {
@@ -118,3 +126,9 @@ export class CompletingUpdateElement extends LitElement {
     `;
   }
 }
+
+declare global {
+  interface HTMLElementEventMap {
+    login: LoginEvent;
+  }
+}
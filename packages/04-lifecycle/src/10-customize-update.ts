@@ -1,5 +1,6 @@
 import { html, LitElement } from "lit";
 import { customElement } from "lit/decorators.js";
+import { Traced } from "./lifecycle-tracer";
 
 @customElement("child-element")
 export class ChildElement extends LitElement {
@@ -22,7 +23,7 @@ export class ChildElement extends LitElement {
  * You can use hasUpdated in any of the lifecycle methods to perform work only if the component has not yet updated.
  */
 @customElement("customize-update-element")
-export class CustomizeUpdateElement extends LitElement {
+export class CustomizeUpdateElement extends Traced(LitElement) {
   private _myChild!: ChildElement;
 
   /**
@@ -36,7 +37,7 @@ export class CustomizeUpdateElement extends LitElement {
    * In either case, the next update doesn't start until the promise returned by `scheduleUpdate()` resolves.
    */
   protected override async scheduleUpdate(): Promise<void> {
-    console.log("[CustomizeUpdateElement] scheduleUpdate");
+    this.tracer.record("scheduleUpdate");
     // the following code schedules the update to occur after the next frame paints,
     // which can reduce jank if the update is expensive:
     await new Promise((resolve) => setTimeout(resolve));
@@ -54,14 +55,13 @@ export class CustomizeUpdateElement extends LitElement {
    * to ensure compatibility with users who are using TypeScript's ES5 output (see TypeScript#338).
    */
   async getUpdateComplete() {
-    console.log("[CustomizeUpdateElement] getUpdateComplete");
+    this.tracer.record("getUpdateComplete");
     const result = await super.getUpdateComplete();
     await this._myChild.updateComplete;
     return result;
   }
 
   protected firstUpdated(): void {
-    console.log("[CustomizeUpdateElement] firstUpdated");
     this._myChild = this.shadowRoot!.querySelector("child-element")!;
   }
 
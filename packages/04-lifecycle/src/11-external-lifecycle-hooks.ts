@@ -1,5 +1,6 @@
 import { LitElement, ReactiveElement, html } from "lit";
-import { customElement } from "lit/decorators.js";
+import { customElement, state } from "lit/decorators.js";
+import { LifecycleTracer } from "./lifecycle-tracer";
 
 /**
  * External Lifecycle Hooks: controllers and decorators
@@ -44,9 +45,51 @@ import { customElement } from "lit/decorators.js";
  * `removeController()`
  * `removeController()` removes a reactive controller so it no longer receives lifecycle callbacks from this component.
  */
+/**
+ * `myDecorator` from the notes: the decorated field receives a `LifecycleTracer` created in an initializer.
+ * The controller is added to every instance without the class creating it.
+ */
+const tracer = (proto: ReactiveElement, key: string) => {
+  const ctor = proto.constructor as typeof ReactiveElement;
+
+  ctor.addInitializer((instance: ReactiveElement) => {
+    // This is run during construction of the element
+    (instance as unknown as Record<string, unknown>)[key] = new LifecycleTracer(instance);
+  });
+};
+
+/**
+ * The tracer is added by the `@tracer` initializer, then removed and added again with the buttons:
+ * the timeline stops recording `connected`/`updateComplete` while it is removed.
+ * More controllers in the 09-reactive-controllers chapter.
+ */
 @customElement("external-lifecycle-hooks")
 export class ExternalLifecycleHooks extends LitElement {
+  @tracer
+  private _tracer!: LifecycleTracer;
+
+  @state()
+  private _attached = true;
+
+  @state()
+  private _count = 0;
+
   render() {
-    return html`<div>ExternalLifecycleHooks</div>`;
+    return html`
+      <div>ExternalLifecycleHooks: ${this._count}</div>
+      <button @click=${() => this._count++}>Update</button>
+      <button @click=${this._toggleTracer}>${this._attached ? "removeController" : "addController"}</button>
+    `;
+  }
+
+  private _toggleTracer() {
+    if (this._attached) {
+      this._tracer.record("removeController");
+      this.removeController(this._tracer);
+    } else {
+      this.addController(this._tracer);
+      this._tracer.record("addController");
+    }
+    this._attached = !this._attached;
   }
 }
@@ -11,8 +11,9 @@ import "./08-performing-update";
 import "./09-completing-update";
 import "./10-customize-update";
 import "./11-external-lifecycle-hooks";
+import "./lifecycle-timeline";
 
-@customElement("app-element")
+@customElement("app-lit-lifecycle")
 export class AppElement extends LitElement {
   private showDisconnected = true;
 
@@ -34,57 +35,100 @@ export class AppElement extends LitElement {
         <h1>04 - Lifecycle</h1>
 
         <h3>01 - Constructor</h3>
-        <constructor-element></constructor-element>
+        <div class="demo">
+          <constructor-element></constructor-element>
+          <lifecycle-timeline for="constructor-element"></lifecycle-timeline>
+        </div>
 
         <h3>02 - ConnectedCallback</h3>
-        <connected-callback-element></connected-callback-element>
+        <div class="demo">
+          <connected-callback-element></connected-callback-element>
+          <lifecycle-timeline for="connected-callback-element"></lifecycle-timeline>
+        </div>
 
         <h3>03 - DisconnectedCallback</h3>
-        <button @click=${this._toggleDisconnected}>
-          ${this.showDisconnected ? "Remove" : "Add"} Element
-        </button>
-        ${this.showDisconnected
-          ? html`<disconnected-callback-element></disconnected-callback-element>`
-          : null}
+        <div class="demo">
+          <div>
+            <button @click=${this._toggleDisconnected}>
+              ${this.showDisconnected ? "Remove" : "Add"} Element
+            </button>
+            ${this.showDisconnected
+              ? html`<disconnected-callback-element></disconnected-callback-element>`
+              : null}
+          </div>
+          <lifecycle-timeline for="disconnected-callback-element"></lifecycle-timeline>
+        </div>
 
         <h3>04 - AttributeChangedCallback</h3>
-        <input type="text" @input=${this._handleInput} />
-        <attribute-changed-callback-element
-          msg=${this.msg}
-        ></attribute-changed-callback-element>
+        <div class="demo">
+          <div>
+            <input type="text" @input=${this._handleInput} />
+            <attribute-changed-callback-element
+              msg=${this.msg}
+            ></attribute-changed-callback-element>
+          </div>
+          <lifecycle-timeline for="attribute-changed-callback-element"></lifecycle-timeline>
+        </div>
 
         <h3>05 - AdoptedCallback</h3>
-        <adopted-callback-element></adopted-callback-element>
-        <button @click=${this._testAdopted}>Move to new document</button>
+        <div class="demo">
+          <div>
+            <adopted-callback-element></adopted-callback-element>
+            <button @click=${this._testAdopted}>Move to new document</button>
+          </div>
+          <lifecycle-timeline for="adopted-callback-element"></lifecycle-timeline>
+        </div>
 
         <h3>06 - ChangedPropertiesMap</h3>
-        <input type="text" @input=${this._handleChangedPropertiesMapInput} />
-        <changed-properties-map-element
-          msg=${this.changedPropertiesMapMsg}
-        ></changed-properties-map-element>
+        <div class="demo">
+          <div>
+            <input type="text" @input=${this._handleChangedPropertiesMapInput} />
+            <changed-properties-map-element
+              msg=${this.changedPropertiesMapMsg}
+            ></changed-properties-map-element>
+          </div>
+          <lifecycle-timeline for="changed-properties-map-element"></lifecycle-timeline>
+        </div>
 
         <h3>07 - TriggeringUpdate</h3>
-        <triggering-update-element></triggering-update-element>
+        <div class="demo">
+          <triggering-update-element></triggering-update-element>
+          <lifecycle-timeline for="triggering-update-element"></lifecycle-timeline>
+        </div>
 
         <h3>08 - PerformingUpdate</h3>
-        <performing-update-element prop1=${this.prop1} prop2=${this.prop2}></performing-update-element>
-        <label>
-          Prop1:
-          <input type="text" @input=${this._handleProp1Input} />
-        </label>
-        <label>
-          Prop2:
-          <input type="text" @input=${this._handleProp2Input} />
-        </label>
+        <div class="demo">
+          <div>
+            <performing-update-element prop1=${this.prop1} prop2=${this.prop2}></performing-update-element>
+            <label>
+              Prop1:
+              <input type="text" @input=${this._handleProp1Input} />
+            </label>
+            <label>
+              Prop2:
+              <input type="text" @input=${this._handleProp2Input} />
+            </label>
+          </div>
+          <lifecycle-timeline for="performing-update-element"></lifecycle-timeline>
+        </div>
 
         <h3>09 - CompletingUpdate</h3>
-        <completing-update-element></completing-update-element>
+        <div class="demo">
+          <completing-update-element></completing-update-element>
+          <lifecycle-timeline for="completing-update-element"></lifecycle-timeline>
+        </div>
 
         <h3>10 - CustomizeUpdate</h3>
-        <customize-update-element></customize-update-element>
+        <div class="demo">
+          <customize-update-element></customize-update-element>
+          <lifecycle-timeline for="customize-update-element"></lifecycle-timeline>
+        </div>
 
         <h3>11 - External Lifecycle Hooks</h3>
-        <external-lifecycle-hooks></external-lifecycle-hooks>
+        <div class="demo">
+          <external-lifecycle-hooks></external-lifecycle-hooks>
+          <lifecycle-timeline for="external-lifecycle-hooks"></lifecycle-timeline>
+        </div>
       </main>
     `;
   }
@@ -131,11 +175,18 @@ export class AppElement extends LitElement {
       padding: 2rem;
       text-align: center;
     }
+
+    .demo {
+      display: grid;
+      grid-template-columns: 1fr 1fr;
+      gap: 1rem;
+      align-items: start;
+    }
   `;
 }
 
 declare global {
   interface HTMLElementTagNameMap {
-    "app-element": AppElement;
+    "app-lit-lifecycle": AppElement;
   }
 }
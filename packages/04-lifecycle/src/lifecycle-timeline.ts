@@ -0,0 +1,173 @@
+import { LitElement, PropertyValues, css, html } from "lit";
+import { customElement, property, state } from "lit/decorators.js";
+import { LIFECYCLE_PHASES, PropertyChange, TraceEvent, lifecycleTrace } from "./lifecycle-tracer";
+
+const format = (value: unknown) => {
+  if (typeof value === "string") {
+    return `"${value}"`;
+  }
+  try {
+    return JSON.stringify(value) ?? String(value);
+  } catch {
+    // Circular values, e.g. DOM nodes referencing each other
+    return String(value);
+  }
+};
+
+/**
+ * Renders the lifecycle events recorded for one element, most recent last.
+ * ```html
+ * <performing-update-element></performing-update-element>
+ * <lifecycle-timeline for="performing-update-element"></lifecycle-timeline>
+ * ```
+ *
+ * Times are relative to the first event shown, so the order and the gaps between callbacks
+ * (e.g. a deferred `scheduleUpdate()`) can be read at a glance.
+ */
+@customElement("lifecycle-timeline")
+export class LifecycleTimeline extends LitElement {
+  /** Tag name of the traced element */
+  @property()
+  for = "";
+
+  /** Number of events shown */
+  @property({ type: Number })
+  limit = 20;
+
+  @state()
+  private _events: TraceEvent[] = [];
+
+  private _unsubscribe?: () => void;
+
+  private _handleChange = () => {
+    this._events = lifecycleTrace.events.filter((event) => event.source === this.for);
+  };
+
+  /** Only the events of the traced element re-render the timeline */
+  private _subscribe() {
+    this._unsubscribe?.();
+    this._unsubscribe = lifecycleTrace.subscribe(this.for, this._handleChange);
+    this._handleChange();
+  }
+
+  connectedCallback() {
+    super.connectedCallback();
+    this._subscribe();
+  }
+
+  disconnectedCallback() {
+    this._unsubscribe?.();
+    this._unsubscribe = undefined;
+    super.disconnectedCallback();
+  }
+
+  willUpdate(changedProperties: PropertyValues<this>) {
+    // Subscribed in `connectedCallback()` for the first update
+    if (this.hasUpdated && changedProperties.has("for")) {
+      this._subscribe();
+    }
+  }
+
+  render() {
+    const events = this._events.slice(-this.limit);
+    const start = events[0]?.time ?? 0;
+    return html`
+      <header>
+        <code>${this.for}</code>
+        <button @click=${() => lifecycleTrace.clear(this.for)}>Clear</button>
+      </header>
+      <ol>
+        ${events.map(
+          (event) => html`
+            <li>
+              <span class="time">+${(event.time - start).toFixed(1)}ms</span>
+              <span class="phase ${this._kind(event.phase)}">${event.phase}</span>
+              ${event.changes?.map((change) => this._renderChange(change))}
+              ${event.detail === undefined
+                ? null
+                : html`<span class="detail">${format(event.detail)}</span>`}
+            </li>
+          `
+        )}
+      </ol>
+    `;
+  }
+
+  private _renderChange({ key, oldValue, newValue }: PropertyChange) {
+    return html`
+      <span class="change">${String(key)}: ${format(oldValue)} → ${format(newValue)}</span>
+    `;
+  }
+
+  private _kind(phase: string) {
+    switch (phase) {
+      case "constructor":
+      case "connected":
+      case "disconnected":
+      case "attributeChanged":
+      case "adopted":
+        return "element";
+      default:
+        return (LIFECYCLE_PHASES as readonly string[]).includes(phase) ? "update" : "custom";
+    }
+  }
+
+  static styles = css`
+    :host {
+      display: block;
+      font-size: small;
+      text-align: left;
+      border: 1px dotted gray;
+      padding: 0.5rem;
+    }
+    header {
+      display: flex;
+      justify-content: space-between;
+      align-items: center;
+    }
+    ol {
+      list-style: none;
+      margin: 0;
+      padding: 0;
+      max-height: 16rem;
+      overflow-y: auto;
+    }
+    li {
+      display: flex;
+      flex-wrap: wrap;
+      gap: 0.5rem;
+      align-items: baseline;
+    }
+    .time {
+      min-width: 5rem;
+      font-family: monospace;
+      color: gray;
+    }
+    .phase {
+      padding: 0 0.25rem;
+      border-radius: 4px;
+    }
+    .element {
+      background-color: #c8e6c9;
+      color: #1b5e20;
+    }
+    .update {
+      background-color: #bbdefb;
+      color: #0d47a1;
+    }
+    .custom {
+      background-color: #ffe0b2;
+      color: #e65100;
+    }
+    .change,
+    .detail {
+      font-family: monospace;
+    }
+  `;
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    "lifecycle-timeline": LifecycleTimeline;
+  }
+}
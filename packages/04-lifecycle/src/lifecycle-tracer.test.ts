@@ -0,0 +1,92 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import "./01-constructor.ts";
+import "./10-customize-update.ts";
+import type { CustomizeUpdateElement } from "./10-customize-update.ts";
+import "./lifecycle-timeline.ts";
+import { lifecycleTrace } from "./lifecycle-tracer.ts";
+
+const phasesOf = (source: string) =>
+  lifecycleTrace.events.filter((event) => event.source === source).map((event) => event.phase);
+
+/** Waits for `source` to record `phase`, without awaiting its `updateComplete` */
+const recorded = (source: string, phase: string) =>
+  new Promise<void>((resolve) => {
+    const unsubscribe = lifecycleTrace.subscribe(source, () => {
+      if (phasesOf(source).includes(phase)) {
+        unsubscribe();
+        resolve();
+      }
+    });
+  });
+
+const FIRST_UPDATE = ["shouldUpdate", "willUpdate", "update", "render", "firstUpdated", "updated", "updateComplete"];
+
+beforeEach(() => {
+  lifecycleTrace.clear();
+});
+
+afterEach(() => {
+  document.body.innerHTML = "";
+});
+
+describe("Traced", () => {
+  it("records the lifecycle of an element in the order of its first render", async () => {
+    const complete = recorded("constructor-element", "updateComplete");
+
+    document.body.append(document.createElement("constructor-element"));
+    await complete;
+
+    expect(phasesOf("constructor-element")).toEqual(["constructor", "connected", ...FIRST_UPDATE]);
+  });
+
+  it("records getUpdateComplete only when the element's updateComplete is awaited", async () => {
+    const element = document.createElement("customize-update-element") as CustomizeUpdateElement;
+    const complete = recorded("customize-update-element", "updateComplete");
+
+    document.body.append(element);
+    await complete;
+    expect(phasesOf("customize-update-element")).toEqual([
+      "constructor",
+      "connected",
+      "scheduleUpdate",
+      ...FIRST_UPDATE,
+    ]);
+
+    await element.updateComplete;
+
+    expect(phasesOf("customize-update-element").slice(-2)).toEqual(["updateComplete", "getUpdateComplete"]);
+  });
+});
+
+describe("lifecycle-timeline", () => {
+  it("only re-renders for the events of its element", async () => {
+    const timeline = document.createElement("lifecycle-timeline");
+    timeline.for = "constructor-element";
+    document.body.append(timeline);
+    await timeline.updateComplete;
+
+    lifecycleTrace.record({ source: "customize-update-element", phase: "connected", time: performance.now() });
+    expect(timeline.isUpdatePending).toBe(false);
+
+    lifecycleTrace.record({ source: "constructor-element", phase: "connected", time: performance.now() });
+    expect(timeline.isUpdatePending).toBe(true);
+    await timeline.updateComplete;
+
+    expect(timeline.shadowRoot!.querySelectorAll("li")).toHaveLength(1);
+  });
+
+  it("follows the element of its `for` property", async () => {
+    lifecycleTrace.record({ source: "customize-update-element", phase: "connected", time: performance.now() });
+    const timeline = document.createElement("lifecycle-timeline");
+    timeline.for = "constructor-element";
+    document.body.append(timeline);
+    await timeline.updateComplete;
+
+    timeline.for = "customize-update-element";
+    await timeline.updateComplete;
+    lifecycleTrace.record({ source: "customize-update-element", phase: "disconnected", time: performance.now() });
+    await timeline.updateComplete;
+
+    expect(timeline.shadowRoot!.querySelectorAll("li")).toHaveLength(2);
+  });
+});
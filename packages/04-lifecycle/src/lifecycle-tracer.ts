@@ -0,0 +1,206 @@
+import { LitElement, PropertyValues, ReactiveController, ReactiveControllerHost, ReactiveElement } from "lit";
+
+/**
+ * The lifecycle callbacks recorded by the tracer, in the order Lit calls them for a first render.
+ * Elements can record other phases too (e.g. `requestUpdate`, `scheduleUpdate`), the timeline shows them as-is.
+ */
+export const LIFECYCLE_PHASES = [
+  "constructor",
+  "connected",
+  "attributeChanged",
+  "shouldUpdate",
+  "willUpdate",
+  "update",
+  "render",
+  "firstUpdated",
+  "updated",
+  "updateComplete",
+  "disconnected",
+  "adopted",
+] as const;
+
+export type LifecyclePhase = (typeof LIFECYCLE_PHASES)[number];
+
+export interface PropertyChange {
+  key: PropertyKey;
+  oldValue: unknown;
+  newValue: unknown;
+}
+
+export interface TraceEvent {
+  /** Tag name of the element that recorded the event */
+  source: string;
+  phase: LifecyclePhase | string;
+  /** `performance.now()` when the event was recorded */
+  time: number;
+  /**
+   * Snapshot of the `changedProperties` map the callback received.
+   * Lit creates a new map for every update, the snapshot also keeps the value each property had at that time.
+   */
+  changes?: PropertyChange[];
+  detail?: unknown;
+}
+
+/**
+ * Every recorded event, shared by all tracers on the page.
+ * Notifies the subscribers of a source when it records an event or its events are cleared:
+ * the timeline of an element doesn't re-render for the events of the others.
+ */
+export class LifecycleTrace {
+  /** Oldest events are dropped past this size, some demos update every second. */
+  static maxEvents = 500;
+
+  events: TraceEvent[] = [];
+
+  private _subscribers = new Map<string, Set<() => void>>();
+
+  record(event: TraceEvent) {
+    this.events = [...this.events, event].slice(-LifecycleTrace.maxEvents);
+    this._notify(event.source);
+  }
+
+  /** Clears the events of `source`, or every event */
+  clear(source?: string) {
+    this.events = source ? this.events.filter((event) => event.source !== source) : [];
+    (source ? [source] : [...this._subscribers.keys()]).forEach((cleared) => this._notify(cleared));
+  }
+
+  /** Called when `source` records an event or its events are cleared. Returns a function unsubscribing */
+  subscribe(source: string, subscriber: () => void) {
+    const subscribers = this._subscribers.get(source) ?? new Set();
+    this._subscribers.set(source, subscribers.add(subscriber));
+    return () => {
+      subscribers.delete(subscriber);
+      if (!subscribers.size) {
+        this._subscribers.delete(source);
+      }
+    };
+  }
+
+  private _notify(source: string) {
+    this._subscribers.get(source)?.forEach((subscriber) => subscriber());
+  }
+}
+
+export const lifecycleTrace = new LifecycleTrace();
+
+/**
+ * A reactive controller that records its host's lifecycle.
+ *
+ * On its own, it records what a controller can observe: `connected`, `disconnected` and `updateComplete`.
+ * `updateComplete` is recorded when Lit's own `getUpdateComplete()` resolves: awaiting `host.updateComplete` would call
+ * the host's override once more for every update, and trace it when the host records it.
+ * Callbacks a controller can't see (`shouldUpdate`, `render`, `attributeChangedCallback`, ...)
+ * can be recorded by the host with `record()`, or all at once by extending `Traced(LitElement)`.
+ * ```ts
+ * class MyElement extends LitElement {
+ *   private _tracer = new LifecycleTracer(this);
+ *
+ *   override shouldUpdate(changedProperties: PropertyValues) {
+ *     this._tracer.record("shouldUpdate", changedProperties);
+ *     return true;
+ *   }
+ * }
+ * ```
+ */
+export class LifecycleTracer implements ReactiveController {
+  host: ReactiveControllerHost & HTMLElement;
+
+  constructor(host: ReactiveControllerHost & HTMLElement, private _trace = lifecycleTrace) {
+    this.host = host;
+    host.addController(this);
+  }
+
+  record(phase: LifecyclePhase | string, changedProperties?: PropertyValues, detail?: unknown) {
+    this._trace.record({
+      source: this.host.localName,
+      phase,
+      time: performance.now(),
+      changes: changedProperties && this._snapshot(changedProperties),
+      detail,
+    });
+  }
+
+  hostConnected() {
+    this.record("connected");
+  }
+
+  hostDisconnected() {
+    this.record("disconnected");
+  }
+
+  hostUpdated() {
+    const { getUpdateComplete } = ReactiveElement.prototype as unknown as { getUpdateComplete(): Promise<boolean> };
+    getUpdateComplete.call(this.host).then(() => this.record("updateComplete"));
+  }
+
+  private _snapshot(changedProperties: PropertyValues): PropertyChange[] {
+    const host = this.host as unknown as Record<PropertyKey, unknown>;
+    return [...changedProperties].map(([key, oldValue]) => ({
+      key,
+      oldValue,
+      newValue: host[key],
+    }));
+  }
+}
+
+type Constructor<T = {}> = new (...args: any[]) => T;
+
+export declare class TracedInterface {
+  tracer: LifecycleTracer;
+  adoptedCallback(): void;
+}
+
+/** Update cycle methods wrapped by `Traced`, with whether they receive `changedProperties`. */
+const tracedMethods = {
+  shouldUpdate: true,
+  willUpdate: true,
+  update: true,
+  render: false,
+  firstUpdated: true,
+  updated: true,
+} as const;
+
+/**
+ * Records every lifecycle callback of the element with a `LifecycleTracer`.
+ * ```ts
+ * @customElement("my-element")
+ * export class MyElement extends Traced(LitElement) {}
+ * ```
+ *
+ * The custom element callbacks (`connectedCallback`, `attributeChangedCallback`, `adoptedCallback`) are overridden
+ * on the prototype, so subclasses overriding them must call `super` to be traced (Lit requires it anyway,
+ * except for `attributeChangedCallback`).
+ *
+ * The update cycle methods are wrapped per instance when the element is constructed instead.
+ * Subclasses don't need to call `super.shouldUpdate()` or `super.updated()`, so an override on the prototype
+ * would miss them; wrapping the instance always traces the most derived implementation.
+ */
+export const Traced = <T extends Constructor<LitElement>>(superClass: T) => {
+  class TracedElement extends superClass {
+    tracer = new LifecycleTracer(this);
+
+    constructor(...args: any[]) {
+      super(...args);
+      this.tracer.record("constructor");
+      const instance = this as unknown as Record<string, (...args: unknown[]) => unknown>;
+      for (const [name, receivesChanges] of Object.entries(tracedMethods)) {
+        const method = instance[name];
+        instance[name] = (...args: unknown[]) => {
+          this.tracer.record(name, receivesChanges ? (args[0] as PropertyValues) : undefined);
+          return method.apply(this, args);
+        };
+      }
+    }
+
+    attributeChangedCallback(name: string, oldValue: string | null, newValue: string | null) {
+      this.tracer.record("attributeChanged", undefined, { name, oldValue, newValue });
+      super.attributeChangedCallback(name, oldValue, newValue);
+    }
+
+    adoptedCallback() {
+      this.tracer.record("adopted");
+    }
+  }
+  return TracedElement as Constructor<TracedInterface> & T;
+};
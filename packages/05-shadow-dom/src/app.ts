@@ -5,7 +5,7 @@ import "./02-children-with-slots";
 import "./03-accessing-slotted-children";
 import "./04-customize-render-root";
 
-@customElement("app-element")
+@customElement("app-lit-shadow-dom")
 export class AppElement extends LitElement {
   static shadowRootOptions = {
     mode: "open" as ShadowRootMode,
@@ -53,6 +53,6 @@ export class AppElement extends LitElement {
 
 declare global {
   interface HTMLElementTagNameMap {
-    "app-element": AppElement;
+    "app-lit-shadow-dom": AppElement;
   }
 }
@@ -1,5 +1,7 @@
 import { LitElement, html } from "lit";
-import { customElement, eventOptions, property } from "lit/decorators.js";
+import { customElement, eventOptions, property, state } from "lit/decorators.js";
+import { bound } from "lit-decorators";
+import { DelegateController } from "./delegate-controller.ts";
 
 /**
  * Adding event listeners in the element template
@@ -220,14 +222,29 @@ export class ListenersOnOtherElements extends LitElement {
  * component to be notified of a bubbling event dispatched by any of its descendants
  * in the DOM. Use the event's target property to take specific action based on the
  * element that dispatched the event.
+ *
+ * `DelegateController` (`src/delegate-controller.ts`) does the `target` part: a handler per selector,
+ * called with the closest matching element of `composedPath()`, so a click on an icon inside a button is the button's.
  */
 @customElement("event-delegation")
 export class EventDelegation extends LitElement {
   @property() clicked = "";
 
+  private delegate = new DelegateController(this);
+
+  constructor() {
+    super();
+    this.delegate.on("click", ".items", (e, container) => {
+      if (e.target === container) {
+        this.clicked = "container";
+      }
+    });
+    this.delegate.on("click", "button", (_e, button) => (this.clicked = button.textContent!));
+  }
+
   protected render() {
     return html`
-      <div @click="${this._clickHandler}">
+      <div class="items">
         <button>Item 1</button>
         <button>Item 2</button>
         <button>Item 3</button>
@@ -235,13 +252,6 @@ export class EventDelegation extends LitElement {
       <p>Clicked: ${this.clicked}</p>
     `;
   }
-
-  private _clickHandler(e: Event) {
-    this.clicked =
-      e.target === e.currentTarget
-        ? "container"
-        : (e.target as HTMLDivElement).textContent!;
-  }
 }
 
 /**
@@ -281,13 +291,28 @@ export class AsynchronouslyAddingEventListeners extends LitElement {
 export class UnderstandingThisInEventHandlers extends LitElement {
   @property() prop = "some value";
 
+  @state() private _scrollY = 0;
+
   constructor() {
     super();
     window.addEventListener("resize", this._handleResize);
   }
 
+  connectedCallback() {
+    super.connectedCallback();
+    window.addEventListener("scroll", this._handleScroll);
+  }
+
+  disconnectedCallback() {
+    super.disconnectedCallback();
+    window.removeEventListener("scroll", this._handleScroll);
+  }
+
   render() {
-    return html`<button @click="${this._handleClick}">click</button>`;
+    return html`
+      <button @click="${this._handleClick}">click</button>
+      <p>Window scrolled by ${this._scrollY}px</p>
+    `;
   }
 
   private _handleClick(e: Event) {
@@ -309,6 +334,16 @@ export class UnderstandingThisInEventHandlers extends LitElement {
       this.prop
     );
   };
+
+  /**
+   * Or keep a method and decorate it with `@bound` (lit-decorators): `this._handleScroll` is bound to
+   * the component, and every read returns the same function, so `removeEventListener()` removes it.
+   */
+  @bound
+  private _handleScroll() {
+    // `this` refers to the component
+    this._scrollY = Math.round(window.scrollY);
+  }
 }
 
 /**
@@ -318,6 +353,9 @@ export class UnderstandingThisInEventHandlers extends LitElement {
  *
  * Removing event listeners
  * Passing null, undefined or nothing to an @ expression will cause any existing listener to be removed.
+ *
+ * Both are delegated to a `DelegateController` here: `focus` doesn't bubble, its handler listens in the capture phase
+ * (`{ capture: true }`, like `@eventOptions()`), and the items get no listener of their own.
  */
 @customElement("listening-to-events-fired-from-repeated-templates")
 export class ListeningToEventsFiredFromRepeatedTemplates extends LitElement {
@@ -327,25 +365,21 @@ export class ListeningToEventsFiredFromRepeatedTemplates extends LitElement {
 
   data = [1, 2, 3];
 
+  private delegate = new DelegateController(this);
+
+  constructor() {
+    super();
+    this.delegate.on("click", "[key]", (_e, item) => (this.clicked = item.getAttribute("key")!));
+    this.delegate.on("focus", "button", (_e, button) => (this.focused = button.textContent!), { capture: true });
+  }
+
   protected render() {
     return html`
-      <div key="container" @click=${this._clickHandler}>
-        ${this.data.map(
-          (i) => html`
-            <button key=${i} @focus=${this._focusHandler}>Item ${i}</button>
-          `
-        )}
+      <div key="container">
+        ${this.data.map((i) => html` <button key=${i}>Item ${i}</button> `)}
       </div>
       <p>Clicked: ${this.clicked}</p>
       <p>Focused: ${this.focused}</p>
     `;
   }
-
-  private _clickHandler(e: Event) {
-    this.clicked = (e.target as Element).getAttribute("key")!;
-  }
-
-  private _focusHandler(e: Event) {
-    this.focused = (e.target as Element).textContent!;
-  }
 }
@@ -1,5 +1,6 @@
 import { css, html, LitElement } from "lit";
 import { customElement, property, query } from "lit/decorators.js";
+import { ClosedEvent, MyLoginEvent, OpenedEvent, typedDispatch } from "./events.ts";
 
 /**
  * Dispatching events
@@ -49,6 +50,8 @@ import { customElement, property, query } from "lit/decorators.js";
  * const event = new MyEvent('Something important happened');
  * this.dispatchEvent(event);
  * ```
+ *
+ * The events of this chapter are typed `CustomEvent` subclasses (`src/events.ts`), dispatched with `typedDispatch()`.
  */
 @customElement("my-dispatcher")
 export class MyDispatcher extends LitElement {
@@ -77,12 +80,7 @@ export class MyDispatcher extends LitElement {
     console.log("[my-dispatcher] _dispatchLogin");
     const name = this._input.value.trim();
     if (name) {
-      const options = {
-        detail: { name },
-        bubbles: true,
-        composed: true,
-      };
-      this.dispatchEvent(new CustomEvent("mylogin", options));
+      typedDispatch(this, new MyLoginEvent({ name }));
     }
   }
 }
@@ -107,7 +105,7 @@ export class MyListener extends LitElement {
     `;
   }
 
-  private _loginListener(e: CustomEvent) {
+  private _loginListener(e: MyLoginEvent) {
     console.log("[my-listener] loginListener", e);
     this.name = e.detail.name;
   }
@@ -136,10 +134,7 @@ export class DispatchingEventsAfterAnElementUpdates extends LitElement {
     console.log("[dispatching-events-after-an-element-updates] _notify");
     this.open = !this.open;
     await this.updateComplete;
-    const name = this.open ? "opened" : "closed";
-    this.dispatchEvent(
-      new CustomEvent(name, { bubbles: true, composed: true })
-    );
+    typedDispatch(this, this.open ? new OpenedEvent() : new ClosedEvent());
   }
 }
 
@@ -1,6 +1,8 @@
 import { css, LitElement } from "lit";
 import { html } from "lit";
 import { customElement, property } from "lit/decorators.js";
+import { inspectedDispatch } from "./05-event-path-inspector.ts";
+import { MyBubbleComposedEvent, MyBubbleEvent, MyComposedEvent } from "./events.ts";
 
 /**
  * By default, an event dispatched inside a shadow root will not be visible outside that shadow root.
@@ -44,18 +46,18 @@ export class UnderstandingComposedEventDispatching extends LitElement {
     `;
   }
 
-  private _bubbleListener(e: CustomEvent) {
+  private _bubbleListener(e: MyBubbleEvent) {
     console.log("understanding-composed-event-dispatching myBubbleEvent", e);
   }
 
-  private _bubbleComposedListener(e: CustomEvent) {
+  private _bubbleComposedListener(e: MyBubbleComposedEvent) {
     console.log(
       "understanding-composed-event-dispatching myBubbleComposedEvent",
       e
     );
   }
 
-  private _composedListener(e: CustomEvent) {
+  private _composedListener(e: MyComposedEvent) {
     console.log("understanding-composed-event-dispatching myComposedEvent", e);
   }
 }
@@ -82,18 +84,15 @@ export class BubbleEventDispatcher extends LitElement {
     // false won't be visible to the outer components because it can't cross the shadow DOM boundary.
     // Only events with composed: true will be able to cross shadow DOM boundaries.
     console.log("bubble-event-dispatcher myBubbleEvent");
-    const myBubbleEvent = new CustomEvent("myBubbleEvent", {
-      detail: { message: "myBubbleEvent happened." },
-      bubbles: true,
-      composed: false,
-    });
+    // `bubbles: true, composed: false`, from `propagation` in `src/events.ts`
+    const myBubbleEvent = new MyBubbleEvent({ message: "myBubbleEvent happened." });
     // Create a new shadow root to dispatch the event from
     const div = document.createElement("div");
     const shadow = div.attachShadow({ mode: "open" });
     shadow.innerHTML = "<span>Event Source</span>";
     this.shadowRoot?.appendChild(div);
-    // Dispatch from within the new shadow root
-    shadow.querySelector("span")?.dispatchEvent(myBubbleEvent);
+    // Dispatch from within the new shadow root, recorded by the `<event-path-inspector>` around the dispatcher
+    inspectedDispatch(shadow.querySelector("span")!, myBubbleEvent);
   }
 }
 
@@ -118,7 +117,7 @@ export class BubbleEventListener extends LitElement {
     `;
   }
   
-  private _bubbleListener(e: CustomEvent) {
+  private _bubbleListener(e: MyBubbleEvent) {
     console.log("bubble-event-listener myBubbleEvent", e);
     this.msg = e.detail.message;
   }
@@ -140,18 +139,15 @@ export class BubbleComposedEventDispatcher extends LitElement {
     //   composed: true,
     // });
     // this.dispatchEvent(myBubbleComposedEvent);
-    const myBubbleComposedEvent = new CustomEvent("myBubbleComposedEvent", {
-      detail: { message: "myBubbleComposedEvent happened." },
-      bubbles: true,
-      composed: true,
-    });
+    // `bubbles: true, composed: true`
+    const myBubbleComposedEvent = new MyBubbleComposedEvent({ message: "myBubbleComposedEvent happened." });
     // Create a new shadow root to dispatch the event from
     const div = document.createElement("div");
     const shadow = div.attachShadow({ mode: "open" });
     shadow.innerHTML = "<span>Event Source</span>";
     this.shadowRoot?.appendChild(div);
-    // Dispatch from within the new shadow root
-    shadow.querySelector("span")?.dispatchEvent(myBubbleComposedEvent);
+    // Dispatch from within the new shadow root, recorded by the `<event-path-inspector>` around the dispatcher
+    inspectedDispatch(shadow.querySelector("span")!, myBubbleComposedEvent);
   }
 }
 
@@ -176,7 +172,7 @@ export class BubbleComposedEventListener extends LitElement {
     `;
   }
 
-  private _bubbleComposedListener(e: CustomEvent) {
+  private _bubbleComposedListener(e: MyBubbleComposedEvent) {
     console.log("bubble-composed-event-listener myBubbleComposedEvent", e);
     this.msg = e.detail.message;
   }
@@ -198,18 +194,15 @@ export class ComposedEventDispatcher extends LitElement {
     //   composed: true,
     // });
     // this.dispatchEvent(myComposedEvent);
-    const myComposedEvent = new CustomEvent("myComposedEvent", {
-      detail: { message: "myComposedEvent happened." },
-      bubbles: false,
-      composed: true,
-    });
+    // `bubbles: false, composed: true`
+    const myComposedEvent = new MyComposedEvent({ message: "myComposedEvent happened." });
     // Create a new shadow root to dispatch the event from
     const div = document.createElement("div");
     const shadow = div.attachShadow({ mode: "open" });
     shadow.innerHTML = "<span>Event Source</span>";
     this.shadowRoot?.appendChild(div);
-    // Dispatch from within the new shadow root
-    shadow.querySelector("span")?.dispatchEvent(myComposedEvent);
+    // Dispatch from within the new shadow root, recorded by the `<event-path-inspector>` around the dispatcher
+    inspectedDispatch(shadow.querySelector("span")!, myComposedEvent);
   }
 }
 
@@ -223,7 +216,7 @@ export class ComposedEventListener extends LitElement {
     </div>`;
   }
 
-  private _composedListener(e: CustomEvent) {
+  private _composedListener(e: MyComposedEvent) {
     console.log("composed-event-listener myComposedEvent", e);
     this.msg = e.detail.message;
   }
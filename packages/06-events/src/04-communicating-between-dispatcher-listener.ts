@@ -1,5 +1,6 @@
 import { LitElement, html } from "lit";
 import { customElement, property } from "lit/decorators.js";
+import { CheckedEvent, typedDispatch } from "./events.ts";
 
 /**
  * communicating-between-the-event-dispatcher-and-listener
@@ -43,14 +44,7 @@ export class CommunicatingBetweenDispatcherListenerDispatcher extends LitElement
   private _tryChange(e: Event) {
     // Used the property in the event message
     const detail = { message: this.message };
-    const event = new CustomEvent("checked", {
-      detail,
-      bubbles: true,
-      composed: true,
-      cancelable: true,
-    });
-    this.dispatchEvent(event);
-    if (event.defaultPrevented) {
+    if (!typedDispatch(this, new CheckedEvent(detail))) {
       e.preventDefault();
     }
     this.message = detail.message;
@@ -71,7 +65,7 @@ export class CommunicatingBetweenDispatcherListenerListener extends LitElement {
     `;
   }
 
-  private _checkedHandler(e: CustomEvent) {
+  private _checkedHandler(e: CheckedEvent) {
     if (!this.canCheck) {
       e.preventDefault();
       e.detail.message = "✅ Prevented!!";
@@ -0,0 +1,88 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { EventPathInspector, inspectedDispatch } from "./05-event-path-inspector.ts";
+
+let inspector: EventPathInspector;
+let host: HTMLElement;
+
+/** Nodes compare as their markup with `toEqual()`: the paths are compared by name */
+const name = (target: EventTarget): string => {
+  if (target === window) {
+    return "window";
+  }
+  if (target instanceof ShadowRoot) {
+    return `#shadow-root of ${name(target.host)}`;
+  }
+  const node = target as Element;
+  return node.id ? `#${node.id}` : node.nodeName.toLowerCase();
+};
+
+/** The path given to the inspector, and the one of the dispatch, seen by a listener on the target */
+const dispatch = (target: Node, event: Event) => {
+  const inspect = vi.spyOn(inspector, "inspect");
+  let composedPath: EventTarget[] = [];
+  target.addEventListener(event.type, (e) => (composedPath = e.composedPath()), { once: true });
+
+  inspectedDispatch(target, event);
+
+  return { path: inspect.mock.calls[0][1].map(name), composedPath: composedPath.map(name) };
+};
+
+beforeEach(async () => {
+  document.body.innerHTML = `
+    <event-path-inspector events="ping">
+      <div id="host"><span id="slotted">Slotted</span></div>
+    </event-path-inspector>
+  `;
+  inspector = document.querySelector("event-path-inspector")!;
+  host = document.querySelector("#host")!;
+  host.attachShadow({ mode: "open" }).innerHTML = `<p><slot></slot></p><span id="inner">Inner</span>`;
+  await inspector.updateComplete;
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  document.body.innerHTML = "";
+});
+
+describe("inspectedDispatch", () => {
+  it("a non-composed event from slotted content goes through the shadow root of the slot to the host", () => {
+    const slotted = host.querySelector("#slotted")!;
+
+    const { path, composedPath } = dispatch(slotted, new Event("ping", { bubbles: true }));
+
+    expect(path).toEqual(composedPath);
+    // The host is slotted too, in the inspector
+    expect(path).toEqual([
+      "#slotted",
+      "slot",
+      "p",
+      "#shadow-root of #host",
+      "#host",
+      "slot",
+      "#shadow-root of event-path-inspector",
+      "event-path-inspector",
+      "body",
+      "html",
+      "#document",
+      "window",
+    ]);
+  });
+
+  it("a non-composed event from a shadow root stops at it", () => {
+    const inner = host.shadowRoot!.querySelector("#inner")!;
+
+    const { path, composedPath } = dispatch(inner, new Event("ping", { bubbles: true }));
+
+    expect(path).toEqual(composedPath);
+    expect(path).toEqual(["#inner", "#shadow-root of #host"]);
+  });
+
+  it("a composed event from a shadow root goes on to the host", () => {
+    const inner = host.shadowRoot!.querySelector("#inner")!;
+
+    const { path, composedPath } = dispatch(inner, new Event("ping", { bubbles: true, composed: true }));
+
+    expect(path).toEqual(composedPath);
+    expect(path.slice(0, 3)).toEqual(["#inner", "#shadow-root of #host", "#host"]);
+  });
+});
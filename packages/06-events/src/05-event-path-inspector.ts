@@ -0,0 +1,383 @@
+import { css, html, LitElement, nothing, PropertyValues } from "lit";
+import { customElement, property, state } from "lit/decorators.js";
+
+/**
+ * Event path inspector
+ * The path of an event is fixed when it is dispatched: from the target up to the window, through the slots
+ * the nodes are assigned to and, for `composed` events, from each shadow root to its host.
+ * The event then travels it twice: down in the capture phase, up in the bubble phase (only if it `bubbles`).
+ * At a shadow host, the event is at target in both phases: the host hears a composed event even when it doesn't bubble.
+ *
+ * Each listener sees the event retargeted: `target` is the node of its own tree, so above a shadow boundary the target
+ * is the host. `composedPath()` gives the whole path, from the original target.
+ *
+ * `<event-path-inspector events="click myComposedEvent">` records the events of its subtree: a capture and a bubble
+ * listener on every node of the path, inside the inspector, and the target each of them sees.
+ * Events enter the path while it is dispatched:
+ * - the events of the browser (`click`) are seen by a capture listener on the inspector, before they go down:
+ *   `composedPath()` is known, and the nodes below get their listeners in time;
+ * - the events dispatched by script can start and end in a shadow root created just before (the dispatchers of
+ *   `03-working-with-events-in-shadow-dom`), and never reach the inspector: their dispatchers opt in with
+ *   `inspectedDispatch(target, event)`, which computes the path, and adds the listeners, before dispatching them.
+ *   `EventTarget.prototype.dispatchEvent` isn't patched: the other scripts of the page dispatch as usual.
+ */
+@customElement("event-path-inspector")
+export class EventPathInspector extends LitElement {
+  static styles = css`
+    :host {
+      display: block;
+      border: 1px dashed gray;
+      padding: 8px;
+    }
+    .records {
+      display: flex;
+      flex-wrap: wrap;
+      gap: 4px;
+    }
+    .records button[aria-pressed="true"] {
+      font-weight: bold;
+    }
+    table {
+      border-collapse: collapse;
+      font-family: monospace;
+      font-size: small;
+    }
+    td,
+    th {
+      padding: 2px 8px;
+      text-align: left;
+    }
+    tr.shadow-root td {
+      border-top: 1px dashed currentColor;
+    }
+    tr:hover,
+    tr.selected {
+      background: rgba(128, 128, 128, 0.2);
+    }
+    .pending {
+      opacity: 0.25;
+    }
+    .retargeted {
+      color: darkorange;
+    }
+  `;
+
+  /** The event types to record, separated by spaces */
+  @property()
+  events = "click";
+
+  @state()
+  private _records: EventRecord[] = [];
+
+  @state()
+  private _selected?: EventRecord;
+
+  /** The listener calls shown in the diagram, to replay the dispatch */
+  @state()
+  private _step = 0;
+
+  @state()
+  private _node?: EventTarget;
+
+  private _types: string[] = [];
+
+  connectedCallback() {
+    super.connectedCallback();
+    inspectors.add(this);
+  }
+
+  disconnectedCallback() {
+    super.disconnectedCallback();
+    inspectors.delete(this);
+  }
+
+  willUpdate(changedProperties: PropertyValues<this>) {
+    if (changedProperties.has("events")) {
+      this._types.forEach((type) => this.removeEventListener(type, this._handleCapture, true));
+      this._types = this.events.split(/\s+/).filter(Boolean);
+      this._types.forEach((type) => this.addEventListener(type, this._handleCapture, true));
+    }
+  }
+
+  protected render() {
+    return html`
+      <slot></slot>
+      <p>
+        Recording <code>${this._types.join(", ")}</code>
+        <button @click=${this._clear}>Clear</button>
+      </p>
+      <div class="records">
+        ${this._records.map(
+          (record) => html`
+            <button aria-pressed=${String(record === this._selected)} @click=${() => this._select(record)}>
+              ${record.type}
+            </button>
+          `
+        )}
+      </div>
+      ${this._selected ? this._renderRecord(this._selected) : nothing}
+    `;
+  }
+
+  private _renderRecord(record: EventRecord) {
+    const { type, bubbles, composed, path, calls } = record;
+    const origin = path[0];
+    // Outermost first, like the capture phase
+    const rows = [...path].reverse();
+    let depth = 0;
+    return html`
+      <p>
+        <code>${type}</code> bubbles: ${bubbles}, composed: ${composed}, from <code>${label(origin)}</code>
+      </p>
+      <p>composedPath(): <code>${record.composedPath.map(label).join(" → ")}</code></p>
+      <label>
+        Listener calls: ${this._step} / ${calls.length}
+        <input
+          type="range"
+          min="0"
+          max=${calls.length}
+          .value=${String(this._step)}
+          @input=${(e: Event) => (this._step = Number((e.target as HTMLInputElement).value))}
+        />
+      </label>
+      <table>
+        <tr>
+          <th>Node</th>
+          <th>Capture</th>
+          <th>Bubble</th>
+          <th><code>event.target</code></th>
+        </tr>
+        ${rows.map((node) => {
+          if (node instanceof ShadowRoot) {
+            depth++;
+          }
+          const capture = calls.findIndex((call) => call.node === node && call.listener === "capture");
+          const bubble = calls.findIndex((call) => call.node === node && call.listener === "bubble");
+          const seen = calls[capture] ?? calls[bubble];
+          return html`
+            <tr
+              class="${node instanceof ShadowRoot ? "shadow-root" : ""} ${node === this._node ? "selected" : ""}"
+              @mouseenter=${() => outline(node, true)}
+              @mouseleave=${() => outline(node, false)}
+              @click=${() => (this._node = node)}
+            >
+              <td style="padding-left: ${depth * 16 + 8}px">${label(node)}</td>
+              ${[capture, bubble].map(
+                (index) => html`
+                  <td class=${index >= this._step ? "pending" : ""}>
+                    ${index === -1 ? "—" : `${index + 1}. ${phases[calls[index].phase]}`}
+                  </td>
+                `
+              )}
+              <td class=${seen && seen.target !== origin ? "retargeted" : ""}>${seen ? label(seen.target) : "—"}</td>
+            </tr>
+          `;
+        })}
+      </table>
+      ${this._node ? this._renderNode(record, this._node) : nothing}
+    `;
+  }
+
+  private _renderNode(record: EventRecord, node: EventTarget) {
+    const calls = record.calls.filter((call) => call.node === node);
+    if (!calls.length) {
+      return html`<p><code>${label(node)}</code> never heard the event</p>`;
+    }
+    const { target } = calls[0];
+    return html`
+      <p>
+        <code>${label(node)}</code> heard it in ${calls.map((call) => phases[call.phase]).join(" and ")},
+        ${target === record.path[0]
+          ? html`with its original target`
+          : html`retargeted to <code>${label(target)}</code>: the original target is in a shadow root below`}
+      </p>
+    `;
+  }
+
+  /** A browser event, or a scripted one dispatched outside the inspector, going down into the subtree */
+  private _handleCapture = (e: Event) => {
+    const path = e.composedPath();
+    // Already recorded when dispatched, or a click on the inspector itself
+    if (recorded.has(e) || (path[0] as Node).getRootNode() === this.shadowRoot) {
+      return;
+    }
+    const record = this._record(e, path.slice(0, path.indexOf(this) + 1));
+    record.composedPath = path;
+    // The capture listeners of the inspector already ran: this one is the inspector's own
+    record.calls.push({ node: this, listener: "capture", phase: e.eventPhase, target: e.target });
+    this._listen(record, e, path.slice(0, path.indexOf(this)), ["capture", "bubble"]);
+    this._listen(record, e, [this], ["bubble"]);
+    // Dispatching a browser event is a single task: the listeners are removed once it ended
+    setTimeout(() => this._unlisten(record));
+  };
+
+  /** Records a scripted event of the subtree, before it is dispatched. Returns the cleanup, for after the dispatch */
+  inspect(event: Event, path: EventTarget[]) {
+    const end = path.indexOf(this);
+    const record = this._record(event, end === -1 ? path : path.slice(0, end + 1));
+    this._listen(record, event, record.path, ["capture", "bubble"]);
+    return () => this._unlisten(record);
+  }
+
+  /** Whether the events of `type` starting at `node` are recorded */
+  watches(type: string, node: Node) {
+    return this._types.includes(type) && isInside(node, this);
+  }
+
+  private _record(event: Event, path: EventTarget[]): EventRecord {
+    recorded.add(event);
+    const record: EventRecord = {
+      type: event.type,
+      bubbles: event.bubbles,
+      composed: event.composed,
+      path,
+      composedPath: [],
+      calls: [],
+      listeners: [],
+    };
+    this._records = [...this._records, record].slice(-20);
+    return record;
+  }
+
+  private _listen(record: EventRecord, event: Event, nodes: EventTarget[], listeners: Array<"capture" | "bubble">) {
+    for (const node of nodes) {
+      for (const listener of listeners) {
+        const callback = (e: Event) => {
+          if (e !== event) {
+            return;
+          }
+          if (!record.composedPath.length) {
+            record.composedPath = e.composedPath();
+          }
+          record.calls.push({ node, listener, phase: e.eventPhase, target: e.target });
+        };
+        const capture = listener === "capture";
+        node.addEventListener(event.type, callback, capture);
+        record.listeners.push(() => node.removeEventListener(event.type, callback, capture));
+      }
+    }
+  }
+
+  private _unlisten(record: EventRecord) {
+    record.listeners.forEach((remove) => remove());
+    record.listeners = [];
+    this._select(record);
+  }
+
+  private _select(record: EventRecord) {
+    this._selected = record;
+    this._step = record.calls.length;
+    this._node = undefined;
+  }
+
+  private _clear() {
+    this._records = [];
+    this._selected = undefined;
+  }
+}
+
+interface ListenerCall {
+  node: EventTarget;
+  listener: "capture" | "bubble";
+  /** `eventPhase`: 1 capturing, 2 at target, 3 bubbling */
+  phase: number;
+  /** `event.target` as the listener sees it */
+  target: EventTarget | null;
+}
+
+interface EventRecord {
+  type: string;
+  bubbles: boolean;
+  composed: boolean;
+  /** From the original target to the inspector, or to where the event stops */
+  path: EventTarget[];
+  composedPath: EventTarget[];
+  /** In the order of the dispatch */
+  calls: ListenerCall[];
+  listeners: Array<() => void>;
+}
+
+const phases = ["none", "capture", "at target", "bubble"];
+
+const inspectors = new Set<EventPathInspector>();
+
+const recorded = new WeakSet<Event>();
+
+const label = (target: EventTarget | null): string => {
+  if (target === window) {
+    return "window";
+  }
+  if (target instanceof Document) {
+    return "#document";
+  }
+  if (target instanceof ShadowRoot) {
+    return `#shadow-root (${target.mode})`;
+  }
+  if (target instanceof Element) {
+    return `<${target.localName}${target.id ? `#${target.id}` : ""}>`;
+  }
+  return target instanceof Node ? target.nodeName : String(target);
+};
+
+/** Highlights an element of the path while its row is hovered */
+const outline = (target: EventTarget, on: boolean) => {
+  if (target instanceof HTMLElement) {
+    target.style.outline = on ? "2px solid darkorange" : "";
+  }
+};
+
+/** In the subtree of the inspector, through shadow roots, but not in the shadow root of the inspector itself */
+const isInside = (target: Node, inspector: EventPathInspector) => {
+  let node: Node | null = target;
+  while (node && node !== inspector.shadowRoot) {
+    if (node === inspector) {
+      return true;
+    }
+    node = node instanceof ShadowRoot ? node.host : node.parentNode;
+  }
+  return false;
+};
+
+/**
+ * The path `dispatchEvent()` will build: slots, then shadow roots to their hosts when `composed`.
+ * A non-composed event only stops at the shadow root of its target: from slotted content, it goes through the shadow
+ * root of the slot on its way to the host, the tree of the target.
+ */
+const eventPath = (target: Node, composed: boolean) => {
+  const path: EventTarget[] = [];
+  let node: Node | null = target;
+  while (node) {
+    path.push(node);
+    if (node instanceof ShadowRoot) {
+      node = composed || node !== target.getRootNode() ? node.host : null;
+    } else {
+      node = (node as Element | Text).assignedSlot ?? node.parentNode;
+    }
+  }
+  if (path[path.length - 1] instanceof Document) {
+    path.push(window);
+  }
+  return path;
+};
+
+/**
+ * `target.dispatchEvent(event)`, recorded by the inspectors `target` is inside of, even when the event stays
+ * in a shadow root below them. Returns `false` when a listener called `preventDefault()`.
+ */
+export const inspectedDispatch = (target: Node, event: Event) => {
+  const path = eventPath(target, event.composed);
+  const cleanups = [...inspectors]
+    .filter((inspector) => inspector.watches(event.type, target))
+    .map((inspector) => inspector.inspect(event, path));
+  try {
+    return target.dispatchEvent(event);
+  } finally {
+    cleanups.forEach((cleanup) => cleanup());
+  }
+};
+
+declare global {
+  interface HTMLElementTagNameMap {
+    "event-path-inspector": EventPathInspector;
+  }
+}
@@ -0,0 +1,94 @@
+import { css, html, LitElement } from "lit";
+import { customElement, state } from "lit/decorators.js";
+import { repeat } from "lit/directives/repeat.js";
+import { DelegateController } from "./delegate-controller.ts";
+
+/** The actions of a row, in their own shadow root: no listener, the list delegates their clicks */
+@customElement("row-actions")
+export class RowActions extends LitElement {
+  protected render() {
+    return html`<button data-action="remove" title="Remove">✕</button>`;
+  }
+}
+
+interface Row {
+  id: number;
+  label: string;
+  done: boolean;
+}
+
+/**
+ * A list of thousands of rows and two listeners: `DelegateController` listens to `click` on the shadow root
+ * and calls the handler of the closest matching element.
+ * The remove buttons are in the shadow roots of the `<row-actions>`, where `event.target` would only
+ * show the `<row-actions>`: the controller finds them in `composedPath()`.
+ */
+@customElement("delegated-list")
+export class DelegatedList extends LitElement {
+  static styles = css`
+    ul {
+      max-height: 200px;
+      overflow: auto;
+      padding: 0;
+      list-style: none;
+    }
+    li {
+      cursor: pointer;
+    }
+    li.done {
+      text-decoration: line-through;
+    }
+  `;
+
+  @state()
+  private _rows: Row[] = Array.from({ length: 2000 }, (_, i) => ({ id: i + 1, label: `Row ${i + 1}`, done: false }));
+
+  private delegate = new DelegateController(this);
+
+  constructor() {
+    super();
+    this.delegate.on("click", "li[data-id]", (_e, li: HTMLElement) => this._toggle(Number(li.dataset.id)));
+    // Inside `<row-actions>`: the row is the one of its host
+    this.delegate.on("click", "[data-action=remove]", (e, button) => {
+      e.stopPropagation();
+      const row = (button.getRootNode() as ShadowRoot).host.closest<HTMLElement>("li[data-id]")!;
+      this._remove(Number(row.dataset.id));
+    });
+  }
+
+  protected render() {
+    return html`
+      <p>
+        ${this._rows.length} rows, ${this.delegate.listenerCount} listener(s) on the shadow root.
+        Click a row to toggle it.
+      </p>
+      <ul>
+        ${repeat(
+          this._rows,
+          (row) => row.id,
+          (row) => html`
+            <li data-id=${row.id} class=${row.done ? "done" : ""}>
+              ${row.label}
+              <row-actions></row-actions>
+            </li>
+          `
+        )}
+      </ul>
+    `;
+  }
+
+  private _toggle(id: number) {
+    this._rows = this._rows.map((row) => (row.id === id ? { ...row, done: !row.done } : row));
+  }
+
+  private _remove(id: number) {
+    this._rows = this._rows.filter((row) => row.id !== id);
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    "row-actions": RowActions;
+    "delegated-list": DelegatedList;
+  }
+}
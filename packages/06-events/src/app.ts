@@ -4,8 +4,11 @@ import "./01-listening-to-events.ts";
 import "./02-dispatching-events.ts";
 import "./03-working-with-events-in-shadow-dom.ts";
 import "./04-communicating-between-dispatcher-listener.ts";
+import "./05-event-path-inspector.ts";
+import "./06-delegate-controller.ts";
+import type { MyBubbleComposedEvent, MyBubbleEvent, MyComposedEvent } from "./events.ts";
 
-@customElement("app-element")
+@customElement("app-lit-events")
 export class AppElement extends LitElement {
   render() {
     return html`
@@ -26,6 +29,9 @@ export class AppElement extends LitElement {
       <h3>Asynchronously adding event listeners</h3>
       <asynchronously-adding-event-listeners></asynchronously-adding-event-listeners>
 
+      <h3>Delegating to a controller</h3>
+      <delegated-list></delegated-list>
+
       <h3>Understanding this in event handlers</h3>
       <understanding-this-in-event-handlers></understanding-this-in-event-handlers>
 
@@ -55,19 +61,22 @@ export class AppElement extends LitElement {
         @myBubbleComposedEvent=${this._bubbleComposedListener}
         @myComposedEvent=${this._composedListener}
       ></div>
-      <understanding-composed-event-dispatching>
-        <bubble-event-listener>
-          <bubble-event-dispatcher></bubble-event-dispatcher>
-        </bubble-event-listener>
-
-        <bubble-composed-event-listener>
-          <bubble-composed-event-dispatcher></bubble-composed-event-dispatcher>
-        </bubble-composed-event-listener>
-
-        <composed-event-listener>
-          <composed-event-dispatcher></composed-event-dispatcher>
-        </composed-event-listener>
-      </understanding-composed-event-dispatching>
+      <p>Click a dispatcher: the inspector shows where each event went, and the target each node saw.</p>
+      <event-path-inspector events="click myBubbleEvent myBubbleComposedEvent myComposedEvent">
+        <understanding-composed-event-dispatching>
+          <bubble-event-listener>
+            <bubble-event-dispatcher></bubble-event-dispatcher>
+          </bubble-event-listener>
+
+          <bubble-composed-event-listener>
+            <bubble-composed-event-dispatcher></bubble-composed-event-dispatcher>
+          </bubble-composed-event-listener>
+
+          <composed-event-listener>
+            <composed-event-dispatcher></composed-event-dispatcher>
+          </composed-event-listener>
+        </understanding-composed-event-dispatching>
+      </event-path-inspector>
 
       <hr />
 
@@ -78,13 +87,13 @@ export class AppElement extends LitElement {
     `;
   }
 
-  private _bubbleListener(e: CustomEvent) {
-    console.log("app-element bubbleListener", e);
+  private _bubbleListener(e: MyBubbleEvent) {
+    console.log("app-lit-events bubbleListener", e);
   }
-  private _bubbleComposedListener(e: CustomEvent) {
-    console.log("app-element bubbleComposedListener", e);
+  private _bubbleComposedListener(e: MyBubbleComposedEvent) {
+    console.log("app-lit-events bubbleComposedListener", e);
   }
-  private _composedListener(e: CustomEvent) {
-    console.log("app-element composedListener", e);
+  private _composedListener(e: MyComposedEvent) {
+    console.log("app-lit-events composedListener", e);
   }
 }
@@ -0,0 +1,134 @@
+import { ReactiveController, ReactiveElement } from "lit";
+
+/** The options of `@eventOptions()` a delegated handler can take */
+export type DelegateOptions = Pick<AddEventListenerOptions, "capture" | "passive" | "once">;
+
+/** Called with the event and the element that matched the selector; `this` is the host, like in templates */
+export type DelegateHandler<K extends keyof HTMLElementEventMap, E extends Element = Element> = (
+  event: HTMLElementEventMap[K],
+  matched: E
+) => void;
+
+interface Delegation {
+  selector: string;
+  handler: DelegateHandler<keyof HTMLElementEventMap>;
+  once: boolean;
+}
+
+interface DelegatedListener {
+  type: string;
+  options: { capture: boolean; passive: boolean };
+  delegations: Delegation[];
+  listener: (e: Event) => void;
+}
+
+/**
+ * Event delegation, declared by selector:
+ * ```ts
+ * private delegate = new DelegateController(this);
+ *
+ * constructor() {
+ *   super();
+ *   this.delegate.on("click", "li[data-id]", (e, li) => this._open(li.dataset.id));
+ * }
+ * ```
+ *
+ * One listener on the render root per event type (and options), whatever the number of rows: a list of thousands
+ * of items gets one `click` listener instead of one per item. For each event, the controller walks `composedPath()`
+ * from the original target up to the render root and calls each handler with the closest element matching its
+ * selector. The path goes through the shadow roots below (the `<li>` rendered by a child element matches),
+ * where `target` would be retargeted to their hosts; slotted children are in it too.
+ * Like bubbling, the handlers of the innermost matches run first, and `stopPropagation()` in a handler
+ * skips the handlers of the outer ones.
+ *
+ * Options are those of `@eventOptions()`: `capture` (needed by the events that don't bubble, like `focus`),
+ * `passive`, and `once` (the handler is removed after its first match).
+ * The listeners are added in `hostConnected()` and removed in `hostDisconnected()`, the handlers are kept:
+ * a reconnected host listens again.
+ */
+export class DelegateController implements ReactiveController {
+  host: ReactiveElement;
+
+  private _listeners: DelegatedListener[] = [];
+
+  private _root?: HTMLElement | DocumentFragment;
+
+  constructor(host: ReactiveElement) {
+    this.host = host;
+    host.addController(this);
+  }
+
+  /** Registers a handler. Returns a function removing it */
+  on<K extends keyof HTMLElementEventMap, E extends Element = Element>(
+    type: K,
+    selector: string,
+    handler: DelegateHandler<K, E>,
+    { capture = false, passive = false, once = false }: DelegateOptions = {}
+  ) {
+    let delegated = this._listeners.find(
+      (listener) => listener.type === type && listener.options.capture === capture && listener.options.passive === passive
+    );
+    if (!delegated) {
+      const created: DelegatedListener = {
+        type,
+        options: { capture, passive },
+        delegations: [],
+        listener: (e) => this._dispatch(created, e),
+      };
+      delegated = created;
+      this._listeners.push(delegated);
+      this._root?.addEventListener(type, delegated.listener, delegated.options);
+    }
+    const delegation: Delegation = { selector, handler: handler as DelegateHandler<keyof HTMLElementEventMap>, once };
+    delegated.delegations.push(delegation);
+    return () => this._off(delegated, delegation);
+  }
+
+  /** The listeners added to the render root: one per event type and options */
+  get listenerCount() {
+    return this._root ? this._listeners.length : 0;
+  }
+
+  hostConnected() {
+    this._root = this.host.renderRoot;
+    for (const { type, listener, options } of this._listeners) {
+      this._root.addEventListener(type, listener, options);
+    }
+  }
+
+  hostDisconnected() {
+    for (const { type, listener, options } of this._listeners) {
+      this._root?.removeEventListener(type, listener, options);
+    }
+    this._root = undefined;
+  }
+
+  private _dispatch(delegated: DelegatedListener, e: Event) {
+    const path = e.composedPath();
+    // Only the nodes below the root, not its host and the rest of the page
+    const elements = path
+      .slice(0, path.indexOf(e.currentTarget!))
+      .filter((node): node is Element => node instanceof Element);
+    const matches = delegated.delegations
+      .map((delegation) => ({ delegation, index: elements.findIndex((element) => element.matches(delegation.selector)) }))
+      .filter(({ index }) => index !== -1)
+      .sort((a, b) => a.index - b.index);
+    for (const { delegation, index } of matches) {
+      if (delegation.once) {
+        this._off(delegated, delegation);
+      }
+      delegation.handler.call(this.host, e as HTMLElementEventMap[keyof HTMLElementEventMap], elements[index]);
+      if (e.cancelBubble) {
+        break;
+      }
+    }
+  }
+
+  private _off(delegated: DelegatedListener, delegation: Delegation) {
+    delegated.delegations = delegated.delegations.filter((registered) => registered !== delegation);
+    if (!delegated.delegations.length) {
+      this._root?.removeEventListener(delegated.type, delegated.listener, delegated.options);
+      this._listeners = this._listeners.filter((listener) => listener !== delegated);
+    }
+  }
+}
@@ -0,0 +1,122 @@
+/**
+ * Typed events
+ * A `CustomEvent` built by hand is `CustomEvent<any>`: nothing checks that the listener reads the `detail`
+ * the dispatcher wrote, or that the event bubbles and crosses the shadow roots it has to.
+ *
+ * Every event of this chapter is declared here instead:
+ * - `EventDetails` maps its type to its `detail` (`void` without one);
+ * - `propagation` fixes its `bubbles`, `composed` and `cancelable` once, for every dispatcher;
+ * - a class per event builds it from both, and `HTMLElementEventMap` maps the type to the class,
+ *   so `addEventListener("mylogin", (e) => e.detail.name)` is typed.
+ *
+ * ```ts
+ * typedDispatch(this, new MyLoginEvent({ name }));
+ * ```
+ * `typedDispatch()` only takes the events of the map: a hand-made `new CustomEvent("mylogin")` doesn't compile.
+ * `src/events.type-checks.ts` holds the mistakes that must not compile.
+ */
+
+/** The `detail` of each event */
+export interface EventDetails {
+  mylogin: { name: string };
+  /** A listener may replace `message`, the dispatcher shows it */
+  checked: { message: string };
+  opened: void;
+  closed: void;
+  myBubbleEvent: { message: string };
+  myBubbleComposedEvent: { message: string };
+  myComposedEvent: { message: string };
+}
+
+export type TypedEventType = keyof EventDetails;
+
+type Propagation = Required<Pick<EventInit, "bubbles" | "composed" | "cancelable">>;
+
+/** How each event travels, the same for every dispatcher of the event */
+export const propagation = {
+  mylogin: { bubbles: true, composed: true, cancelable: false },
+  checked: { bubbles: true, composed: true, cancelable: true },
+  opened: { bubbles: true, composed: true, cancelable: false },
+  closed: { bubbles: true, composed: true, cancelable: false },
+  myBubbleEvent: { bubbles: true, composed: false, cancelable: false },
+  myBubbleComposedEvent: { bubbles: true, composed: true, cancelable: false },
+  myComposedEvent: { bubbles: false, composed: true, cancelable: false },
+} as const satisfies Record<TypedEventType, Propagation>;
+
+type DetailArgs<K extends TypedEventType> = EventDetails[K] extends void ? [] : [detail: EventDetails[K]];
+
+/** A `CustomEvent` with the type `K`, its `detail` and its `propagation` */
+export class TypedEvent<K extends TypedEventType> extends CustomEvent<EventDetails[K]> {
+  declare readonly type: K;
+
+  constructor(type: K, ...[detail]: DetailArgs<K>) {
+    super(type, { ...propagation[type], detail: detail as EventDetails[K] });
+  }
+}
+
+/** `<my-dispatcher>` logged in */
+export class MyLoginEvent extends TypedEvent<"mylogin"> {
+  constructor(detail: EventDetails["mylogin"]) {
+    super("mylogin", detail);
+  }
+}
+
+/** A checkbox is about to be checked: cancelable, and `detail.message` is written back by the listener */
+export class CheckedEvent extends TypedEvent<"checked"> {
+  constructor(detail: EventDetails["checked"]) {
+    super("checked", detail);
+  }
+}
+
+/** Dispatched once the opened content was rendered */
+export class OpenedEvent extends TypedEvent<"opened"> {
+  constructor() {
+    super("opened");
+  }
+}
+
+/** Dispatched once the closed content was rendered */
+export class ClosedEvent extends TypedEvent<"closed"> {
+  constructor() {
+    super("closed");
+  }
+}
+
+/** Bubbles, but stays in its shadow root */
+export class MyBubbleEvent extends TypedEvent<"myBubbleEvent"> {
+  constructor(detail: EventDetails["myBubbleEvent"]) {
+    super("myBubbleEvent", detail);
+  }
+}
+
+/** Bubbles through every shadow root */
+export class MyBubbleComposedEvent extends TypedEvent<"myBubbleComposedEvent"> {
+  constructor(detail: EventDetails["myBubbleComposedEvent"]) {
+    super("myBubbleComposedEvent", detail);
+  }
+}
+
+/** Crosses shadow roots without bubbling: only the target and the hosts hear it */
+export class MyComposedEvent extends TypedEvent<"myComposedEvent"> {
+  constructor(detail: EventDetails["myComposedEvent"]) {
+    super("myComposedEvent", detail);
+  }
+}
+
+export interface TypedEventMap {
+  mylogin: MyLoginEvent;
+  checked: CheckedEvent;
+  opened: OpenedEvent;
+  closed: ClosedEvent;
+  myBubbleEvent: MyBubbleEvent;
+  myBubbleComposedEvent: MyBubbleComposedEvent;
+  myComposedEvent: MyComposedEvent;
+}
+
+/** Dispatches an event of the map. Returns `false` when a listener called `preventDefault()` */
+export const typedDispatch = (target: EventTarget, event: TypedEventMap[TypedEventType]) =>
+  target.dispatchEvent(event);
+
+declare global {
+  interface HTMLElementEventMap extends TypedEventMap {}
+}
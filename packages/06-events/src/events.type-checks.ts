@@ -0,0 +1,59 @@
+/**
+ * Compile-time checks of the typed events: `tsc` (`pnpm build:06`) fails when one of the mistakes below compiles,
+ * `@ts-expect-error` turns an unused expectation into an error. Nothing here runs, the module isn't imported.
+ */
+import {
+  CheckedEvent,
+  ClosedEvent,
+  MyBubbleEvent,
+  MyLoginEvent,
+  OpenedEvent,
+  propagation,
+  typedDispatch,
+} from "./events.ts";
+
+declare const element: HTMLElement;
+
+// Listeners get the class of the event, and its `detail`
+element.addEventListener("mylogin", (e) => e.detail.name.toUpperCase());
+element.addEventListener("checked", (e) => (e.detail.message = "✅"));
+element.addEventListener("myBubbleEvent", (e: MyBubbleEvent) => e.detail.message);
+
+// @ts-expect-error a listener of another event
+element.addEventListener("mylogin", (e: CheckedEvent) => e.detail.message);
+
+// @ts-expect-error a detail shape of another team
+element.addEventListener("mylogin", (e) => e.detail.username);
+
+// @ts-expect-error `opened` has no detail
+element.addEventListener("opened", (e) => e.detail.name);
+
+// @ts-expect-error the name is a string
+new MyLoginEvent({ name: 42 });
+
+// @ts-expect-error a detail is required
+new CheckedEvent();
+
+// @ts-expect-error no detail
+new OpenedEvent({});
+
+// The events of the map are dispatched, and cancelable ones tell whether they were cancelled
+const allowed: boolean = typedDispatch(element, new CheckedEvent({ message: "🙂" }));
+typedDispatch(element, new ClosedEvent());
+
+// @ts-expect-error a hand-made event: its type, detail and propagation aren't checked
+typedDispatch(element, new CustomEvent("mylogin", { detail: { name: "Ada" }, bubbles: true, composed: false }));
+
+// @ts-expect-error a plain `Event`
+typedDispatch(element, new Event("opened"));
+
+// The propagation of an event is a literal: it can't be widened or changed
+const composed: true = propagation.mylogin.composed;
+
+// @ts-expect-error `myBubbleEvent` stays in its shadow root
+const leaks: true = propagation.myBubbleEvent.composed;
+
+// @ts-expect-error read-only
+propagation.checked.cancelable = false;
+
+export { allowed, composed, leaks };
@@ -1,5 +1,8 @@
 import { LitElement, html } from 'lit';
 import { customElement } from 'lit/decorators.js';
+import './decorator-parity.ts';
+import './experimental/toolkit-element.ts';
+import './standard/toolkit-element.ts';
 
 /**
  * Decorators
@@ -71,14 +74,41 @@ import { customElement } from 'lit/decorators.js';
  * }
  * ```
  * Note: The accessor keyword was introduced in TypeScript 4.9 and standard decorators with metadata require TypeScript ≥5.2.
+ *
+ * Both builds side by side
+ * This package compiles `src/standard` with standard decorators (its own tsconfig.json) and the rest with experimental ones.
+ * `decorated-experimental` and `decorated-standard` use every built-in decorator, their sources only differ by `accessor`.
+ * `decorator-parity` shows them side by side, `decorator-parity.test.ts` checks they behave the same (`pnpm test`).
+ *
+ * A decorator toolkit
+ * The `lit-decorators` package adds decorators of our own, written once for both modes:
+ * - @watch(property)	Calls a method from `willUpdate()` with the old and new value when a property changed
+ * - @debounce(ms)	Runs a method once calls have stopped for `ms`
+ * - @bound	Binds a method to the instance, for `addEventListener()` and callbacks (see 06-events)
+ * - @computed(...dependencies)	Caches a getter until one of its dependencies changed
+ * `toolkit-experimental` and `toolkit-standard` use them on the 04-lifecycle `constructor-element`,
+ * `toolkit.test.ts` tests them on both, and on `performing-update-element` for `@watch` (`pnpm test`).
+ *
+ * Class fields shadowing reactive properties
+ * The same `count = 0` field is assigned through Lit's accessor with `useDefineForClassFields: false`,
+ * and defined on the instance, hiding the accessor, with `true`. `DetectShadowedProperties` (02-components)
+ * reports it: `shadowing.test.ts` connects `shadowing-experimental` and `shadowing-standard` with each
+ * `shadowingCheck.mode`, and expects the first update of the standard one only to fail in `throw` mode.
+ * They are not on the page: Lit's development build throws on the first update of `shadowing-standard`,
+ * `<shadowed-field>` (02-components) shows the bug instead.
  */
-@customElement('app-element')
+@customElement('app-lit-decorators')
 export class AppElement extends LitElement {
 
   render() {
     return html`
       <main>
-        <h1>Hello World</h1>
+        <h1>Decorators</h1>
+        <h3>Experimental vs standard decorators</h3>
+        <decorator-parity></decorator-parity>
+        <h3>Decorator toolkit</h3>
+        <toolkit-experimental></toolkit-experimental>
+        <toolkit-standard></toolkit-standard>
       </main>
     `;
   }
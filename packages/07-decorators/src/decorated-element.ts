@@ -0,0 +1,19 @@
+import { LitElement } from "lit";
+
+/**
+ * What the paired elements expose, so `decorator-parity.test.ts` can drive both the same way.
+ * `src/experimental/decorated-element.ts` and `src/standard/decorated-element.ts` implement it with the same decorators,
+ * diff them to see the migration: the standard build only adds the `accessor` keyword.
+ */
+export interface DecoratedElement extends LitElement {
+  count: number;
+  userName: string;
+  readonly clicks: number;
+  readonly button: HTMLButtonElement;
+  readonly missing: HTMLElement | null;
+  readonly items: NodeListOf<HTMLLIElement>;
+  readonly late: Promise<HTMLElement | null>;
+  readonly listItems: HTMLElement[];
+  readonly defaultNodes: Node[];
+  readonly wheelPrevented?: boolean;
+}
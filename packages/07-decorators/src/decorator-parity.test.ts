@@ -0,0 +1,106 @@
+import { LitElement } from "lit";
+import { afterEach, describe, expect, it } from "vitest";
+import { DecoratedElement } from "./decorated-element.ts";
+import "./experimental/decorated-element.ts";
+import "./standard/decorated-element.ts";
+
+type Observations = Record<string, unknown>;
+
+/** Connects a paired element with the same attributes and children for both builds */
+const mount = async (tagName: "decorated-experimental" | "decorated-standard") => {
+  document.body.innerHTML = `
+    <${tagName} user-name="Wilma"
+      ><span slot="list" class="item">Item A</span
+      ><span slot="list">Not an item</span
+      ><span slot="list" class="item">Item B</span
+      ><b>Default slot</b></${tagName}
+    >
+  `;
+  const element = document.querySelector(tagName)!;
+  await element.updateComplete;
+  return element;
+};
+
+/**
+ * Drives a decorated element through the same steps, and records what each decorator did.
+ * Values are plain data, so the observations of both builds can be compared with `toEqual`.
+ */
+const observe = async (el: DecoratedElement): Promise<Observations> => {
+  const ctor = el.constructor as typeof LitElement;
+  const observations: Observations = {
+    observedAttributes: ctor.observedAttributes,
+    "reactive properties": [...ctor.elementProperties.keys()],
+    // A class field defining an own property would shadow the reactive accessor
+    "reactive properties shadowed by own fields": Object.keys(el).filter((key) => ctor.elementProperties.has(key)),
+    "@property: initial value reflected": el.getAttribute("count"),
+    "@property: attribute option": el.userName,
+  };
+
+  el.count = 5;
+  await el.updateComplete;
+  observations["@property: reflect"] = el.getAttribute("count");
+  el.setAttribute("count", "7");
+  observations["@property: number converter"] = el.count;
+
+  observations["@query"] = el.button.id;
+  observations["@query without match"] = el.missing;
+  observations["@queryAll"] = [...el.items].map((li) => li.textContent);
+  observations["@queryAsync before the element is rendered"] = await el.late;
+
+  el.button.click();
+  observations["@state"] = el.clicks;
+  observations["@queryAsync after the update"] = (await el.late)?.id;
+  await el.updateComplete;
+  observations.rendered = el.renderRoot.querySelector("p")?.textContent;
+
+  observations["@queryAssignedElements"] = el.listItems.map((item) => item.textContent);
+  observations["@queryAssignedNodes"] = el.defaultNodes.map((node) => node.nodeName);
+
+  el.renderRoot.querySelector("#wheel")!.dispatchEvent(new WheelEvent("wheel", { cancelable: true }));
+  observations["@eventOptions: passive listener can't preventDefault()"] = el.wheelPrevented;
+
+  return observations;
+};
+
+afterEach(() => {
+  document.body.innerHTML = "";
+});
+
+describe("experimental and standard decorators", () => {
+  it("behave as the notes describe", async () => {
+    expect(await observe(await mount("decorated-experimental"))).toEqual({
+      observedAttributes: ["count", "user-name"],
+      "reactive properties": ["count", "userName", "_clicks"],
+      "reactive properties shadowed by own fields": [],
+      "@property: initial value reflected": "0",
+      "@property: attribute option": "Wilma",
+      "@property: reflect": "5",
+      "@property: number converter": 7,
+      "@query": "button",
+      "@query without match": null,
+      "@queryAll": ["1", "2", "3"],
+      "@queryAsync before the element is rendered": null,
+      "@state": 1,
+      "@queryAsync after the update": "late",
+      rendered: "Wilma: 7",
+      "@queryAssignedElements": ["Item A", "Item B"],
+      "@queryAssignedNodes": ["B"],
+      "@eventOptions: passive listener can't preventDefault()": false,
+    });
+  });
+
+  it("are compiled with both modes", () => {
+    // Standard decorators store their metadata on the class, under `Symbol.metadata`
+    const metadata = (tagName: string) => Object.getOwnPropertySymbols(customElements.get(tagName)!).map(String);
+
+    expect(metadata("decorated-experimental")).not.toContain("Symbol(metadata)");
+    expect(metadata("decorated-standard")).toContain("Symbol(metadata)");
+  });
+
+  it("behave the same in both builds", async () => {
+    const experimental = await observe(await mount("decorated-experimental"));
+    const standard = await observe(await mount("decorated-standard"));
+
+    expect(standard).toEqual(experimental);
+  });
+});
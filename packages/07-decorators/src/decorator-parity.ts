@@ -0,0 +1,44 @@
+import { LitElement, css, html } from "lit";
+import { customElement } from "lit/decorators.js";
+import "./experimental/decorated-element.ts";
+import "./standard/decorated-element.ts";
+
+/**
+ * Renders the experimental and the standard decorators elements with the same attributes and children, side by side.
+ * `decorator-parity.test.ts` runs the same steps on both and checks they behave the same,
+ * so a Lit or TypeScript upgrade that changes one build fails the tests.
+ */
+@customElement("decorator-parity")
+export class DecoratorParity extends LitElement {
+  render() {
+    const children = html`
+      <span slot="list" class="item">Item A</span>
+      <span slot="list">Not an item</span>
+      <span slot="list" class="item">Item B</span>
+      <b>Default slot</b>
+    `;
+    return html`
+      <div class="elements">
+        <decorated-experimental user-name="Wilma">${children}</decorated-experimental>
+        <decorated-standard user-name="Wilma">${children}</decorated-standard>
+      </div>
+    `;
+  }
+
+  static styles = css`
+    .elements {
+      display: flex;
+      gap: 1rem;
+    }
+    .elements > * {
+      flex: 1;
+      border: 1px dotted gray;
+    }
+  `;
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    "decorator-parity": DecoratorParity;
+  }
+}
@@ -0,0 +1,84 @@
+import { LitElement, html, nothing } from "lit";
+import {
+  customElement,
+  eventOptions,
+  property,
+  query,
+  queryAll,
+  queryAssignedElements,
+  queryAssignedNodes,
+  queryAsync,
+  state,
+} from "lit/decorators.js";
+import { DecoratedElement } from "../decorated-element.ts";
+
+/**
+ * Every built-in decorator, compiled with experimental decorators
+ * (`"experimentalDecorators": true`, `"useDefineForClassFields": false`, see `tsconfig.json`).
+ */
+@customElement("decorated-experimental")
+export class DecoratedExperimental extends LitElement implements DecoratedElement {
+  @property({ type: Number, reflect: true })
+  count = 0;
+
+  @property({ attribute: "user-name" })
+  userName = "Fred";
+
+  @state()
+  private _clicks = 0;
+
+  @query("#button")
+  button!: HTMLButtonElement;
+
+  @query("#missing")
+  missing!: HTMLElement | null;
+
+  @queryAll("li")
+  items!: NodeListOf<HTMLLIElement>;
+
+  @queryAsync("#late")
+  late!: Promise<HTMLElement | null>;
+
+  @queryAssignedElements({ slot: "list", selector: ".item" })
+  listItems!: HTMLElement[];
+
+  @queryAssignedNodes({ flatten: true })
+  defaultNodes!: Node[];
+
+  wheelPrevented?: boolean;
+
+  get clicks() {
+    return this._clicks;
+  }
+
+  render() {
+    return html`
+      <button id="button" @click=${this._onClick}>Clicked ${this._clicks} times</button>
+      <p>${this.userName}: ${this.count}</p>
+      <ul>
+        ${[1, 2, 3].map((i) => html`<li>${i}</li>`)}
+      </ul>
+      ${this._clicks ? html`<p id="late">Rendered after a click</p>` : nothing}
+      <slot name="list"></slot>
+      <slot></slot>
+      <div id="wheel" @wheel=${this._onWheel}>Wheel</div>
+    `;
+  }
+
+  private _onClick() {
+    this._clicks++;
+  }
+
+  // A passive listener can't cancel the event: preventDefault() is ignored
+  @eventOptions({ passive: true })
+  private _onWheel(e: WheelEvent) {
+    e.preventDefault();
+    this.wheelPrevented = e.defaultPrevented;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    "decorated-experimental": DecoratedExperimental;
+  }
+}
@@ -0,0 +1,28 @@
+import { LitElement, html } from "lit";
+import { customElement, property } from "lit/decorators.js";
+import { DetectShadowedProperties } from "@chapters/02-components/src/shadowed-properties.ts";
+
+/**
+ * A reactive property declared in `static properties` and initialized by a class field, next to a decorated `accessor`.
+ * Compiled with `useDefineForClassFields: false`, the `count` field is assigned through the reactive accessor.
+ * `src/standard/shadowing-element.ts` has the same source, where it shadows the accessor.
+ */
+@customElement("shadowing-experimental")
+export class ShadowingExperimental extends DetectShadowedProperties(LitElement) {
+  static properties = { count: { type: Number } };
+
+  count = 0;
+
+  @property()
+  accessor label = "label";
+
+  render() {
+    return html`<p>${this.label}: ${this.count}</p>`;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    "shadowing-experimental": ShadowingExperimental;
+  }
+}
@@ -0,0 +1,31 @@
+import { customElement } from "lit/decorators.js";
+import { PerformingUpdateElement } from "@chapters/04-lifecycle/src/08-performing-update.ts";
+import { watch } from "lit-decorators";
+
+/**
+ * The `performing-update-element` of 04-lifecycle, watching both of its properties.
+ * Its `shouldUpdate()` only lets updates through when `prop1` changed: a change of `prop2` alone
+ * doesn't reach `willUpdate()`, so its watcher is not called.
+ *
+ * Experimental decorators only: the 04-lifecycle properties are decorated without `accessor`.
+ */
+@customElement("watched-performing-update")
+export class WatchedPerformingUpdate extends PerformingUpdateElement {
+  watched: Array<[string, unknown, unknown]> = [];
+
+  @watch("prop1")
+  protected _prop1Changed(oldValue: unknown, newValue: unknown) {
+    this.watched.push(["prop1", oldValue, newValue]);
+  }
+
+  @watch("prop2")
+  protected _prop2Changed(oldValue: unknown, newValue: unknown) {
+    this.watched.push(["prop2", oldValue, newValue]);
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    "watched-performing-update": WatchedPerformingUpdate;
+  }
+}
@@ -0,0 +1,80 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { shadowedProperties, shadowingCheck } from "@chapters/02-components/src/shadowed-properties.ts";
+import { ShadowingExperimental } from "./experimental/shadowing-element.ts";
+import { ShadowingStandard } from "./standard/shadowing-element.ts";
+
+const SHADOWS_COUNT = "shadows its reactive properties count with class fields";
+
+// `warn` in development, Vitest included
+const defaultMode = shadowingCheck.mode;
+
+afterEach(() => {
+  shadowingCheck.mode = defaultMode;
+  document.body.innerHTML = "";
+});
+
+describe("useDefineForClassFields: false", () => {
+  it("assigns the field through the reactive accessor", () => {
+    expect(shadowedProperties(new ShadowingExperimental())).toEqual([]);
+  });
+
+  it("passes the check in throw mode, and updates when the field changes", async () => {
+    shadowingCheck.mode = "throw";
+    const element = new ShadowingExperimental();
+
+    document.body.append(element);
+    element.count = 1;
+    await element.updateComplete;
+
+    expect(element.renderRoot.querySelector("p")?.textContent).toBe("label: 1");
+  });
+});
+
+describe("useDefineForClassFields: true", () => {
+  it("defines the field on the instance, hiding the accessor, but not the `accessor` field", () => {
+    expect(shadowedProperties(new ShadowingStandard())).toEqual(["count"]);
+  });
+
+  it("fails its first update in throw mode, before Lit's development build checks it", async () => {
+    shadowingCheck.mode = "throw";
+    const element = new ShadowingStandard();
+
+    document.body.append(element);
+
+    await expect(element.updateComplete).rejects.toThrow(`<shadowing-standard> ${SHADOWS_COUNT}`);
+  });
+});
+
+describe("other modes", () => {
+  it("warn is the default in development", () => {
+    expect(defaultMode).toBe("warn");
+  });
+
+  beforeEach(() => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  // Connected elements with shadowed properties fail their first update in Lit's development build
+  const connect = async (...elements: ShadowingStandard[]) => {
+    document.body.append(...elements);
+    await Promise.all(elements.map((element) => element.updateComplete.catch(() => undefined)));
+  };
+
+  it("warn: logs once per element class", async () => {
+    await connect(new ShadowingStandard(), new ShadowingStandard());
+
+    expect(console.warn).toHaveBeenCalledOnce();
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining(SHADOWS_COUNT));
+  });
+
+  it("off: doesn't check", async () => {
+    shadowingCheck.mode = "off";
+
+    await expect(connect(new ShadowingStandard())).resolves.toBeUndefined();
+    expect(console.warn).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,86 @@
+import { LitElement, html, nothing } from "lit";
+import {
+  customElement,
+  eventOptions,
+  property,
+  query,
+  queryAll,
+  queryAssignedElements,
+  queryAssignedNodes,
+  queryAsync,
+  state,
+} from "lit/decorators.js";
+import { DecoratedElement } from "../decorated-element.ts";
+
+/**
+ * Every built-in decorator, compiled with standard decorators
+ * (`"experimentalDecorators": false`, `"useDefineForClassFields": true`, see `src/standard/tsconfig.json`).
+ * Decorated fields need the `accessor` keyword: a standard field decorator can't replace the field with
+ * a getter and setter, an accessor decorator can. `@eventOptions` decorates a method, it doesn't change.
+ */
+@customElement("decorated-standard")
+export class DecoratedStandard extends LitElement implements DecoratedElement {
+  @property({ type: Number, reflect: true })
+  accessor count = 0;
+
+  @property({ attribute: "user-name" })
+  accessor userName = "Fred";
+
+  @state()
+  private accessor _clicks = 0;
+
+  @query("#button")
+  accessor button!: HTMLButtonElement;
+
+  @query("#missing")
+  accessor missing!: HTMLElement | null;
+
+  @queryAll("li")
+  accessor items!: NodeListOf<HTMLLIElement>;
+
+  @queryAsync("#late")
+  accessor late!: Promise<HTMLElement | null>;
+
+  @queryAssignedElements({ slot: "list", selector: ".item" })
+  accessor listItems!: HTMLElement[];
+
+  @queryAssignedNodes({ flatten: true })
+  accessor defaultNodes!: Node[];
+
+  wheelPrevented?: boolean;
+
+  get clicks() {
+    return this._clicks;
+  }
+
+  render() {
+    return html`
+      <button id="button" @click=${this._onClick}>Clicked ${this._clicks} times</button>
+      <p>${this.userName}: ${this.count}</p>
+      <ul>
+        ${[1, 2, 3].map((i) => html`<li>${i}</li>`)}
+      </ul>
+      ${this._clicks ? html`<p id="late">Rendered after a click</p>` : nothing}
+      <slot name="list"></slot>
+      <slot></slot>
+      <div id="wheel" @wheel=${this._onWheel}>Wheel</div>
+    `;
+  }
+
+  private _onClick() {
+    this._clicks++;
+  }
+
+  // A passive listener can't cancel the event: preventDefault() is ignored
+  @eventOptions({ passive: true })
+  private _onWheel(e: WheelEvent) {
+    e.preventDefault();
+    this.wheelPrevented = e.defaultPrevented;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    "decorated-standard": DecoratedStandard;
+  }
+}
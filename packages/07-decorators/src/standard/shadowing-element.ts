@@ -0,0 +1,28 @@
+import { LitElement, html } from "lit";
+import { customElement, property } from "lit/decorators.js";
+import { DetectShadowedProperties } from "@chapters/02-components/src/shadowed-properties.ts";
+
+/**
+ * A reactive property declared in `static properties` and initialized by a class field, next to a decorated `accessor`.
+ * Compiled with `useDefineForClassFields: true`, the `count` field is defined on the instance and shadows
+ * the reactive accessor: changing `count` never updates the element. The `accessor` field is not affected.
+ */
+@customElement("shadowing-standard")
+export class ShadowingStandard extends DetectShadowedProperties(LitElement) {
+  static properties = { count: { type: Number } };
+
+  count = 0;
+
+  @property()
+  accessor label = "label";
+
+  render() {
+    return html`<p>${this.label}: ${this.count}</p>`;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    "shadowing-standard": ShadowingStandard;
+  }
+}
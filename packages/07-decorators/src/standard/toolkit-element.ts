@@ -0,0 +1,58 @@
+import { html } from "lit";
+import { customElement, property } from "lit/decorators.js";
+import { ConstructorElement } from "@chapters/04-lifecycle/src/01-constructor.ts";
+import { bound, computed, debounce, watch } from "lit-decorators";
+import { ToolkitSubject } from "../toolkit-subject.ts";
+
+/**
+ * The `constructor-element` of 04-lifecycle, with every decorator of lit-decorators (standard decorators).
+ */
+@customElement("toolkit-standard")
+export class ToolkitStandard extends ConstructorElement implements ToolkitSubject {
+  @property()
+  accessor first = "Fred";
+
+  @property()
+  accessor last = "Flintstone";
+
+  watched: Array<[string, unknown, unknown]> = [];
+  computations = 0;
+  saves = 0;
+
+  @watch("first")
+  protected _firstChanged(oldValue: unknown, newValue: unknown) {
+    this.watched.push(["first", oldValue, newValue]);
+  }
+
+  @watch("last", { waitUntilFirstUpdate: true })
+  protected _lastChanged(oldValue: unknown, newValue: unknown) {
+    this.watched.push(["last", oldValue, newValue]);
+  }
+
+  @computed("first", "last")
+  get fullName() {
+    this.computations++;
+    return `${this.first} ${this.last}`;
+  }
+
+  @debounce(50)
+  save() {
+    this.saves++;
+  }
+
+  @bound
+  whoAmI() {
+    return this;
+  }
+
+  render() {
+    return html`${super.render()}
+      <div>${this.fullName}</div>`;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    "toolkit-standard": ToolkitStandard;
+  }
+}
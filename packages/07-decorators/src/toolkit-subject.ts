@@ -0,0 +1,19 @@
+import { LitElement } from "lit";
+
+/**
+ * What the toolkit subjects expose, so `toolkit.test.ts` runs the same tests on both decorator builds.
+ * `src/experimental/toolkit-element.ts` and `src/standard/toolkit-element.ts` only differ by the `accessor` keyword.
+ */
+export interface ToolkitSubject extends LitElement {
+  first: string;
+  last: string;
+  /** `[property, oldValue, newValue]` for each call of a `@watch` method */
+  readonly watched: Array<[string, unknown, unknown]>;
+  readonly fullName: string;
+  /** How many times the `@computed` getter ran */
+  readonly computations: number;
+  save(): void;
+  /** How many times the `@debounce` method ran */
+  readonly saves: number;
+  whoAmI(): unknown;
+}
@@ -0,0 +1,135 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import "./experimental/toolkit-element.ts";
+import "./experimental/watched-performing-update.ts";
+import "./standard/toolkit-element.ts";
+import { ToolkitSubject } from "./toolkit-subject.ts";
+
+/** Connects a new element and waits for its first update */
+const mount = async <K extends "toolkit-experimental" | "toolkit-standard" | "watched-performing-update">(
+  tagName: K
+) => {
+  const element = document.createElement(tagName);
+  document.body.append(element);
+  await element.updateComplete;
+  return element;
+};
+
+afterEach(() => {
+  document.body.innerHTML = "";
+});
+
+// The same tests on the `constructor-element` of 04-lifecycle, decorated in each mode
+describe.each(["toolkit-experimental", "toolkit-standard"] as const)("%s", (tagName) => {
+  let element: ToolkitSubject;
+
+  beforeEach(async () => {
+    element = await mount(tagName);
+  });
+
+  describe("@watch", () => {
+    it("is called for the initial value, unless waitUntilFirstUpdate", () => {
+      expect(element.watched).toEqual([["first", undefined, "Fred"]]);
+    });
+
+    it("reports the changes between two updates once, from the value of the last update", async () => {
+      element.first = "Wilma";
+      element.first = "Barney";
+      await element.updateComplete;
+
+      expect(element.watched.slice(1)).toEqual([["first", "Fred", "Barney"]]);
+    });
+
+    it("reports the changes after the first update with waitUntilFirstUpdate", async () => {
+      element.last = "Rubble";
+      await element.updateComplete;
+
+      expect(element.watched.slice(1)).toEqual([["last", "Flintstone", "Rubble"]]);
+    });
+  });
+
+  describe("@computed", () => {
+    it("doesn't run the getter again while the dependencies are the same", () => {
+      const before = element.computations;
+
+      expect([element.fullName, element.fullName]).toEqual(["Fred Flintstone", "Fred Flintstone"]);
+      expect(element.computations - before).toBe(0);
+    });
+
+    it("runs the getter once after a dependency changed", () => {
+      const before = element.computations;
+      element.first = "Betty";
+
+      expect([element.fullName, element.fullName]).toEqual(["Betty Flintstone", "Betty Flintstone"]);
+      expect(element.computations - before).toBe(1);
+    });
+  });
+
+  describe("@debounce", () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("runs the calls made within the wait once, after it", () => {
+      element.save();
+      vi.advanceTimersByTime(40);
+      element.save();
+      element.save();
+
+      vi.advanceTimersByTime(40);
+      expect(element.saves).toBe(0);
+
+      vi.advanceTimersByTime(10);
+      expect(element.saves).toBe(1);
+    });
+
+    it("has a timer per instance", async () => {
+      const other = await mount(tagName);
+
+      element.save();
+      other.save();
+      vi.advanceTimersByTime(50);
+
+      expect([element.saves, other.saves]).toEqual([1, 1]);
+    });
+  });
+
+  describe("@bound", () => {
+    it("keeps the this of a detached method", () => {
+      const { whoAmI } = element;
+
+      expect(whoAmI()).toBe(element);
+    });
+
+    it("returns the same function on every read, so removeEventListener() removes it", () => {
+      expect(element.whoAmI).toBe(element.whoAmI);
+    });
+  });
+});
+
+// `performing-update-element` of 04-lifecycle only updates when `prop1` changed
+describe("watched-performing-update", () => {
+  it("reports both initial values", async () => {
+    const element = await mount("watched-performing-update");
+
+    expect(element.watched).toEqual([
+      ["prop1", undefined, ""],
+      ["prop2", undefined, "never changes"],
+    ]);
+  });
+
+  it("doesn't report a change rejected by shouldUpdate(), nor with the next update", async () => {
+    const element = await mount("watched-performing-update");
+
+    element.prop2 = "changed";
+    await element.updateComplete;
+    expect(element.watched).toHaveLength(2);
+
+    element.prop1 = "changed too";
+    await element.updateComplete;
+    expect(element.watched.slice(2)).toEqual([["prop1", "", "changed too"]]);
+  });
+});
@@ -0,0 +1,17 @@
+import { fileURLToPath } from "node:url";
+import { defineConfig } from "vite";
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      // The toolkit tests extend the 04-lifecycle elements, e.g. `@chapters/04-lifecycle/src/01-constructor.ts`
+      "@chapters": fileURLToPath(new URL("..", import.meta.url)),
+    },
+    dedupe: ["lit"],
+  },
+  esbuild: {
+    // Vite transforms TypeScript for `esnext`, which leaves standard decorators and `accessor` as they are
+    // (no browser runs them yet). ES2022 makes esbuild compile them, like `tsc` does for src/standard.
+    target: "es2022",
+  },
+});
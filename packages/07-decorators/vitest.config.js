@@ -0,0 +1,6 @@
+import { defineConfig, mergeConfig } from "vitest/config";
+import { dom } from "../../vitest.shared.js";
+import viteConfig from "./vite.config.js";
+
+// The elements are mounted in a headless DOM, compiled like the page: src/standard with standard decorators
+export default mergeConfig(viteConfig, defineConfig(dom));
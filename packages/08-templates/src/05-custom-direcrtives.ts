@@ -2,7 +2,8 @@ import { ChildPart, LitElement } from "lit";
 import { html } from "lit";
 import { AsyncDirective } from "lit/async-directive.js";
 import { customElement } from "lit/decorators.js";
-import { Directive, directive, PartInfo } from "lit/directive.js";
+import { Directive, directive, PartInfo, PartType } from "lit/directive.js";
+import { assertPartType } from "lit-directives";
 
 /**
  * Custom Directives
@@ -76,13 +77,25 @@ class MyDirective extends Directive {
    * This can be useful for providing error checking in the cases where a directive is designed to be used only in specific types of expressions
    *
    * Constructor is only run the first time a given directive is used in an expression
+   *
+   * `assertPartType()` comes from the `lit-directives` package, where the reusable directives of these notes live
+   * (`subscribe`, `intersect`, `debounceValue`, `highlight`): it throws a readable error when the directive is used in
+   * an unsupported expression, e.g. `<div class=${myDirective()}>`.
    */
   constructor(partInfo: PartInfo) {
     super(partInfo);
-    console.log("MyDirective created: ", partInfo);
+    assertPartType("myDirective", partInfo, [PartType.CHILD]);
+  }
+
+  render() {
+    this.value++;
+    return `Rendered ${this.value} time${this.value === 1 ? "" : "s"}`;
   }
 }
 
+// A directive class is only usable in templates once wrapped with directive()
+export const myDirective = directive(MyDirective);
+
 /**
  * In addition to referring to state on the directive instance,
  * the render() method can also accept arbitrary arguments passed in to the directive function
@@ -131,6 +144,7 @@ class AttributeLogger extends Directive {
    *  all Part types provide access to the DOM element associated with the expression (or parentNode, in the case of ChildPart
    *
    * To be compatible with SSR, directives should return values from render() and only use update() for logic that requires access to the DOM.
+   * The 12-ssr tests flag this directive: the server never calls update(), it renders an empty string.
    */
   update(part: ChildPart) {
     this.attributeNames = (part.parentNode as Element)
@@ -180,6 +194,10 @@ export const attributeLoggerTemplate = html`<div a b>
  *
  * Note that it is possible for an AsyncDirective to continue receiving updates while it is disconnected if its containing tree is re-rendered.
  * Because of this, update and/or render should always check the this.isConnected flag before subscribing to any long-held resources to prevent memory leaks.
+ *
+ * `ResolvePromise` only shows `setValue()`, don't use it to render data: it ignores rejections,
+ * renders whichever promise resolves last (stale results) and never cancels anything.
+ * See the 11-async-data chapter for `Task` and an async controller that handle all three.
  */
 class ResolvePromise extends AsyncDirective {
   render(promise: Promise<unknown>) {
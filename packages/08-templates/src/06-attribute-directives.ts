@@ -0,0 +1,175 @@
+import { LitElement, css, html } from "lit";
+import { customElement, property, state } from "lit/decorators.js";
+import { classMap } from "lit/directives/class-map.js";
+import { ifDefined } from "lit/directives/if-defined.js";
+import { live } from "lit/directives/live.js";
+import { styleMap } from "lit/directives/style-map.js";
+
+/**
+ * classMap
+ * Sets a list of classes from an object: a class is added when its value is truthy, removed when it is falsy.
+ *
+ * Pitfall: `class=${this.active ? "active" : ""}` replaces the whole attribute, every class has to be in the string.
+ * `classMap` only adds and removes the classes it manages, the classes added by other code are kept.
+ *
+ * Edge cases:
+ * - The static classes of the attribute (`class="card ${classMap(...)}"`) always stay:
+ *   `{ card: false }` doesn't remove `card`.
+ * - `classMap` must be the only expression of the `class` attribute: `class="${classMap(a)} ${b}"` throws.
+ * - Values are tested for truthiness: `{ empty: 0 }` doesn't add `empty`.
+ */
+@customElement("class-map-element")
+export class ClassMapElement extends LitElement {
+  @state()
+  private _active = false;
+
+  render() {
+    const classes = { active: this._active, card: this._active, empty: 0 };
+    return html`
+      <div class="card ${classMap(classes)}">
+        <button @click=${() => (this._active = !this._active)}>
+          Toggle active
+        </button>
+        <code></code>
+      </div>
+    `;
+  }
+
+  updated() {
+    // The classes are only known once classMap has updated the element
+    const code = this.renderRoot.querySelector("code")!;
+    code.textContent = this.renderRoot.querySelector("div")!.className;
+  }
+
+  static styles = css`
+    .card {
+      border: 1px dotted gray;
+      padding: 0.5rem;
+    }
+    .active {
+      background-color: #e0ffe0;
+    }
+    .empty {
+      background-color: crimson;
+    }
+  `;
+}
+
+/**
+ * styleMap
+ * Sets a list of style properties from an object.
+ *
+ * Pitfall: `style="color: ${color}"` is a string: a property set to `undefined` renders `color: undefined`,
+ * and a property removed from the string is left on the element when it was set by other code.
+ * `styleMap` sets and removes each property on `element.style`.
+ *
+ * Edge cases:
+ * - Property names are camelCase (`backgroundColor`) or dash-case (`"background-color"`).
+ * - Custom properties keep their `--` prefix (`"--accent"`), they are set with `style.setProperty()`.
+ * - `null` or `undefined` removes the property.
+ * - A value ending with `!important` is set with the important priority.
+ * - Like `classMap`, it must be the only expression of the `style` attribute.
+ */
+@customElement("style-map-element")
+export class StyleMapElement extends LitElement {
+  @state()
+  private _highlight = false;
+
+  render() {
+    const styles = {
+      "--accent": this._highlight ? "darkorange" : "steelblue",
+      backgroundColor: this._highlight ? "lightyellow" : undefined,
+      "font-weight": this._highlight ? "bold !important" : null,
+    };
+    return html`
+      <p style=${styleMap(styles)}>
+        <span>Styled with styleMap</span>
+        <button @click=${() => (this._highlight = !this._highlight)}>
+          Toggle highlight
+        </button>
+      </p>
+    `;
+  }
+
+  static styles = css`
+    p {
+      border-left: 4px solid var(--accent);
+      padding-left: 0.5rem;
+    }
+  `;
+}
+
+/**
+ * ifDefined
+ * Sets the attribute when the value is defined, removes it when the value is `undefined` or `null`.
+ *
+ * Pitfall: `src=${this.src}` with an `undefined` src renders `src=""`: the attribute is still there, empty.
+ * An empty `src` is a broken image, an empty `href` links to the current page, an empty `aria-label` hides the name.
+ * `ifDefined(value)` is the same as `value ?? nothing`, see `conditional-nothing`.
+ */
+@customElement("if-defined-element")
+export class IfDefinedElement extends LitElement {
+  @property()
+  src?: string;
+
+  render() {
+    return html`
+      <img alt="Lit logo" src=${ifDefined(this.src)} width="32" height="32" />
+      <button @click=${this._toggle}>${this.src ? "Remove" : "Set"} src</button>
+      <code>${this.src ? `src="${this.src}"` : "no src attribute"}</code>
+    `;
+  }
+
+  private _toggle() {
+    this.src = this.src
+      ? undefined
+      : new URL("./assets/lit.svg", import.meta.url).href;
+  }
+}
+
+/**
+ * live
+ * Compares the value to bind with the live value of the element, instead of the last value rendered.
+ *
+ * Pitfall: Lit skips a binding whose value didn't change since the last render. When the user types in an input
+ * bound with `.value=${this.text}`, the element's value changes but `this.text` doesn't:
+ * setting `this.text = ""` to clear it is not a change, and the typed text stays.
+ * With `.value=${live(this.text)}` the value is compared with `input.value`, so the input is cleared.
+ *
+ * `live` reads the element on every render: use it only when the element can be changed from outside the template.
+ */
+@customElement("live-element")
+export class LiveElement extends LitElement {
+  @state()
+  private _text = "";
+
+  render() {
+    return html`
+      <p>Type in both inputs, then clear them.</p>
+      <label>
+        Without live
+        <input .value=${this._text} />
+      </label>
+      <label>
+        With live
+        <input .value=${live(this._text)} />
+      </label>
+      <button @click=${this._clear}>Clear</button>
+    `;
+  }
+
+  private _clear() {
+    this._text = "";
+    // `_text` was already "", the update has to be requested
+    this.requestUpdate();
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    "class-map-element": ClassMapElement;
+    "style-map-element": StyleMapElement;
+    "if-defined-element": IfDefinedElement;
+    "live-element": LiveElement;
+  }
+}
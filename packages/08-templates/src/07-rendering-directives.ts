@@ -0,0 +1,256 @@
+import { LitElement, css, html, svg } from "lit";
+import { customElement, property, state } from "lit/decorators.js";
+import { choose } from "lit/directives/choose.js";
+import { guard } from "lit/directives/guard.js";
+import { join } from "lit/directives/join.js";
+import { keyed } from "lit/directives/keyed.js";
+import { map } from "lit/directives/map.js";
+import { range } from "lit/directives/range.js";
+import { templateContent } from "lit/directives/template-content.js";
+import { unsafeHTML } from "lit/directives/unsafe-html.js";
+import { unsafeSVG } from "lit/directives/unsafe-svg.js";
+import { when } from "lit/directives/when.js";
+
+/**
+ * when and choose
+ * `when(condition, trueCase, falseCase)` and `choose(value, cases, defaultCase)` render a template
+ * from a condition or a value, like a ternary or a `switch`, inside an expression.
+ *
+ * Pitfall: a helper taking templates (`ifElse(user, html`${user.name}`, html`Guest`)`) evaluates both of them:
+ * `user.name` throws when there is no user. The cases of `when` and `choose` are functions,
+ * only the one rendered is called.
+ */
+@customElement("when-choose-element")
+export class WhenChooseElement extends LitElement {
+  @property({ attribute: false })
+  user?: { name: string };
+
+  @property()
+  status: "loading" | "ready" | "error" = "ready";
+
+  render() {
+    return html`
+      <p>
+        ${when(
+          this.user,
+          (user) => html`Hello ${user.name}`,
+          () => html`Hello guest`
+        )}
+      </p>
+      <p>
+        ${choose(
+          this.status,
+          [
+            ["loading", () => html`⏳ Loading`],
+            ["ready", () => html`✅ Ready`],
+          ],
+          () => html`❌ Something went wrong`
+        )}
+      </p>
+    `;
+  }
+}
+
+/**
+ * map, join and range
+ * - `map(items, f)` calls `f(item, index)` for any iterable: `Set`, `Map`, generators.
+ *   Pitfall: `Array.prototype.map` doesn't exist on a `Set`, `[...set].map()` copies it first.
+ * - `join(items, joiner)` renders a separator between the items.
+ *   Pitfall: `items.join(", ")` converts templates to strings, they render `[object Object]`.
+ * - `range(end)`, `range(start, end, step)` yields numbers to render `n` times.
+ *   Pitfall: `new Array(3).map(...)` renders nothing, `map` skips the holes of a sparse array.
+ */
+@customElement("map-join-range-element")
+export class MapJoinRangeElement extends LitElement {
+  @property({ attribute: false })
+  tags = new Set(["lit", "vite", "typescript"]);
+
+  @property({ type: Number })
+  rating = 3;
+
+  render() {
+    return html`
+      <ul>
+        ${map(this.tags, (tag, index) => html`<li>${index}: ${tag}</li>`)}
+      </ul>
+      <p class="tags">
+        ${join(
+          map(this.tags, (tag) => html`<a href="#${tag}">${tag}</a>`),
+          html`<span> · </span>`
+        )}
+      </p>
+      <p class="rating">
+        ${map(range(5), (i) => (i < this.rating ? "★" : "☆"))}
+      </p>
+      <p class="sparse">${new Array(3).map(() => "☆")}</p>
+    `;
+  }
+}
+
+/**
+ * keyed
+ * Renders the template again, with new DOM, when the key changes.
+ *
+ * Pitfall: Lit reuses the DOM of a template rendered in the same place, and only updates its expressions.
+ * The state that isn't bound to an expression stays: text typed in an input, focus, scroll position,
+ * a running CSS animation. Switching user keeps the notes typed for the previous one.
+ * `keyed(user.id, template)` discards that DOM when the user changes.
+ */
+@customElement("keyed-element")
+export class KeyedElement extends LitElement {
+  private _users = [
+    { id: 1, name: "Fred" },
+    { id: 2, name: "Barney" },
+  ];
+
+  @state()
+  private _user = this._users[0];
+
+  render() {
+    const profile = html`
+      <label>
+        Notes about ${this._user.name}
+        <input />
+      </label>
+    `;
+    return html`
+      ${this._users.map(
+        (user) => html`
+          <button
+            ?disabled=${user === this._user}
+            @click=${() => (this._user = user)}
+          >
+            ${user.name}
+          </button>
+        `
+      )}
+      <p>Without keyed: ${profile}</p>
+      <p>With keyed: ${keyed(this._user.id, profile)}</p>
+    `;
+  }
+}
+
+/**
+ * Counts the calls of an expensive function, to show how often guard calls it.
+ */
+let computations = 0;
+const sortItems = (items: string[]) => {
+  computations++;
+  return [...items].sort((a, b) => a.localeCompare(b));
+};
+
+/**
+ * guard
+ * Only re-evaluates a template when one of its dependencies changed (compared with `===`).
+ *
+ * Pitfall: `render()` runs on every update, whatever property changed:
+ * an expensive computation in it runs again when an unrelated property changes (here, each tick).
+ * `guard([this.items], () => ...)` renders the same result until `items` is another array.
+ * Mutating the array in place doesn't change it for `guard`, assign a new array.
+ */
+@customElement("guard-element")
+export class GuardElement extends LitElement {
+  @property({ attribute: false })
+  items = ["pear", "apple", "fig"];
+
+  @state()
+  private _ticks = 0;
+
+  render() {
+    return html`
+      <p>Ticks: ${this._ticks}, sorted <output></output> times</p>
+      <button @click=${() => this._ticks++}>Tick</button>
+      <button @click=${() => (this.items = [...this.items, "banana"])}>
+        Add an item
+      </button>
+      ${guard(
+        [this.items],
+        () => html`<p>${join(sortItems(this.items), ", ")}</p>`
+      )}
+    `;
+  }
+
+  updated() {
+    // guard calls the function while committing the template, after the expressions above were evaluated
+    this.renderRoot.querySelector("output")!.value = String(computations);
+  }
+}
+
+/**
+ * unsafeHTML and unsafeSVG
+ * Render a string as markup instead of text.
+ *
+ * Pitfall: an expression renders a string as text, so markup from a CMS or a markdown renderer shows its tags.
+ * `unsafeHTML(string)` parses it as HTML, `unsafeSVG(string)` as SVG elements, to use inside an `<svg>`:
+ * `unsafeHTML` there creates elements in the HTML namespace, which the browser doesn't draw.
+ *
+ * Both are unsafe: the string is not sanitized, `<img src=x onerror=...>` runs its handler.
+ * Only render trusted content, or sanitize it first.
+ */
+@customElement("unsafe-element")
+export class UnsafeElement extends LitElement {
+  // Trusted, static content
+  private _html = "<em>Rendered</em> with <strong>unsafeHTML</strong>";
+  private _svg = '<circle cx="12" cy="12" r="10" fill="#324fff"></circle>';
+
+  render() {
+    return html`
+      <p>${this._html}</p>
+      <p>${unsafeHTML(this._html)}</p>
+      <svg width="24" height="24">${unsafeSVG(this._svg)}</svg>
+      <svg width="24" height="24">
+        ${svg`<rect width="20" height="20" x="2" y="2" fill="#00e8ff"></rect>`}
+      </svg>
+    `;
+  }
+}
+
+/**
+ * A template defined once for the whole page, like a `<template>` element in `index.html`.
+ * Created on first use, so the module can be imported where there is no `document` (12-ssr).
+ */
+let badge: HTMLTemplateElement | undefined;
+const badgeTemplate = () => {
+  if (!badge) {
+    badge = document.createElement("template");
+    badge.innerHTML = `<span class="badge">🔥 New</span>`;
+  }
+  return badge;
+};
+
+/**
+ * templateContent
+ * Renders the content of a `<template>` element.
+ *
+ * Pitfall: appending `template.content` moves its nodes: the template is empty afterwards,
+ * and the second element using it renders nothing.
+ * `templateContent(template)` renders a clone of the content, the template can be rendered any number of times.
+ * The content is not sanitized either: only use templates from your own page.
+ */
+@customElement("template-content-element")
+export class TemplateContentElement extends LitElement {
+  render() {
+    return html`
+      <p>First: ${templateContent(badgeTemplate())}</p>
+      <p>Second: ${templateContent(badgeTemplate())}</p>
+    `;
+  }
+
+  static styles = css`
+    .badge {
+      background-color: #ffe0e0;
+      padding: 0 0.25rem;
+    }
+  `;
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    "when-choose-element": WhenChooseElement;
+    "map-join-range-element": MapJoinRangeElement;
+    "keyed-element": KeyedElement;
+    "guard-element": GuardElement;
+    "unsafe-element": UnsafeElement;
+    "template-content-element": TemplateContentElement;
+  }
+}
@@ -0,0 +1,97 @@
+import { LitElement, html } from "lit";
+import { customElement, state } from "lit/decorators.js";
+import { asyncAppend } from "lit/directives/async-append.js";
+import { asyncReplace } from "lit/directives/async-replace.js";
+import { until } from "lit/directives/until.js";
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * until
+ * Renders a placeholder until a promise resolves, then its value:
+ * `until(promise, placeholder)`. Values on the left have priority, a plain value renders immediately.
+ *
+ * Pitfall: a promise rendered directly renders `[object Promise]`.
+ * Pitfall: `until(fetchUser())` in `render()` starts a new request on every update, and shows the placeholder again.
+ * Keep the promise in a property, and replace it only when its arguments change (see 11-async-data).
+ */
+@customElement("until-element")
+export class UntilElement extends LitElement {
+  @state()
+  private _user = this._fetchUser();
+
+  @state()
+  private _renders = 0;
+
+  render() {
+    return html`
+      <p>${this._user}</p>
+      <p>${until(this._user, html`⏳ Loading user…`)}</p>
+      <p>Rendered ${this._renders} times</p>
+      <button @click=${() => this._renders++}>Render again</button>
+      <button @click=${() => (this._user = this._fetchUser())}>Reload</button>
+    `;
+  }
+
+  private async _fetchUser() {
+    await wait(1000);
+    return html`<strong>Fred Flintstone</strong>`;
+  }
+}
+
+async function* countdown(from: number) {
+  for (let i = from; i >= 0; i--) {
+    yield i;
+    await wait(1000);
+  }
+}
+
+async function* logLines() {
+  const lines = ["Connecting…", "Connected", "Downloading…", "Done"];
+  for (const line of lines) {
+    await wait(700);
+    yield line;
+  }
+}
+
+/**
+ * asyncReplace and asyncAppend
+ * Render the values of an async iterable (an async generator, a stream) as they come:
+ * `asyncReplace` renders the last value, `asyncAppend` renders all of them.
+ * The optional second argument maps each value to a template.
+ *
+ * Pitfall: an async generator is iterated once. `asyncReplace(countdown(10))` in `render()` starts a new
+ * countdown on every update: keep the iterable in a property, and assign a new one to restart.
+ *
+ * Both are async directives: iteration pauses while the element is disconnected, and resumes when it is reconnected.
+ */
+@customElement("async-iterable-element")
+export class AsyncIterableElement extends LitElement {
+  @state()
+  private _countdown = countdown(10);
+
+  @state()
+  private _log = logLines();
+
+  render() {
+    return html`
+      <p>Countdown: ${asyncReplace(this._countdown)}</p>
+      <ul>
+        ${asyncAppend(this._log, (line) => html`<li>${line}</li>`)}
+      </ul>
+      <button @click=${this._restart}>Restart</button>
+    `;
+  }
+
+  private _restart() {
+    this._countdown = countdown(10);
+    this._log = logLines();
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    "until-element": UntilElement;
+    "async-iterable-element": AsyncIterableElement;
+  }
+}
@@ -0,0 +1,185 @@
+import { LitElement, css, html, nothing } from "lit";
+import { customElement, state } from "lit/decorators.js";
+import {
+  Subscribable,
+  debounceValue,
+  highlight,
+  intersect,
+  subscribe,
+} from "lit-directives";
+
+/**
+ * A minimal `BehaviorSubject`: emits its current value on subscribe, then every new value.
+ */
+class Store<T> implements Subscribable<T> {
+  private _subscribers = new Set<(value: T) => void>();
+  private _value: T;
+
+  constructor(value: T) {
+    this._value = value;
+  }
+
+  get size() {
+    return this._subscribers.size;
+  }
+
+  set(value: T) {
+    this._value = value;
+    this._subscribers.forEach((next) => next(value));
+  }
+
+  subscribe(next: (value: T) => void) {
+    this._subscribers.add(next);
+    next(this._value);
+    return { unsubscribe: () => this._subscribers.delete(next) };
+  }
+}
+
+/**
+ * The time, ticking only while someone subscribes to it.
+ * `subscribers` counts them: it goes back to 0 when the directive unsubscribes on disconnect.
+ */
+const subscribers = new Store(0);
+const time = new Store(new Date().toLocaleTimeString());
+let interval: ReturnType<typeof setInterval> | undefined;
+const clock: Subscribable<string> = {
+  subscribe(next) {
+    if (time.size === 0) {
+      interval = setInterval(() => time.set(new Date().toLocaleTimeString()), 1000);
+    }
+    const subscription = time.subscribe(next);
+    subscribers.set(time.size);
+    return {
+      unsubscribe() {
+        subscription.unsubscribe();
+        if (time.size === 0) {
+          clearInterval(interval);
+        }
+        subscribers.set(time.size);
+      },
+    };
+  },
+};
+
+/**
+ * subscribe
+ * Hiding the clock removes its expression: the directive is disconnected and unsubscribes, the clock stops.
+ * Without `disconnected()`, the hidden clock would keep ticking, and every show would add a subscriber.
+ */
+@customElement("subscribe-element")
+export class SubscribeElement extends LitElement {
+  @state()
+  private _show = true;
+
+  render() {
+    return html`
+      <button @click=${() => (this._show = !this._show)}>
+        ${this._show ? "Hide" : "Show"} the clock
+      </button>
+      ${this._show ? html`<p>🕒 ${subscribe(clock)}</p>` : nothing}
+      <p>Subscribers: ${subscribe(subscribers)}</p>
+    `;
+  }
+}
+
+/**
+ * intersect
+ * Each item reports whether it is visible in the scrolling list.
+ */
+@customElement("intersect-element")
+export class IntersectElement extends LitElement {
+  @state()
+  private _visible = new Set<number>();
+
+  render() {
+    return html`
+      <p>Visible: ${[...this._visible].sort((a, b) => a - b).join(", ")}</p>
+      <ol>
+        ${Array.from(
+          { length: 20 },
+          (_, i) => html`
+            <li ${intersect((entry) => this._setVisible(i, entry.isIntersecting), { threshold: 1 })}>
+              Item ${i}
+            </li>
+          `
+        )}
+      </ol>
+    `;
+  }
+
+  private _setVisible(index: number, visible: boolean) {
+    const next = new Set(this._visible);
+    if (visible) {
+      next.add(index);
+    } else {
+      next.delete(index);
+    }
+    this._visible = next;
+  }
+
+  static styles = css`
+    ol {
+      height: 6rem;
+      overflow-y: auto;
+      border: 1px dotted gray;
+    }
+  `;
+}
+
+/**
+ * debounceValue
+ * The element renders on every keystroke, the debounced value only changes when typing pauses.
+ */
+@customElement("debounce-element")
+export class DebounceElement extends LitElement {
+  @state()
+  private _query = "";
+
+  render() {
+    return html`
+      <input
+        placeholder="Type quickly"
+        .value=${this._query}
+        @input=${(e: Event) => (this._query = (e.target as HTMLInputElement).value)}
+      />
+      <p>Immediate: ${this._query}</p>
+      <p>Debounced: ${debounceValue(this._query, 500)}</p>
+    `;
+  }
+}
+
+const countries = ["Italy", "France", "Germany", "Spain", "Portugal", "Ireland", "Finland"];
+
+/**
+ * highlight
+ * The query is matched case-insensitively, and rendered as text: `<b>` highlights nothing.
+ */
+@customElement("highlight-element")
+export class HighlightElement extends LitElement {
+  @state()
+  private _query = "land";
+
+  render() {
+    const matches = countries.filter((country) =>
+      country.toLowerCase().includes(this._query.toLowerCase())
+    );
+    return html`
+      <input
+        .value=${this._query}
+        @input=${(e: Event) => (this._query = (e.target as HTMLInputElement).value)}
+      />
+      <ul>
+        ${matches.map((country) => html`<li>${highlight(country, this._query)}</li>`)}
+      </ul>
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    "subscribe-element": SubscribeElement;
+    "intersect-element": IntersectElement;
+    "debounce-element": DebounceElement;
+    "highlight-element": HighlightElement;
+  }
+}
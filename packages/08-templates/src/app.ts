@@ -5,9 +5,14 @@ import "./02-caching-template-results.ts";
 import "./03-conditional-nothing.ts";
 import "./04-list.ts";
 import "./05-custom-direcrtives.ts";
+import "./06-attribute-directives.ts";
+import "./07-rendering-directives.ts";
+import "./08-async-directives.ts";
+import "./09-directive-library.ts";
 import {
   attributeLogger,
   max,
+  myDirective,
   resolvePromise,
 } from "./05-custom-direcrtives.ts";
 
@@ -21,7 +26,7 @@ const TEN = 10;
  * In this case, you can use the cache directive.
  * The cache directive caches DOM for templates that aren't being rendered currently.
  */
-@customElement("app-element")
+@customElement("app-lit-templates")
 export class AppElement extends LitElement {
   someNumber = NINE;
 
@@ -42,9 +47,39 @@ export class AppElement extends LitElement {
         <h3>List</h3>
         <list-elements></list-elements>
 
+        <h3>Built-in Directives</h3>
+        <h4>classMap</h4>
+        <class-map-element></class-map-element>
+        <h4>styleMap</h4>
+        <style-map-element></style-map-element>
+        <h4>ifDefined</h4>
+        <if-defined-element></if-defined-element>
+        <h4>live</h4>
+        <live-element></live-element>
+        <h4>when and choose</h4>
+        <when-choose-element .user=${{ name: "John" }}></when-choose-element>
+        <when-choose-element status="loading"></when-choose-element>
+        <h4>map, join and range</h4>
+        <map-join-range-element></map-join-range-element>
+        <h4>keyed</h4>
+        <keyed-element></keyed-element>
+        <h4>guard</h4>
+        <guard-element></guard-element>
+        <h4>unsafeHTML and unsafeSVG</h4>
+        <unsafe-element></unsafe-element>
+        <h4>templateContent</h4>
+        <template-content-element></template-content-element>
+        <h4>until</h4>
+        <until-element></until-element>
+        <h4>asyncReplace and asyncAppend</h4>
+        <async-iterable-element></async-iterable-element>
+
         <h3>Custom Directives</h3>
         <using-hello-directive></using-hello-directive>
 
+        <h3>Directive State</h3>
+        <div>${myDirective()}</div>
+
         <h3>Max Directive</h3>
         <div>${max(this.someNumber, TEN)}</div>
 
@@ -57,6 +92,16 @@ export class AppElement extends LitElement {
             new Promise((resolve) => setTimeout(() => resolve("Hello"), 1000))
           )}
         </div>
+
+        <h3>Directive Library</h3>
+        <h4>subscribe</h4>
+        <subscribe-element></subscribe-element>
+        <h4>intersect</h4>
+        <intersect-element></intersect-element>
+        <h4>debounceValue</h4>
+        <debounce-element></debounce-element>
+        <h4>highlight</h4>
+        <highlight-element></highlight-element>
       </main>
     `;
   }
@@ -64,6 +109,6 @@ export class AppElement extends LitElement {
 
 declare global {
   interface HTMLElementTagNameMap {
-    "app-element": AppElement;
+    "app-lit-templates": AppElement;
   }
 }
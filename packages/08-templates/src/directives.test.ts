@@ -0,0 +1,182 @@
+import { LitElement } from "lit";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import "./06-attribute-directives.ts";
+import "./07-rendering-directives.ts";
+import "./08-async-directives.ts";
+
+/** Connects a demo and waits for its first render */
+const mount = async <K extends keyof HTMLElementTagNameMap>(tagName: K) => {
+  const element = document.createElement(tagName);
+  document.body.append(element);
+  await (element as LitElement).updateComplete;
+  return element as HTMLElementTagNameMap[K] & LitElement;
+};
+
+const $ = (element: LitElement, selector: string) => element.renderRoot.querySelector(selector) as HTMLElement;
+
+const $$ = (element: LitElement, selector: string) =>
+  [...element.renderRoot.querySelectorAll(selector)] as HTMLElement[];
+
+const click = async (element: LitElement, label: string) => {
+  $$(element, "button")
+    .find((button) => button.textContent!.trim() === label)!
+    .click();
+  await element.updateComplete;
+};
+
+/** The text of a paragraph, without the markers of the template */
+const text = (element: HTMLElement) => element.textContent!.replace(/\s+/g, " ").trim();
+
+afterEach(() => {
+  document.body.innerHTML = "";
+});
+
+describe("live", () => {
+  it("clears the input the user typed in, where a plain binding keeps the text", async () => {
+    const element = await mount("live-element");
+    const [plain, live] = $$(element, "input") as HTMLInputElement[];
+    plain.value = "typed";
+    live.value = "typed";
+
+    await click(element, "Clear");
+
+    expect(plain.value).toBe("typed");
+    expect(live.value).toBe("");
+  });
+});
+
+describe("guard", () => {
+  const sorted = (element: LitElement) => Number(($(element, "output") as HTMLOutputElement).value);
+
+  it("doesn't sort the items again when another property changes", async () => {
+    const element = await mount("guard-element");
+    const before = sorted(element);
+
+    await click(element, "Tick");
+    await click(element, "Tick");
+
+    expect(sorted(element)).toBe(before);
+    expect(text($$(element, "p")[1])).toBe("apple, fig, pear");
+  });
+
+  it("sorts them again when the items are another array", async () => {
+    const element = await mount("guard-element");
+    const before = sorted(element);
+
+    await click(element, "Add an item");
+
+    expect(sorted(element)).toBe(before + 1);
+    expect(text($$(element, "p")[1])).toBe("apple, banana, fig, pear");
+  });
+
+  it("doesn't see an array mutated in place", async () => {
+    const element = await mount("guard-element");
+    element.items.push("banana");
+    element.requestUpdate();
+    await element.updateComplete;
+
+    expect(text($$(element, "p")[1])).toBe("apple, fig, pear");
+  });
+});
+
+describe("templateContent", () => {
+  it("renders a clone of the template content each time", async () => {
+    const element = await mount("template-content-element");
+
+    expect($$(element, ".badge").map(text)).toEqual(["🔥 New", "🔥 New"]);
+  });
+});
+
+describe("async directives", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe("until", () => {
+    it("renders the placeholder, then the value of the promise", async () => {
+      const element = await mount("until-element");
+      const [raw, rendered] = $$(element, "p");
+
+      expect(text(raw)).toBe("[object Promise]");
+      expect(text(rendered)).toBe("⏳ Loading user…");
+
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(text(rendered)).toBe("Fred Flintstone");
+    });
+
+    it("keeps the value when the element renders again with the same promise", async () => {
+      const element = await mount("until-element");
+      await vi.advanceTimersByTimeAsync(1000);
+
+      await click(element, "Render again");
+
+      expect(text($$(element, "p")[1])).toBe("Fred Flintstone");
+    });
+
+    it("renders the placeholder again for a new promise", async () => {
+      const element = await mount("until-element");
+      await vi.advanceTimersByTimeAsync(1000);
+
+      await click(element, "Reload");
+
+      expect(text($$(element, "p")[1])).toBe("⏳ Loading user…");
+    });
+  });
+
+  describe("asyncReplace and asyncAppend", () => {
+    it("renders the last value of the countdown", async () => {
+      const element = await mount("async-iterable-element");
+      await vi.advanceTimersByTimeAsync(0);
+      expect(text($(element, "p"))).toBe("Countdown: 10");
+
+      await vi.advanceTimersByTimeAsync(3000);
+
+      expect(text($(element, "p"))).toBe("Countdown: 7");
+    });
+
+    it("appends every line of the log", async () => {
+      const element = await mount("async-iterable-element");
+
+      await vi.advanceTimersByTimeAsync(1400);
+      expect($$(element, "li").map(text)).toEqual(["Connecting…", "Connected"]);
+
+      await vi.advanceTimersByTimeAsync(1400);
+      expect($$(element, "li").map(text)).toEqual(["Connecting…", "Connected", "Downloading…", "Done"]);
+    });
+
+    it("pauses while the element is disconnected, and resumes where it was", async () => {
+      const element = await mount("async-iterable-element");
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(text($(element, "p"))).toBe("Countdown: 9");
+
+      element.remove();
+      await vi.advanceTimersByTimeAsync(3000);
+      document.body.append(element);
+      await vi.advanceTimersByTimeAsync(0);
+
+      // The generator waited for the directive to take the next value: it went on by one, not by three
+      expect(text($(element, "p"))).toBe("Countdown: 8");
+    });
+
+    it("starts again with a new iterable", async () => {
+      const element = await mount("async-iterable-element");
+      await vi.advanceTimersByTimeAsync(3000);
+
+      await click(element, "Restart");
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(text($(element, "p"))).toBe("Countdown: 10");
+      // asyncAppend clears the previous lines when the first line of the new log comes
+      expect($$(element, "li")).toHaveLength(4);
+
+      await vi.advanceTimersByTimeAsync(700);
+
+      expect($$(element, "li").map(text)).toEqual(["Connecting…"]);
+    });
+  });
+});
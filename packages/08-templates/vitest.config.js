@@ -0,0 +1,5 @@
+import { defineConfig } from "vitest/config";
+import { dom } from "../../vitest.shared.js";
+
+// The demos are mounted in a headless DOM
+export default defineConfig(dom);
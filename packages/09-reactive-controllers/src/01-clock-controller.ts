@@ -0,0 +1,104 @@
+import { LitElement, ReactiveController, ReactiveControllerHost, css, html } from "lit";
+import { customElement, state } from "lit/decorators.js";
+
+/**
+ * Reactive controllers
+ * A reactive controller is an object that can hook into a component's reactive update cycle.
+ * Controllers can bundle state and behavior related to a feature, making it reusable across component definitions.
+ *
+ * A controller is any object implementing `ReactiveController`, every callback is optional:
+ * - `hostConnected()`: called when the host is connected (`connectedCallback()`), or when the controller is added
+ *   to an already connected host. Set up listeners and timers here.
+ * - `hostUpdate()`: called before the host renders (before `update()`), so the host renders what it computes.
+ * - `hostUpdated()`: called after the host updated (after `updated()`), the host's DOM is rendered.
+ * - `hostDisconnected()`: called when the host is disconnected. Clean up what `hostConnected()` set up.
+ *
+ * The host is anything implementing `ReactiveControllerHost` (every `ReactiveElement`):
+ * - `addController()` / `removeController()` register the controller.
+ * - `requestUpdate()` schedules an update of the host, controllers use it when their state changes.
+ * - `updateComplete` resolves once the host finished updating.
+ *
+ * The convention is for the controller to register itself in its constructor:
+ * ```ts
+ * class MyElement extends LitElement {
+ *   private clock = new ClockController(this, 1000);
+ * }
+ * ```
+ */
+export class ClockController implements ReactiveController {
+  host: ReactiveControllerHost;
+
+  value = new Date();
+  timeout: number;
+  private _timerID?: ReturnType<typeof setInterval>;
+
+  constructor(host: ReactiveControllerHost, timeout = 1000) {
+    this.host = host;
+    this.timeout = timeout;
+    host.addController(this);
+  }
+
+  hostConnected() {
+    // Start a timer when the host is connected
+    this.value = new Date();
+    this._timerID = setInterval(() => {
+      this.value = new Date();
+      // Update the host with the new value
+      this.host.requestUpdate();
+    }, this.timeout);
+  }
+
+  hostDisconnected() {
+    // Clear the timer when the host is disconnected, a detached element would keep it running forever
+    clearInterval(this._timerID);
+    this._timerID = undefined;
+  }
+}
+
+const timeFormat = new Intl.DateTimeFormat("en-US", {
+  hour: "numeric",
+  minute: "numeric",
+  second: "numeric",
+});
+
+/**
+ * `removeController()` only stops calling the controller's callbacks: it does not call `hostDisconnected()`,
+ * so a controller holding a timer or a listener must be cleaned up by hand when it is removed from a connected host.
+ * `addController()` on the other hand calls `hostConnected()` when the host is already connected.
+ */
+@customElement("clock-element")
+export class ClockElement extends LitElement {
+  private clock = new ClockController(this, 1000);
+
+  @state()
+  private _running = true;
+
+  render() {
+    return html`
+      <p>Current time: <time>${timeFormat.format(this.clock.value)}</time></p>
+      <button @click=${this._toggle}>${this._running ? "Pause" : "Resume"}</button>
+    `;
+  }
+
+  private _toggle() {
+    if (this._running) {
+      this.removeController(this.clock);
+      this.clock.hostDisconnected();
+    } else {
+      this.addController(this.clock);
+    }
+    this._running = !this._running;
+  }
+
+  static styles = css`
+    time {
+      font-family: monospace;
+    }
+  `;
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    "clock-element": ClockElement;
+  }
+}
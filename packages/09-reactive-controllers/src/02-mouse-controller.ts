@@ -0,0 +1,51 @@
+import { LitElement, ReactiveController, ReactiveControllerHost, html } from "lit";
+import { customElement } from "lit/decorators.js";
+
+/**
+ * A controller wrapping a global event source.
+ * The listener lives on `window`, outside the host: it must be added in `hostConnected()` and removed in
+ * `hostDisconnected()`, otherwise every removed element would keep a listener (and itself) alive.
+ *
+ * The handler is an arrow function field so the same function is passed to `addEventListener()`
+ * and `removeEventListener()`.
+ */
+export class MouseController implements ReactiveController {
+  host: ReactiveControllerHost;
+
+  pos = { x: 0, y: 0 };
+
+  private _onMouseMove = ({ clientX, clientY }: MouseEvent) => {
+    this.pos = { x: clientX, y: clientY };
+    this.host.requestUpdate();
+  };
+
+  constructor(host: ReactiveControllerHost) {
+    this.host = host;
+    host.addController(this);
+  }
+
+  hostConnected() {
+    window.addEventListener("mousemove", this._onMouseMove);
+  }
+
+  hostDisconnected() {
+    window.removeEventListener("mousemove", this._onMouseMove);
+  }
+}
+
+@customElement("mouse-element")
+export class MouseElement extends LitElement {
+  private mouse = new MouseController(this);
+
+  render() {
+    return html`
+      <pre>Mouse position: ${this.mouse.pos.x}, ${this.mouse.pos.y}</pre>
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    "mouse-element": MouseElement;
+  }
+}
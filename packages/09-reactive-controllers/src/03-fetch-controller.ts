@@ -0,0 +1,159 @@
+import { LitElement, ReactiveController, ReactiveControllerHost, html } from "lit";
+import { customElement, property } from "lit/decorators.js";
+
+export type FetchStatus = "initial" | "pending" | "complete" | "error";
+
+/** Resolves after `ms`, rejects as soon as `signal` aborts. */
+const wait = (ms: number, signal: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const timerID = setTimeout(resolve, ms);
+    signal.addEventListener("abort", () => {
+      clearTimeout(timerID);
+      reject(signal.reason);
+    }, { once: true });
+  });
+
+/**
+ * A controller fetching JSON from a URL that depends on the host's properties.
+ *
+ * `hostUpdate()` runs before every render of the host: it reads the URL with `getUrl()` and starts a new request
+ * when it changed, so the status is already `pending` in the render that follows the property change.
+ * The previous request is aborted with its `AbortController`: a slow response for an old URL can't overwrite
+ * the value of the current one. Disconnecting the host aborts the request in flight as well,
+ * and `hostConnected()` requests an update, which starts it again when the host is connected again.
+ *
+ * `latency` delays every request, the files served by Vite respond too fast to see an abort happen.
+ */
+export class FetchController<T> implements ReactiveController {
+  host: ReactiveControllerHost;
+
+  status: FetchStatus = "initial";
+  value?: T;
+  error?: unknown;
+  /** Requests aborted before they completed */
+  aborted = 0;
+
+  private _url?: string;
+  private _abortController?: AbortController;
+
+  constructor(
+    host: ReactiveControllerHost,
+    private _getUrl: () => string | undefined,
+    public latency = 0
+  ) {
+    this.host = host;
+    host.addController(this);
+  }
+
+  hostConnected() {
+    // After a disconnection `_url` is cleared: the update compares the URL again and restarts the aborted request,
+    // even when no property of the host changed in the meantime
+    this.host.requestUpdate();
+  }
+
+  hostUpdate() {
+    const url = this._getUrl();
+    if (url !== this._url) {
+      this._url = url;
+      this._run(url);
+    }
+  }
+
+  hostDisconnected() {
+    this._abort();
+    this._url = undefined;
+  }
+
+  private _abort() {
+    if (this._abortController && !this._abortController.signal.aborted && this.status === "pending") {
+      this.aborted++;
+    }
+    this._abortController?.abort();
+    this._abortController = undefined;
+  }
+
+  private async _run(url: string | undefined) {
+    this._abort();
+    if (url === undefined) {
+      this.status = "initial";
+      return;
+    }
+    const abortController = (this._abortController = new AbortController());
+    const { signal } = abortController;
+    this.status = "pending";
+    try {
+      await wait(this.latency, signal);
+      const response = await fetch(url, { signal });
+      if (!response.ok) {
+        throw new Error(`${response.status} ${response.statusText}`);
+      }
+      this.value = (await response.json()) as T;
+      this.error = undefined;
+      this.status = "complete";
+    } catch (e) {
+      if (signal.aborted) {
+        // A newer request (or the disconnection) owns the state now
+        return;
+      }
+      this.error = e;
+      this.status = "error";
+    }
+    this.host.requestUpdate();
+  }
+}
+
+interface User {
+  id: number;
+  name: string;
+  email: string;
+}
+
+@customElement("user-card")
+export class UserCard extends LitElement {
+  @property({ type: Number, attribute: "user-id" })
+  userId = 1;
+
+  /**
+   * The fake API is a set of JSON files next to this module. `new URL(..., import.meta.url)` lets Vite serve
+   * and bundle them wherever the module ends up (this package or the notes-shell).
+   */
+  private user = new FetchController<User>(
+    this,
+    () => new URL(`./api/users/${this.userId}.json`, import.meta.url).href,
+    1000
+  );
+
+  render() {
+    return html`
+      <div>
+        ${[1, 2, 3].map(
+          (id) => html`
+            <button ?disabled=${id === this.userId} @click=${() => (this.userId = id)}>
+              User ${id}
+            </button>
+          `
+        )}
+      </div>
+      ${this._renderUser()}
+      <p><small>Aborted requests: ${this.user.aborted}</small></p>
+    `;
+  }
+
+  private _renderUser() {
+    switch (this.user.status) {
+      case "initial":
+      case "pending":
+        return html`<p>Loading user ${this.userId}…</p>`;
+      case "error":
+        return html`<p>Failed to load user ${this.userId}: ${String(this.user.error)}</p>`;
+      case "complete":
+        return html`<p>${this.user.value?.name} &lt;${this.user.value?.email}&gt;</p>`;
+    }
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    "user-card": UserCard;
+  }
+}
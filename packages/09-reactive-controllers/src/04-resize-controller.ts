@@ -0,0 +1,93 @@
+import { LitElement, ReactiveController, ReactiveControllerHost, css, html } from "lit";
+import { customElement, property } from "lit/decorators.js";
+
+export type Breakpoint = "small" | "medium" | "large";
+
+/**
+ * Tracks the window size, and the size of the host once it rendered.
+ *
+ * The window size comes from the `resize` event, listened to while the host is connected.
+ *
+ * The host size can only be measured after the host rendered, in `hostUpdated()`.
+ * Measuring there and calling `requestUpdate()` renders the host a second time,
+ * so the controller only does it when the measured width actually changed, otherwise every update would schedule another one.
+ */
+export class ResizeController implements ReactiveController {
+  host: ReactiveControllerHost & HTMLElement;
+
+  width = window.innerWidth;
+  height = window.innerHeight;
+  hostWidth = 0;
+
+  private _onResize = () => {
+    this.width = window.innerWidth;
+    this.height = window.innerHeight;
+    this.host.requestUpdate();
+  };
+
+  constructor(host: ReactiveControllerHost & HTMLElement) {
+    this.host = host;
+    host.addController(this);
+  }
+
+  get breakpoint(): Breakpoint {
+    if (this.width < 640) {
+      return "small";
+    }
+    return this.width < 1024 ? "medium" : "large";
+  }
+
+  hostConnected() {
+    window.addEventListener("resize", this._onResize);
+    // The window may have been resized while the host was disconnected
+    this._onResize();
+  }
+
+  hostUpdated() {
+    const hostWidth = this.host.offsetWidth;
+    if (hostWidth !== this.hostWidth) {
+      this.hostWidth = hostWidth;
+      this.host.requestUpdate();
+    }
+  }
+
+  hostDisconnected() {
+    window.removeEventListener("resize", this._onResize);
+  }
+}
+
+@customElement("resize-element")
+export class ResizeElement extends LitElement {
+  private size = new ResizeController(this);
+
+  /** Reflected so the host is resized in `update()`, before the controller measures it in `hostUpdated()`. */
+  @property({ type: Boolean, reflect: true })
+  wide = false;
+
+  render() {
+    return html`
+      <p>Window: ${this.size.width} × ${this.size.height} (${this.size.breakpoint})</p>
+      <p>Element: ${this.size.hostWidth}px wide</p>
+      <button @click=${() => (this.wide = !this.wide)}>
+        ${this.wide ? "Shrink" : "Grow"} element
+      </button>
+    `;
+  }
+
+  static styles = css`
+    :host {
+      display: block;
+      width: 50%;
+      border: 1px dashed gray;
+    }
+    :host([wide]) {
+      width: 100%;
+    }
+  `;
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    "resize-element": ResizeElement;
+  }
+}
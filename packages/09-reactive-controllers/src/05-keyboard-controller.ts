@@ -0,0 +1,117 @@
+import { LitElement, ReactiveController, ReactiveControllerHost, css, html } from "lit";
+import { customElement, state } from "lit/decorators.js";
+
+export type ShortcutHandler = (e: KeyboardEvent) => void;
+
+/**
+ * Normalizes a keyboard event to the `"ctrl+shift+k"` notation used for shortcuts:
+ * modifiers in a fixed order, then the key in lower case.
+ *
+ * `shift` is left out for symbols, their `key` already depends on it (`+` is `shift+=` on most layouts).
+ */
+export const shortcutOf = (e: KeyboardEvent) => {
+  const isSymbol = e.key.length === 1 && e.key.toLowerCase() === e.key.toUpperCase();
+  return [
+    e.ctrlKey && "ctrl",
+    e.altKey && "alt",
+    e.metaKey && "meta",
+    e.shiftKey && !isSymbol && "shift",
+    e.key.toLowerCase(),
+  ]
+    .filter(Boolean)
+    .join("+");
+};
+
+export const isEditable = (target: EventTarget | undefined) =>
+  target instanceof HTMLInputElement ||
+  target instanceof HTMLTextAreaElement ||
+  (target instanceof HTMLElement && target.isContentEditable);
+
+/**
+ * Calls a handler when one of its shortcuts is pressed, while the host is connected.
+ * ```ts
+ * private shortcuts = new KeyboardShortcutsController(this, {
+ *   "+": () => this.count++,
+ *   "0": () => (this.count = 0),
+ * });
+ * ```
+ *
+ * Shortcuts are listened to on `window` so they work wherever the focus is,
+ * except when typing in a text field: the event is retargeted to the host of a shadow root,
+ * so the field is read from `composedPath()` rather than `target`.
+ *
+ * The controller doesn't request updates itself: handlers change the host's reactive properties,
+ * which already schedules an update.
+ */
+export class KeyboardShortcutsController implements ReactiveController {
+  host: ReactiveControllerHost;
+
+  private _onKeyDown = (e: KeyboardEvent) => {
+    if (isEditable(e.composedPath()[0])) {
+      return;
+    }
+    const handler = this.shortcuts[shortcutOf(e)];
+    if (handler) {
+      e.preventDefault();
+      handler(e);
+    }
+  };
+
+  constructor(host: ReactiveControllerHost, public shortcuts: Record<string, ShortcutHandler>) {
+    this.host = host;
+    host.addController(this);
+  }
+
+  hostConnected() {
+    window.addEventListener("keydown", this._onKeyDown);
+  }
+
+  hostDisconnected() {
+    window.removeEventListener("keydown", this._onKeyDown);
+  }
+}
+
+@customElement("shortcut-counter")
+export class ShortcutCounter extends LitElement {
+  @state()
+  private _count = 0;
+
+  @state()
+  private _lastShortcut = "";
+
+  private shortcuts = new KeyboardShortcutsController(this, {
+    "+": (e) => this._apply(e, this._count + 1),
+    "-": (e) => this._apply(e, this._count - 1),
+    "0": (e) => this._apply(e, 0),
+  });
+
+  render() {
+    return html`
+      <p>Count: ${this._count}</p>
+      <p>
+        ${Object.keys(this.shortcuts.shortcuts).map((shortcut) => html`<kbd>${shortcut}</kbd> `)}
+      </p>
+      <p><small>Last shortcut: ${this._lastShortcut || "none"}</small></p>
+    `;
+  }
+
+  private _apply(e: KeyboardEvent, count: number) {
+    this._lastShortcut = shortcutOf(e);
+    this._count = count;
+  }
+
+  static styles = css`
+    kbd {
+      border: 1px solid gray;
+      border-radius: 4px;
+      padding: 0 0.25rem;
+      font-family: monospace;
+    }
+  `;
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    "shortcut-counter": ShortcutCounter;
+  }
+}
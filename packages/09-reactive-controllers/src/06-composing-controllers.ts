@@ -0,0 +1,77 @@
+import { LitElement, ReactiveController, ReactiveControllerHost, html } from "lit";
+import { customElement } from "lit/decorators.js";
+import { ClockController } from "./01-clock-controller";
+import { MouseController } from "./02-mouse-controller";
+
+/**
+ * Composing controllers
+ * A controller can use other controllers: it creates them with its own host,
+ * so they register themselves with the host and receive its lifecycle callbacks directly.
+ * The composed controller doesn't forward `hostConnected()` or `hostDisconnected()` to them.
+ *
+ * Controllers are called in the order they were added, the inner controllers are created in the constructor
+ * before the outer one registers itself: by the time `hostUpdate()` of the outer controller runs,
+ * the inner ones already ran theirs.
+ *
+ * `IdleController` tracks how long the pointer didn't move:
+ * the clock updates the host every second, the mouse updates it on every move,
+ * and `hostUpdate()` derives the idle time from both before the host renders.
+ */
+export class IdleController implements ReactiveController {
+  host: ReactiveControllerHost;
+
+  /** Seconds since the pointer last moved */
+  idleSeconds = 0;
+
+  private _clock: ClockController;
+  private _mouse: MouseController;
+  private _lastPos?: { x: number; y: number };
+  private _lastActivity = Date.now();
+
+  constructor(host: ReactiveControllerHost, public idleAfter = 5) {
+    this.host = host;
+    this._clock = new ClockController(host, 1000);
+    this._mouse = new MouseController(host);
+    host.addController(this);
+  }
+
+  get idle() {
+    return this.idleSeconds >= this.idleAfter;
+  }
+
+  hostConnected() {
+    // The clock controller was connected just before, its value is the current time
+    this._lastActivity = this._clock.value.getTime();
+  }
+
+  hostUpdate() {
+    // The mouse controller replaces `pos` on every move
+    if (this._mouse.pos !== this._lastPos) {
+      this._lastPos = this._mouse.pos;
+      this._lastActivity = Date.now();
+    }
+    // The clock ticks once a second, a move since the last tick is more recent than its value
+    this.idleSeconds = Math.max(0, Math.floor((this._clock.value.getTime() - this._lastActivity) / 1000));
+  }
+}
+
+@customElement("idle-element")
+export class IdleElement extends LitElement {
+  private idle = new IdleController(this, 5);
+
+  render() {
+    return html`
+      <p>
+        ${this.idle.idle
+          ? html`😴 Idle for ${this.idle.idleSeconds}s`
+          : html`🖱️ Active (idle after ${this.idle.idleAfter}s without moving the mouse)`}
+      </p>
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    "idle-element": IdleElement;
+  }
+}
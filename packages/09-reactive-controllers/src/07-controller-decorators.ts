@@ -0,0 +1,69 @@
+import { LitElement, ReactiveElement, css, html } from "lit";
+import { customElement } from "lit/decorators.js";
+import { ClockController } from "./01-clock-controller";
+
+/**
+ * Attaching controllers with a decorator
+ * A decorator runs once, when the class is defined, but controllers belong to instances.
+ * `static addInitializer()` bridges the two: the callback runs in the constructor of every instance of the class,
+ * where the decorator can create its controllers.
+ *
+ * `updateEvery()` is a class decorator that re-renders the element every `ms` while it is connected,
+ * the element doesn't keep a reference to the controller it never reads:
+ * ```ts
+ * @customElement("ticking-element")
+ * @updateEvery(1000)
+ * class TickingElement extends LitElement {}
+ * ```
+ *
+ * Initializers are stored per class and run for the whole class hierarchy, superclasses first:
+ * a subclass decorated again gets both controllers.
+ */
+export const updateEvery = (ms: number) => (ctor: typeof ReactiveElement) => {
+  ctor.addInitializer((instance) => {
+    new ClockController(instance, ms);
+  });
+};
+
+@customElement("ticking-element")
+@updateEvery(1000)
+export class TickingElement extends LitElement {
+  protected connectedAt = Date.now();
+
+  connectedCallback() {
+    super.connectedCallback();
+    this.connectedAt = Date.now();
+  }
+
+  protected get elapsed() {
+    return (Date.now() - this.connectedAt) / 1000;
+  }
+
+  render() {
+    return html`<p>Connected for <span>${Math.floor(this.elapsed)}s</span></p>`;
+  }
+
+  static styles = css`
+    span {
+      font-family: monospace;
+    }
+  `;
+}
+
+/**
+ * Also updated every second by the initializer of `TickingElement`, the updates requested by both clocks are batched.
+ */
+@customElement("fast-ticking-element")
+@updateEvery(100)
+export class FastTickingElement extends TickingElement {
+  render() {
+    return html`<p>Connected for <span>${this.elapsed.toFixed(1)}s</span></p>`;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    "ticking-element": TickingElement;
+    "fast-ticking-element": FastTickingElement;
+  }
+}
@@ -0,0 +1,196 @@
+import { LitElement, css, html } from "lit";
+import { customElement, property, query, state } from "lit/decorators.js";
+import "./shortcut-help";
+import { ShortcutController, shortcuts } from "./shortcuts";
+
+/**
+ * Shortcut manager
+ * `KeyboardShortcutsController` adds a `keydown` listener to `window` per element, and every element sees every key:
+ * two of them reacting to the same keys both run, and nothing lists what the keys do.
+ *
+ * `ShortcutController` registers its bindings with one registry instead (`shortcuts.ts`):
+ * - one listener on `window` for the whole page, removed with the last binding;
+ * - chords (`mod+k`) and sequences (`g i`), the registry keeps the keys typed so far;
+ * - `scope: "focus"`: the bindings of an element only work while the focus is inside it, and win over the global ones;
+ * - conflicts are detected when a binding is registered: the first one wins, the other is ignored with a warning;
+ * - `<shortcut-help>` (`?`) lists them all.
+ */
+@customElement("shortcut-notes")
+export class ShortcutNotes extends LitElement {
+  @state()
+  private _view: "inbox" | "archive" = "inbox";
+
+  @state()
+  private _search = "";
+
+  @query("input")
+  private _input!: HTMLInputElement;
+
+  private _unsubscribe?: () => void;
+
+  constructor() {
+    super();
+    new ShortcutController(
+      this,
+      {
+        "mod+k": { description: "Search the notes", handler: () => this._input.select() },
+        "g i": { description: "Go to the inbox", handler: () => (this._view = "inbox") },
+        "g a": { description: "Go to the archive", handler: () => (this._view = "archive") },
+      },
+      { label: "Notes" }
+    );
+  }
+
+  connectedCallback() {
+    super.connectedCallback();
+    // The keys of a sequence in progress
+    this._unsubscribe = shortcuts.subscribe(() => this.requestUpdate());
+  }
+
+  disconnectedCallback() {
+    super.disconnectedCallback();
+    this._unsubscribe?.();
+  }
+
+  render() {
+    const notes = notesOf[this._view].filter((note) => note.toLowerCase().includes(this._search.toLowerCase()));
+    return html`
+      <p>
+        <input
+          placeholder="Search (mod+k)"
+          .value=${this._search}
+          @input=${(e: Event) => (this._search = (e.target as HTMLInputElement).value)}
+        />
+        View: <strong>${this._view}</strong>
+        <small>${shortcuts.pending.length ? `${shortcuts.pending.join(" ")} …` : ""}</small>
+      </p>
+      <div class="panels">
+        <note-list title="Notes" .notes=${notes}></note-list>
+        <note-list title="Pinned" .notes=${notes.slice(0, 2)}></note-list>
+      </div>
+      <p><small>Press <kbd>?</kbd> for the shortcuts, click a list for <kbd>j</kbd> / <kbd>k</kbd></small></p>
+    `;
+  }
+
+  static styles = css`
+    .panels {
+      display: flex;
+      justify-content: center;
+      gap: 1rem;
+    }
+    kbd {
+      border: 1px solid gray;
+      border-radius: 4px;
+      padding: 0 0.25rem;
+      font-family: monospace;
+    }
+  `;
+}
+
+/** Both lists bind `j` and `k`: scoped to the focus, they don't conflict */
+@customElement("note-list")
+export class NoteList extends LitElement {
+  @property({ type: Array })
+  notes: string[] = [];
+
+  @state()
+  private _selected = 0;
+
+  constructor() {
+    super();
+    new ShortcutController(
+      this,
+      {
+        j: { description: "Next note", handler: () => this._move(1) },
+        k: { description: "Previous note", handler: () => this._move(-1) },
+      },
+      { scope: "focus", label: "Note lists" }
+    );
+  }
+
+  connectedCallback() {
+    super.connectedCallback();
+    // Focusable, so the shortcuts can be scoped to it
+    this.tabIndex = 0;
+  }
+
+  render() {
+    return html`
+      <strong>${this.title}</strong>
+      <ul>
+        ${this.notes.map((note, i) => html`<li class=${i === this._selected ? "selected" : ""}>${note}</li>`)}
+      </ul>
+    `;
+  }
+
+  private _move(delta: number) {
+    this._selected = Math.min(Math.max(this._selected + delta, 0), this.notes.length - 1);
+  }
+
+  static styles = css`
+    :host {
+      display: block;
+      min-width: 200px;
+      border: 1px solid gray;
+      padding: 0.5rem;
+      text-align: left;
+    }
+    :host(:focus-within) {
+      outline: 2px solid royalblue;
+    }
+    .selected {
+      background: rgba(128, 128, 128, 0.3);
+    }
+  `;
+}
+
+/**
+ * Registered after `<shortcut-notes>`: its global `mod+k` is a duplicate and `g` a prefix of `g i`,
+ * both are ignored (see the console and `<shortcut-help>`).
+ */
+@customElement("legacy-shortcuts")
+export class LegacyShortcuts extends LitElement {
+  @state()
+  private _calls = 0;
+
+  constructor() {
+    super();
+    new ShortcutController(
+      this,
+      {
+        "mod+k": { description: "Old search", handler: () => this._calls++ },
+        g: { description: "Go home", handler: () => this._calls++ },
+      },
+      { label: "Legacy" }
+    );
+  }
+
+  render() {
+    return html`<p><small>Legacy shortcuts called: ${this._calls}</small></p>`;
+  }
+}
+
+const notesOf = {
+  inbox: ["Reactive controllers", "Shortcut registry", "Chord parsing", "Focus scopes"],
+  archive: ["Lifecycle", "Events", "Decorators"],
+};
+
+@customElement("shortcut-manager")
+export class ShortcutManager extends LitElement {
+  render() {
+    return html`
+      <shortcut-notes></shortcut-notes>
+      <legacy-shortcuts></legacy-shortcuts>
+      <shortcut-help></shortcut-help>
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    "shortcut-notes": ShortcutNotes;
+    "note-list": NoteList;
+    "legacy-shortcuts": LegacyShortcuts;
+    "shortcut-manager": ShortcutManager;
+  }
+}
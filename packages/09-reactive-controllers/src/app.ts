@@ -0,0 +1,71 @@
+import { LitElement, css, html } from "lit";
+import { customElement, state } from "lit/decorators.js";
+import "./01-clock-controller";
+import "./02-mouse-controller";
+import "./03-fetch-controller";
+import "./04-resize-controller";
+import "./05-keyboard-controller";
+import "./06-composing-controllers";
+import "./07-controller-decorators";
+import "./08-shortcut-manager";
+
+@customElement("app-lit-reactive-controllers")
+export class AppElement extends LitElement {
+  @state()
+  private _showUserCard = true;
+
+  render() {
+    return html`
+      <main>
+        <h1>09 - Reactive controllers</h1>
+
+        <h3>01 - ClockController</h3>
+        <clock-element></clock-element>
+
+        <h3>02 - MouseController</h3>
+        <mouse-element></mouse-element>
+
+        <h3>03 - FetchController</h3>
+        <button @click=${() => (this._showUserCard = !this._showUserCard)}>
+          ${this._showUserCard ? "Remove" : "Add"} Element
+        </button>
+        ${this._showUserCard ? html`<user-card></user-card>` : null}
+
+        <h3>04 - ResizeController</h3>
+        <resize-element></resize-element>
+
+        <h3>05 - KeyboardShortcutsController</h3>
+        <shortcut-counter></shortcut-counter>
+
+        <h3>06 - Composing controllers</h3>
+        <idle-element></idle-element>
+
+        <h3>07 - Controller decorators</h3>
+        <ticking-element></ticking-element>
+        <fast-ticking-element></fast-ticking-element>
+
+        <h3>08 - Shortcut manager</h3>
+        <shortcut-manager></shortcut-manager>
+      </main>
+    `;
+  }
+
+  static styles = css`
+    :host {
+      max-width: 1280px;
+      margin: 0 auto;
+      padding: 2rem;
+      text-align: center;
+    }
+
+    resize-element {
+      margin: 0 auto;
+    }
+  `;
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    "app-lit-reactive-controllers": AppElement;
+  }
+}
@@ -0,0 +1,148 @@
+import { LitElement, css, html, nothing } from "lit";
+import { customElement, query, state } from "lit/decorators.js";
+import { ShortcutBinding, ShortcutController, shortcuts } from "./shortcuts";
+
+/** The focused element and its ancestors through shadow roots, like the `composedPath()` of a key press */
+const focusPath = () => {
+  let focused: Element | null = document.activeElement;
+  while (focused?.shadowRoot?.activeElement) {
+    focused = focused.shadowRoot.activeElement;
+  }
+  const path: EventTarget[] = [];
+  for (let node: Node | null = focused; node; node = node instanceof ShadowRoot ? node.host : node.parentNode) {
+    path.push(node);
+  }
+  return [...path, window];
+};
+
+/**
+ * An overlay listing the shortcuts of the page, opened with `?`:
+ * the bindings that work where the focus was, the ones of other scopes, and the ignored ones with their conflict.
+ * ```html
+ * <shortcut-help></shortcut-help>
+ * ```
+ *
+ * It re-renders when bindings are registered or removed, and shows the keys of a sequence in progress.
+ */
+@customElement("shortcut-help")
+export class ShortcutHelp extends LitElement {
+  @state()
+  private _path: EventTarget[] = [];
+
+  @query("dialog")
+  private _dialog!: HTMLDialogElement;
+
+  private _unsubscribe?: () => void;
+
+  constructor() {
+    super();
+    // The element never reads its controller: it registers itself with the element
+    new ShortcutController(
+      this,
+      { "?": { description: "Show or hide the shortcuts", handler: (e) => this.toggle(e.composedPath()) } },
+      { label: "Help" }
+    );
+  }
+
+  connectedCallback() {
+    super.connectedCallback();
+    this._unsubscribe = shortcuts.subscribe(() => this.requestUpdate());
+  }
+
+  disconnectedCallback() {
+    super.disconnectedCallback();
+    this._unsubscribe?.();
+  }
+
+  /** Opens the overlay, listing the shortcuts that work with the focus on `path` (the current focus by default) */
+  toggle(path = focusPath()) {
+    if (this._dialog.open) {
+      this._dialog.close();
+    } else {
+      this._path = path;
+      this._dialog.showModal();
+    }
+  }
+
+  render() {
+    const active = shortcuts.active(this._path);
+    const ignored = new Map(shortcuts.conflicts().map((conflict) => [conflict.ignored, conflict]));
+    const labels = [...new Set(shortcuts.bindings.map(({ label }) => label))];
+    const { pending } = shortcuts;
+    return html`
+      ${pending.length ? html`<p class="pending">${pending.map(this._renderChord)} …</p>` : nothing}
+      <dialog aria-labelledby="title">
+        <h2 id="title">Keyboard shortcuts</h2>
+        ${labels.map(
+          (label) => html`
+            <h3>${label}</h3>
+            <table>
+              ${shortcuts.bindings
+                .filter((binding) => binding.label === label)
+                .map((binding) => {
+                  const conflict = ignored.get(binding);
+                  const status = conflict
+                    ? `⚠ ignored, ${conflict.kind} of "${conflict.registered.keys}" (${conflict.registered.label})`
+                    : active.includes(binding)
+                      ? ""
+                      : "not here: its scope doesn't have the focus";
+                  return html`
+                    <tr class=${active.includes(binding) ? "" : "inactive"}>
+                      <td>${this._renderKeys(binding)}</td>
+                      <td>${binding.description}</td>
+                      <td class=${conflict ? "conflict" : ""}>${status}</td>
+                    </tr>
+                  `;
+                })}
+            </table>
+          `
+        )}
+        <form method="dialog"><button>Close</button></form>
+      </dialog>
+    `;
+  }
+
+  private _renderKeys({ chords }: ShortcutBinding) {
+    return chords.map((chord, i) => html`${i ? " then " : ""}${this._renderChord(chord)}`);
+  }
+
+  private _renderChord(chord: string) {
+    const parts =
+      chord === "+" ? ["+"] : chord.endsWith("++") ? [...chord.slice(0, -2).split("+"), "+"] : chord.split("+");
+    return parts.map((part, i) => html`${i ? "+" : ""}<kbd>${part === " " ? "space" : part}</kbd>`);
+  }
+
+  static styles = css`
+    dialog {
+      max-width: 640px;
+      text-align: left;
+    }
+    td {
+      padding: 2px 8px;
+    }
+    tr.inactive {
+      opacity: 0.5;
+    }
+    .conflict {
+      color: darkorange;
+    }
+    .pending {
+      position: fixed;
+      bottom: 1rem;
+      right: 1rem;
+      margin: 0;
+    }
+    kbd {
+      border: 1px solid gray;
+      border-radius: 4px;
+      padding: 0 0.25rem;
+      font-family: monospace;
+    }
+  `;
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    "shortcut-help": ShortcutHelp;
+  }
+}
@@ -0,0 +1,241 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { shortcutOf } from "./05-keyboard-controller.ts";
+import { ShortcutBinding, ShortcutRegistry, parseShortcut } from "./shortcuts.ts";
+
+describe("parseShortcut", () => {
+  it("orders the modifiers like shortcutOf(), whatever their order and case", () => {
+    const event = new KeyboardEvent("keydown", { key: "K", ctrlKey: true, altKey: true, shiftKey: true });
+
+    expect(parseShortcut("Shift+Alt+Ctrl+K")).toEqual(["ctrl+alt+shift+k"]);
+    expect(parseShortcut("SHIFT+ctrl+Alt+k")).toEqual([shortcutOf(event)]);
+    expect(parseShortcut("shift+meta+x")).toEqual(["meta+shift+x"]);
+  });
+
+  it("reads mod as ctrl outside Apple devices", () => {
+    expect(parseShortcut("mod+k")).toEqual(["ctrl+k"]);
+  });
+
+  it("drops shift for the keys without case, which shift already typed", () => {
+    expect(parseShortcut("shift+?")).toEqual(["?"]);
+    expect(parseShortcut("ctrl+shift+1")).toEqual(["ctrl+1"]);
+  });
+
+  it("reads the aliases of the named keys, and + as a key", () => {
+    expect(parseShortcut("Esc")).toEqual(["escape"]);
+    expect(parseShortcut("ctrl+space")).toEqual(["ctrl+ "]);
+    expect(parseShortcut("alt+Up")).toEqual(["alt+arrowup"]);
+    expect(parseShortcut("+")).toEqual(["+"]);
+    expect(parseShortcut("ctrl++")).toEqual(["ctrl++"]);
+  });
+
+  it("splits a sequence on spaces", () => {
+    expect(parseShortcut("  g   I ")).toEqual(["g", "i"]);
+    expect(parseShortcut("ctrl+k ctrl+s")).toEqual(["ctrl+k", "ctrl+s"]);
+  });
+
+  it("rejects unknown modifiers and chords without a key", () => {
+    expect(() => parseShortcut("hyper+k")).toThrow('[shortcuts] "hyper+k": unknown modifier "hyper"');
+    expect(() => parseShortcut("g ctrl+")).toThrow('[shortcuts] "g ctrl+": no key');
+  });
+});
+
+describe("ShortcutRegistry", () => {
+  let registry: ShortcutRegistry;
+  let unregisters: Array<() => void>;
+
+  /** Registers a binding calling a mock handler */
+  const bind = (keys: string, scope?: Element, label = "test") => {
+    const handler = vi.fn();
+    unregisters.push(registry.register({ keys, description: keys, handler, scope, label }));
+    return handler;
+  };
+
+  /** Dispatches a key press from `target`, like the browser does from the focused element */
+  const press = (key: string, target: Element = document.body, init: KeyboardEventInit = {}) => {
+    const event = new KeyboardEvent("keydown", { key, bubbles: true, composed: true, cancelable: true, ...init });
+    target.dispatchEvent(event);
+    return event;
+  };
+
+  const keysOf = (bindings: readonly ShortcutBinding[]) => bindings.map(({ keys, scope }) => `${keys} ${scope?.id}`);
+
+  beforeEach(() => {
+    registry = new ShortcutRegistry(500);
+    unregisters = [];
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    document.body.innerHTML = `
+      <div id="outer">
+        <button id="in-outer"></button>
+        <div id="inner"><button id="in-inner"></button><input /></div>
+      </div>
+    `;
+  });
+
+  afterEach(() => {
+    unregisters.forEach((unregister) => unregister());
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+    document.body.innerHTML = "";
+  });
+
+  const $ = (selector: string) => document.querySelector(selector)!;
+
+  describe("conflicts", () => {
+    it("ignores a duplicate, or a prefix either way, of an earlier binding of the same scope, and warns", () => {
+      bind("g i");
+      bind("G  I");
+      bind("g");
+      bind("g i x");
+      bind("ctrl+k");
+
+      const conflicts = registry.conflicts().map(({ kind, registered, ignored }) => [kind, registered.keys, ignored.keys]);
+
+      expect(conflicts).toEqual([
+        ["duplicate", "g i", "G  I"],
+        ["prefix", "g i", "g"],
+        ["prefix", "g i", "g i x"],
+      ]);
+      expect(console.warn).toHaveBeenCalledTimes(3);
+      expect(console.warn).toHaveBeenCalledWith('[shortcuts] "g" (test) is ignored, prefix of "g i" (test)');
+    });
+
+    it("is resolved when the winning binding is removed", () => {
+      const unregister = registry.register({ keys: "g", description: "", handler: () => {}, label: "test" });
+      const handler = bind("g i");
+      expect(registry.conflicts()).toHaveLength(1);
+
+      unregister();
+      press("g");
+      press("i");
+
+      expect(registry.conflicts()).toEqual([]);
+      expect(handler).toHaveBeenCalledOnce();
+    });
+
+    it("doesn't report the bindings of nested scopes shadowing each other", () => {
+      bind("j");
+      bind("j", $("#outer"));
+      bind("j", $("#inner"));
+      bind("g i", $("#outer"));
+      bind("g", $("#inner"));
+
+      expect(registry.conflicts()).toEqual([]);
+      expect(console.warn).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("active", () => {
+    it("lists the bindings of the scopes on the path, innermost first, then the global ones", () => {
+      bind("j");
+      bind("k", $("#outer"));
+      bind("l", $("#inner"));
+      bind("m", $("#inner"));
+      bind("m", $("#inner"));
+
+      const path = (selector: string) => {
+        let path: EventTarget[] = [];
+        $(selector).addEventListener("keydown", (e) => (path = e.composedPath()), { once: true });
+        press("x", $(selector));
+        return path;
+      };
+
+      expect(keysOf(registry.active(path("#in-inner")))).toEqual(["l inner", "m inner", "k outer", "j undefined"]);
+      expect(keysOf(registry.active(path("#in-outer")))).toEqual(["k outer", "j undefined"]);
+      expect(keysOf(registry.active([]))).toEqual(["j undefined"]);
+    });
+  });
+
+  describe("key presses", () => {
+    it("call the handler of the chord, and prevent the default action of the key", () => {
+      const handler = bind("ctrl+shift+k");
+
+      const unbound = press("k", document.body, { ctrlKey: true });
+      const event = press("K", document.body, { ctrlKey: true, shiftKey: true });
+
+      expect(handler).toHaveBeenCalledExactlyOnceWith(event);
+      expect([unbound.defaultPrevented, event.defaultPrevented]).toEqual([false, true]);
+    });
+
+    it("complete a sequence, which is pending in between", () => {
+      const handler = bind("g i");
+
+      press("g");
+      expect(registry.pending).toEqual(["g"]);
+      press("i");
+
+      expect(handler).toHaveBeenCalledOnce();
+      expect(registry.pending).toEqual([]);
+    });
+
+    it("start another sequence when the key isn't the next one of the pending sequence", () => {
+      const inbox = bind("g i");
+      const next = bind("j");
+
+      press("g");
+      press("j");
+
+      expect([inbox, next].map((handler) => handler.mock.calls.length)).toEqual([0, 1]);
+      expect(registry.pending).toEqual([]);
+    });
+
+    it("drop a sequence after the timeout", () => {
+      vi.useFakeTimers();
+      const handler = bind("g i");
+
+      press("g");
+      vi.advanceTimersByTime(499);
+      expect(registry.pending).toEqual(["g"]);
+      vi.advanceTimersByTime(1);
+      press("i");
+
+      expect(registry.pending).toEqual([]);
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it("in a text field, only call the shortcuts with ctrl, alt or meta", () => {
+      const search = bind("/");
+      const save = bind("ctrl+s");
+      const input = $("input");
+
+      press("/", input);
+      press("s", input, { ctrlKey: true });
+
+      expect([search, save].map((handler) => handler.mock.calls.length)).toEqual([0, 1]);
+    });
+
+    it("call the binding of the innermost scope containing the focus", () => {
+      const global = bind("j");
+      const outer = bind("j", $("#outer"));
+      const inner = bind("j", $("#inner"));
+
+      press("j", $("#in-inner"));
+      press("j", $("#in-outer"));
+      press("j");
+
+      expect([global, outer, inner].map((handler) => handler.mock.calls.length)).toEqual([1, 1, 1]);
+      expect(outer.mock.calls[0][0].target).toBe($("#in-outer"));
+    });
+
+    it("follow the shadowing of a sequence by a prefix of an inner scope, only inside it", () => {
+      const sequence = bind("g i", $("#outer"));
+      const prefix = bind("g", $("#inner"));
+
+      press("g", $("#in-inner"));
+      press("i", $("#in-inner"));
+      press("g", $("#in-outer"));
+      press("i", $("#in-outer"));
+
+      expect([sequence, prefix].map((handler) => handler.mock.calls.length)).toEqual([1, 1]);
+    });
+
+    it("aren't listened to once every binding is removed", () => {
+      const handler = bind("j");
+      unregisters.forEach((unregister) => unregister());
+      unregisters = [];
+
+      const event = press("j");
+
+      expect([handler.mock.calls.length, event.defaultPrevented]).toEqual([0, false]);
+    });
+  });
+});
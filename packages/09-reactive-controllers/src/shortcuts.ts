@@ -0,0 +1,254 @@
+import { ReactiveController, ReactiveControllerHost } from "lit";
+import { ShortcutHandler, isEditable, shortcutOf } from "./05-keyboard-controller";
+
+export interface ShortcutAction {
+  /** Shown by `<shortcut-help>` */
+  description: string;
+  handler: ShortcutHandler;
+}
+
+export interface ShortcutBinding extends ShortcutAction {
+  /** As written: `"ctrl+k"`, `"g i"` */
+  keys: string;
+  /** Normalized like `shortcutOf()`, one per key press of a sequence */
+  chords: string[];
+  /** Active while the focus is in this element, everywhere without one */
+  scope?: Element;
+  /** Groups the bindings in `<shortcut-help>` */
+  label: string;
+}
+
+/**
+ * Two bindings of the same scope that can't both work: the same keys (`duplicate`), or keys starting
+ * with the keys of the other binding (`prefix`: `g` would be matched before `g i` is complete).
+ * The binding registered first wins, the other one is ignored.
+ *
+ * Bindings of different scopes never conflict: a scope overrides the scopes around it (and the global bindings)
+ * while the focus is inside it, and only there. Outside it, the shadowed binding works again.
+ */
+export interface ShortcutConflict {
+  kind: "duplicate" | "prefix";
+  registered: ShortcutBinding;
+  ignored: ShortcutBinding;
+}
+
+const modifiers = ["ctrl", "alt", "meta", "shift"];
+
+const isApple = /Mac|iPhone|iPad/.test(navigator.userAgent);
+
+const aliases: Record<string, string> = {
+  esc: "escape",
+  space: " ",
+  up: "arrowup",
+  down: "arrowdown",
+  left: "arrowleft",
+  right: "arrowright",
+};
+
+/**
+ * One key press of a shortcut, normalized like `shortcutOf()` does for events:
+ * `"Shift+Ctrl+K"` is `"ctrl+shift+k"`, `"shift+?"` is `"?"`, `mod` is `meta` on Apple devices and `ctrl` elsewhere.
+ * `+` is a key too: `"ctrl++"`.
+ */
+const parseChord = (chord: string, keys: string) => {
+  const lower = chord.toLowerCase();
+  const key = lower === "+" || lower.endsWith("++") ? "+" : lower.slice(lower.lastIndexOf("+") + 1);
+  const pressed = lower
+    .slice(0, lower.length - key.length)
+    .split("+")
+    .filter(Boolean)
+    .map((modifier) => (modifier === "mod" ? (isApple ? "meta" : "ctrl") : modifier));
+  const unknown = pressed.find((modifier) => !modifiers.includes(modifier));
+  if (unknown || !key) {
+    throw new Error(`[shortcuts] "${keys}": ${unknown ? `unknown modifier "${unknown}"` : "no key"}`);
+  }
+  const normalized = aliases[key] ?? key;
+  const isSymbol = normalized.length === 1 && normalized.toLowerCase() === normalized.toUpperCase();
+  const kept = modifiers.filter((modifier) => pressed.includes(modifier) && !(modifier === "shift" && isSymbol));
+  return [...kept, normalized].join("+");
+};
+
+/** `"g i"` → `["g", "i"]`: a sequence of key presses separated by spaces */
+export const parseShortcut = (keys: string) =>
+  keys
+    .trim()
+    .split(/\s+/)
+    .map((chord) => parseChord(chord, keys));
+
+const startsWith = (chords: string[], prefix: string[]) => prefix.every((chord, i) => chords[i] === chord);
+
+/** Typing in a field, only the chords with `ctrl`, `alt` or `meta` are shortcuts */
+const worksInFields = ({ chords: [first] }: ShortcutBinding) =>
+  first.split("+").some((part) => part === "ctrl" || part === "alt" || part === "meta");
+
+/**
+ * The bindings of every element, and the one `keydown` listener on `window` they share:
+ * added with the first binding, removed with the last, so no element leaves a listener behind.
+ *
+ * For a key press, the registry looks for the bindings of the sequence typed so far, among the bindings whose scope
+ * contains the focus (`composedPath()` of the event, through shadow roots) and the global ones:
+ * the innermost scope wins, then the binding registered first.
+ * A sequence waits `sequenceTimeout` ms for its next key press.
+ */
+export class ShortcutRegistry {
+  private _bindings: ShortcutBinding[] = [];
+
+  private _pending: string[] = [];
+
+  private _timeout?: ReturnType<typeof setTimeout>;
+
+  private _subscribers = new Set<() => void>();
+
+  constructor(public sequenceTimeout = 1000) {}
+
+  /** Returns a function removing the binding */
+  register(binding: Omit<ShortcutBinding, "chords">) {
+    const registered: ShortcutBinding = { ...binding, chords: parseShortcut(binding.keys) };
+    this._bindings = [...this._bindings, registered];
+    if (this._bindings.length === 1) {
+      window.addEventListener("keydown", this._onKeyDown);
+    }
+    for (const { kind, registered: winner, ignored } of this.conflicts()) {
+      if (ignored === registered) {
+        console.warn(
+          `[shortcuts] "${ignored.keys}" (${ignored.label}) is ignored, ${kind} of "${winner.keys}" (${winner.label})`
+        );
+      }
+    }
+    this._notify();
+    return () => {
+      this._bindings = this._bindings.filter((other) => other !== registered);
+      if (!this._bindings.length) {
+        window.removeEventListener("keydown", this._onKeyDown);
+        this._reset();
+      }
+      this._notify();
+    };
+  }
+
+  get bindings(): readonly ShortcutBinding[] {
+    return this._bindings;
+  }
+
+  /** The key presses of a sequence in progress */
+  get pending(): readonly string[] {
+    return this._pending;
+  }
+
+  /** The bindings ignored because of an earlier one of the same scope, cross-scope shadowing is allowed */
+  conflicts(): ShortcutConflict[] {
+    return this._bindings.flatMap((binding, i) => {
+      const earlier = this._bindings.slice(0, i).filter((other) => other.scope === binding.scope);
+      const duplicate = earlier.find((other) => other.chords.join(" ") === binding.chords.join(" "));
+      const prefix = earlier.find(
+        (other) =>
+          other.chords.length !== binding.chords.length &&
+          (startsWith(other.chords, binding.chords) || startsWith(binding.chords, other.chords))
+      );
+      const conflict = duplicate ? ("duplicate" as const) : prefix ? ("prefix" as const) : undefined;
+      return conflict ? [{ kind: conflict, registered: (duplicate ?? prefix)!, ignored: binding }] : [];
+    });
+  }
+
+  /** The bindings that work with the focus on `path` (a `composedPath()`), innermost scope first */
+  active(path: EventTarget[]) {
+    const ignored = new Set(this.conflicts().map(({ ignored }) => ignored));
+    const depth = ({ scope }: ShortcutBinding) => (scope ? path.indexOf(scope) : Infinity);
+    return this._bindings
+      .filter((binding) => !ignored.has(binding) && depth(binding) !== -1)
+      .sort((a, b) => depth(a) - depth(b));
+  }
+
+  /** Called when the bindings or the pending sequence change */
+  subscribe(subscriber: () => void) {
+    this._subscribers.add(subscriber);
+    return () => this._subscribers.delete(subscriber);
+  }
+
+  private _onKeyDown = (e: KeyboardEvent) => {
+    if (["Control", "Alt", "Meta", "Shift"].includes(e.key)) {
+      return;
+    }
+    const path = e.composedPath();
+    const candidates = this.active(path).filter((binding) => !isEditable(path[0]) || worksInFields(binding));
+    const typed = [...this._pending, shortcutOf(e)];
+    const exact = candidates.find(({ chords }) => chords.length === typed.length && startsWith(chords, typed));
+    if (exact) {
+      e.preventDefault();
+      this._reset();
+      exact.handler(e);
+    } else if (candidates.some(({ chords }) => chords.length > typed.length && startsWith(chords, typed))) {
+      e.preventDefault();
+      this._pending = typed;
+      clearTimeout(this._timeout);
+      this._timeout = setTimeout(() => this._reset(), this.sequenceTimeout);
+      this._notify();
+    } else if (this._pending.length) {
+      // Not the next key of the sequence: maybe the first key of another one
+      this._reset();
+      this._onKeyDown(e);
+    }
+  };
+
+  private _reset() {
+    clearTimeout(this._timeout);
+    if (this._pending.length) {
+      this._pending = [];
+      this._notify();
+    }
+  }
+
+  private _notify() {
+    this._subscribers.forEach((subscriber) => subscriber());
+  }
+}
+
+/** The registry of the page, shared by every `ShortcutController` and `<shortcut-help>` */
+export const shortcuts = new ShortcutRegistry();
+
+export interface ShortcutControllerOptions {
+  /** `global` (default): wherever the focus is. `focus`: while the focus is in the host */
+  scope?: "global" | "focus";
+  /** Groups the bindings in `<shortcut-help>`, the tag name of the host by default */
+  label?: string;
+  registry?: ShortcutRegistry;
+}
+
+/**
+ * Registers shortcuts while the host is connected:
+ * ```ts
+ * private shortcuts = new ShortcutController(this, {
+ *   "mod+k": { description: "Search", handler: () => this._search.focus() },
+ *   "g i": { description: "Go to the inbox", handler: () => (this._view = "inbox") },
+ * });
+ * ```
+ * Keys are chords (`ctrl+shift+k`) or sequences of chords separated by spaces (`g i`).
+ * With `scope: "focus"`, the shortcuts only work while the focus is inside the host, and win over the global ones.
+ * Unlike `KeyboardShortcutsController`, the controller adds no listener: the registry listens once for every element.
+ */
+export class ShortcutController implements ReactiveController {
+  host: ReactiveControllerHost & HTMLElement;
+
+  private _unregister: Array<() => void> = [];
+
+  constructor(
+    host: ReactiveControllerHost & HTMLElement,
+    public actions: Record<string, ShortcutAction>,
+    private _options: ShortcutControllerOptions = {}
+  ) {
+    this.host = host;
+    host.addController(this);
+  }
+
+  hostConnected() {
+    const { scope = "global", label = `<${this.host.localName}>`, registry = shortcuts } = this._options;
+    this._unregister = Object.entries(this.actions).map(([keys, action]) =>
+      registry.register({ keys, ...action, label, scope: scope === "focus" ? this.host : undefined })
+    );
+  }
+
+  hostDisconnected() {
+    this._unregister.forEach((unregister) => unregister());
+    this._unregister = [];
+  }
+}
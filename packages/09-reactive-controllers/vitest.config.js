@@ -0,0 +1,5 @@
+import { defineConfig } from "vitest/config";
+import { dom } from "../../vitest.shared.js";
+
+// The shortcuts are dispatched as keyboard events in a headless DOM
+export default defineConfig(dom);
@@ -0,0 +1,161 @@
+import { LitElement, css, html } from "lit";
+import { customElement, query, state } from "lit/decorators.js";
+import { consume, createContext, provide } from "@lit/context";
+
+/**
+ * Context
+ * Context is a way of making data available to entire component subtrees without having to manually bind properties to every component.
+ * The data is "contextually" available, such that ancestor elements in between a provider of data and consumer of data aren't even aware of it.
+ *
+ * Lit's implementation of context (`@lit/context`) follows the Context Community Protocol:
+ * 1. A consumer dispatches a bubbling, composed `context-request` event with a context key and a callback.
+ * 2. The nearest provider of that key above the consumer stops the event and calls the callback with its value.
+ * 3. If the consumer subscribed, the provider calls the callback again every time its value changes.
+ *
+ * A context is created with `createContext()`, its type parameter types the value for providers and consumers:
+ * ```ts
+ * export const sessionContext = createContext<Session>(Symbol("session"));
+ * ```
+ *
+ * Compared to the `mylogin` event of 06-events (`my-dispatcher` / `my-listener`):
+ * - the listener doesn't have to wrap the dispatcher, any ancestor element can provide the session;
+ * - the elements in between don't pass the user down (no "prop drilling"), `session-header` and `session-menu`
+ *   below don't know about the session at all;
+ * - actions travel with the value: the login form calls `session.login()` instead of dispatching an event.
+ */
+export interface Session {
+  user?: string;
+  login(name: string): void;
+  logout(): void;
+}
+
+export const sessionContext = createContext<Session>(Symbol("session"));
+
+/**
+ * `@provide()` creates a `ContextProvider` for the decorated property.
+ * Setting the property updates every subscribed consumer, so the session is replaced, never mutated.
+ */
+@customElement("session-provider")
+export class SessionProvider extends LitElement {
+  @provide({ context: sessionContext })
+  @state()
+  session: Session = this._createSession();
+
+  private _createSession(user?: string): Session {
+    return {
+      user,
+      login: (name) => (this.session = this._createSession(name)),
+      logout: () => (this.session = this._createSession()),
+    };
+  }
+
+  render() {
+    return html`<slot></slot>`;
+  }
+
+  static styles = css`
+    :host {
+      display: block;
+      border: 1px dotted gray;
+      padding: 0.5rem;
+    }
+  `;
+}
+
+/**
+ * `@consume()` creates a `ContextConsumer` that requests the context when the element connects.
+ * The value is assigned to the decorated property, which must be reactive for the element to re-render.
+ * `subscribe: true` keeps receiving the values the provider sets later.
+ */
+@customElement("session-avatar")
+export class SessionAvatar extends LitElement {
+  @consume({ context: sessionContext, subscribe: true })
+  @state()
+  private _session?: Session;
+
+  render() {
+    const user = this._session?.user;
+    return user
+      ? html`<span class="avatar" title=${user}>${user[0].toUpperCase()}</span>
+          <button @click=${() => this._session?.logout()}>Logout</button>`
+      : html`<span>Guest</span>`;
+  }
+
+  static styles = css`
+    :host {
+      display: inline-flex;
+      gap: 0.5rem;
+      align-items: center;
+    }
+    .avatar {
+      display: inline-grid;
+      place-items: center;
+      width: 2rem;
+      height: 2rem;
+      border-radius: 50%;
+      background-color: lightblue;
+      color: black;
+    }
+  `;
+}
+
+/** Renders `session-avatar` a level deeper, without knowing about the session. */
+@customElement("session-menu")
+export class SessionMenu extends LitElement {
+  render() {
+    return html`<nav>Menu <session-avatar></session-avatar></nav>`;
+  }
+}
+
+/** Renders `session-menu`, again without knowing about the session. */
+@customElement("session-header")
+export class SessionHeader extends LitElement {
+  render() {
+    return html`<header><strong>Header</strong> <session-menu></session-menu></header>`;
+  }
+
+  static styles = css`
+    header {
+      display: flex;
+      justify-content: space-between;
+      align-items: center;
+      border-bottom: 1px dotted lightblue;
+    }
+  `;
+}
+
+@customElement("login-form")
+export class LoginForm extends LitElement {
+  @consume({ context: sessionContext, subscribe: true })
+  @state()
+  private _session?: Session;
+
+  // Not cached: the input is rendered again after a logout
+  @query("input") _input!: HTMLInputElement;
+
+  render() {
+    if (this._session?.user) {
+      return html`<p>Welcome ${this._session.user}!</p>`;
+    }
+    return html`
+      <p>Name: <input /> <button @click=${this._login}>Login</button></p>
+    `;
+  }
+
+  private _login() {
+    const name = this._input.value.trim();
+    if (name) {
+      this._session?.login(name);
+    }
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    "session-provider": SessionProvider;
+    "session-avatar": SessionAvatar;
+    "session-menu": SessionMenu;
+    "session-header": SessionHeader;
+    "login-form": LoginForm;
+  }
+}
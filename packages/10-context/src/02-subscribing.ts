@@ -0,0 +1,111 @@
+import { LitElement, css, html } from "lit";
+import { customElement, property, state } from "lit/decorators.js";
+import { ContextConsumer, consume, createContext, provide } from "@lit/context";
+
+export type ColorScheme = "light" | "dark";
+
+export const colorSchemeContext = createContext<ColorScheme>(Symbol("color-scheme"));
+
+/**
+ * Subscribing to context
+ * A consumer receives the value once, when it connects, unless it subscribes:
+ * the provider then keeps a reference to its callback and calls it whenever the value changes,
+ * until the consumer disconnects.
+ *
+ * The provider below is nested in the light DOM of the demo, consumers are found through slots too:
+ * the `context-request` event is composed, it bubbles through the flattened tree.
+ */
+@customElement("color-scheme-provider")
+export class ColorSchemeProvider extends LitElement {
+  @provide({ context: colorSchemeContext })
+  @property({ reflect: true })
+  scheme: ColorScheme = "light";
+
+  render() {
+    return html`
+      <button @click=${() => (this.scheme = this.scheme === "light" ? "dark" : "light")}>
+        Switch to ${this.scheme === "light" ? "dark" : "light"}
+      </button>
+      <slot></slot>
+    `;
+  }
+
+  static styles = css`
+    :host {
+      display: block;
+      border: 1px dotted gray;
+      padding: 0.5rem;
+    }
+  `;
+}
+
+const schemeStyles = css`
+  .light {
+    background-color: white;
+    color: black;
+  }
+  .dark {
+    background-color: black;
+    color: white;
+  }
+`;
+
+/** Re-renders on every change of the provided scheme. */
+@customElement("subscribed-consumer")
+export class SubscribedConsumer extends LitElement {
+  @consume({ context: colorSchemeContext, subscribe: true })
+  @state()
+  private _scheme?: ColorScheme;
+
+  render() {
+    return html`<p class=${this._scheme ?? ""}>subscribe: true → ${this._scheme}</p>`;
+  }
+
+  static styles = schemeStyles;
+}
+
+/** Keeps the scheme it received when it connected. */
+@customElement("once-consumer")
+export class OnceConsumer extends LitElement {
+  @consume({ context: colorSchemeContext })
+  @state()
+  private _scheme?: ColorScheme;
+
+  render() {
+    return html`<p class=${this._scheme ?? ""}>subscribe: false → ${this._scheme}</p>`;
+  }
+
+  static styles = schemeStyles;
+}
+
+/**
+ * Decorators are a shorthand for the `ContextConsumer` controller (and `ContextProvider` for `@provide()`).
+ * The controller can be used directly to be called back on every value, it keeps the last one in `value`:
+ * ```ts
+ * new ContextConsumer(this, { context, subscribe: true, callback: (value, unsubscribe) => {} });
+ * ```
+ */
+@customElement("controller-consumer")
+export class ControllerConsumer extends LitElement {
+  @state()
+  private _changes = 0;
+
+  private _scheme = new ContextConsumer(this, {
+    context: colorSchemeContext,
+    subscribe: true,
+    callback: () => this._changes++,
+  });
+
+  render() {
+    return html`<p>ContextConsumer → ${this._scheme.value} (${this._changes} values received)</p>`;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    "color-scheme-provider": ColorSchemeProvider;
+    "subscribed-consumer": SubscribedConsumer;
+    "once-consumer": OnceConsumer;
+    "controller-consumer": ControllerConsumer;
+  }
+}
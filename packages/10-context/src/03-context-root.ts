@@ -0,0 +1,101 @@
+import { LitElement, css, html } from "lit";
+import { customElement, state } from "lit/decorators.js";
+import { ref } from "lit/directives/ref.js";
+import { ContextRoot, consume, createContext, provide } from "@lit/context";
+
+export const greetingContext = createContext<string>(Symbol("greeting"));
+
+/**
+ * Late-upgrading providers
+ * A consumer requests its context once, when it connects. If the provider element is not defined yet,
+ * nothing answers the `context-request` event and the consumer never gets a value,
+ * even after the provider upgrades: element definition order matters, which is hard to guarantee with lazy loaded modules.
+ *
+ * A `ContextRoot` attached to an ancestor of both fixes this:
+ * - it stores the unanswered `context-request` events that subscribe (one-shot requests are not stored);
+ * - a provider dispatches a `context-provider` event when it connects;
+ * - the root then dispatches the stored requests again from their consumers, and the new provider answers them.
+ *
+ * Usually the root is attached once for the whole page:
+ * ```ts
+ * new ContextRoot().attach(document.body);
+ * ```
+ */
+@customElement("late-consumer")
+export class LateConsumer extends LitElement {
+  @consume({ context: greetingContext, subscribe: true })
+  @state()
+  private _greeting?: string;
+
+  render() {
+    return html`<p>${this._greeting ?? "⏳ No provider answered"}</p>`;
+  }
+}
+
+/** Not defined with `@customElement()`: the demo defines it when the button is clicked. */
+export class LateProvider extends LitElement {
+  @provide({ context: greetingContext })
+  greeting = "👋 Hello from the late provider";
+
+  render() {
+    return html`<slot></slot>`;
+  }
+}
+
+@customElement("context-root-demo")
+export class ContextRootDemo extends LitElement {
+  @state()
+  private _defined = !!customElements.get("late-provider");
+
+  private _root = new ContextRoot();
+
+  /**
+   * The root must listen before the consumers connect. `ref()` is called while the template is committed,
+   * before its DOM is inserted in the document, `firstUpdated()` would be too late.
+   */
+  private _attachRoot = (element?: Element) => {
+    if (element) {
+      this._root.attach(element as HTMLElement);
+    }
+  };
+
+  render() {
+    return html`
+      <button ?disabled=${this._defined} @click=${this._define}>Define late-provider</button>
+      <div class="columns">
+        <div>
+          <h4>Without a ContextRoot</h4>
+          <late-provider><late-consumer></late-consumer></late-provider>
+        </div>
+        <div ${ref(this._attachRoot)}>
+          <h4>With a ContextRoot</h4>
+          <late-provider><late-consumer></late-consumer></late-provider>
+        </div>
+      </div>
+    `;
+  }
+
+  private _define() {
+    customElements.define("late-provider", LateProvider);
+    this._defined = true;
+  }
+
+  static styles = css`
+    .columns {
+      display: grid;
+      grid-template-columns: 1fr 1fr;
+      gap: 1rem;
+    }
+    .columns > div {
+      border: 1px dotted gray;
+    }
+  `;
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    "late-consumer": LateConsumer;
+    "late-provider": LateProvider;
+    "context-root-demo": ContextRootDemo;
+  }
+}
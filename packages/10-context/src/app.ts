@@ -0,0 +1,47 @@
+import { LitElement, css, html } from "lit";
+import { customElement } from "lit/decorators.js";
+import "./01-provide-consume";
+import "./02-subscribing";
+import "./03-context-root";
+
+@customElement("app-lit-context")
+export class AppElement extends LitElement {
+  render() {
+    return html`
+      <main>
+        <h1>10 - Context</h1>
+
+        <h3>01 - Providing and consuming context</h3>
+        <session-provider>
+          <session-header></session-header>
+          <login-form></login-form>
+        </session-provider>
+
+        <h3>02 - Subscribing to context</h3>
+        <color-scheme-provider>
+          <subscribed-consumer></subscribed-consumer>
+          <once-consumer></once-consumer>
+          <controller-consumer></controller-consumer>
+        </color-scheme-provider>
+
+        <h3>03 - Late-upgrading providers and ContextRoot</h3>
+        <context-root-demo></context-root-demo>
+      </main>
+    `;
+  }
+
+  static styles = css`
+    :host {
+      max-width: 1280px;
+      margin: 0 auto;
+      padding: 2rem;
+      text-align: center;
+    }
+  `;
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    "app-lit-context": AppElement;
+  }
+}
@@ -0,0 +1,56 @@
+import { LitElement, html } from "lit";
+import { AsyncDirective } from "lit/async-directive.js";
+import { customElement, state } from "lit/decorators.js";
+import { directive } from "lit/directive.js";
+import { countryList } from "./country-list";
+import { fakeApi } from "./fake-api";
+
+/**
+ * The naive pattern
+ * `ResolvePromise` from 08-templates renders the value of whichever promise resolves last,
+ * not the value of the last promise it was given:
+ * - every render starts a new request, even when the query didn't change;
+ * - a slow response to an old query overwrites the response to the current one (a race condition);
+ * - a rejected promise is never rendered, the "waiting" message stays forever;
+ * - nothing is cancelled when the query changes or the element is removed.
+ *
+ * Type "fr" then "fra" quickly: the header of the results doesn't always match the input.
+ * Type "error" to see the rejection ignored.
+ */
+class ResolvePromise extends AsyncDirective {
+  render(promise: Promise<unknown>) {
+    Promise.resolve(promise).then((resolvedValue) => {
+      // Rendered asynchronously:
+      this.setValue(resolvedValue);
+    });
+
+    // Rendered synchronously:
+    return `Waiting for promise to resolve`;
+  }
+}
+
+const resolvePromise = directive(ResolvePromise);
+
+@customElement("naive-search")
+export class NaiveSearch extends LitElement {
+  @state()
+  private _query = "";
+
+  render() {
+    const query = this._query;
+    return html`
+      <input placeholder="Search countries" @input=${this._handleInput} />
+      <div>${resolvePromise(fakeApi.searchCountries(query).then((countries) => countryList(query, countries)))}</div>
+    `;
+  }
+
+  private _handleInput(e: Event) {
+    this._query = (e.target as HTMLInputElement).value;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    "naive-search": NaiveSearch;
+  }
+}
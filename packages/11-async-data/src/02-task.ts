@@ -0,0 +1,60 @@
+import { LitElement, html } from "lit";
+import { customElement, state } from "lit/decorators.js";
+import { Task } from "@lit/task";
+import { countryList } from "./country-list";
+import { fakeApi } from "./fake-api";
+
+/**
+ * Task
+ * `@lit/task` provides `Task`, a reactive controller that runs an async function and renders its state.
+ * ```ts
+ * private _searchTask = new Task(this, {
+ *   task: async ([query], { signal }) => fakeApi.searchCountries(query, { signal }),
+ *   args: () => [this._query],
+ * });
+ * ```
+ *
+ * - `args()` is called on every host update, the task runs again only when the arguments changed
+ *   (compared with `argsEqual`, shallow array equality by default).
+ * - Starting a new run aborts the `signal` of the previous one: pass it to `fetch()` (or any API accepting one)
+ *   so the superseded request is cancelled, not just ignored.
+ * - Only the value of the latest run is kept: a stale run that resolves late is dropped, even if it ignores the signal.
+ * - `render()` picks the renderer of the current status: `initial`, `pending`, `complete` or `error`.
+ *   While pending, `value` still holds the previous result, so it can be kept on screen.
+ *
+ * The task is not aborted when the host disconnects. `abort()` does it, but the aborted run ends in the `error` state
+ * and the task doesn't run again on reconnection unless its arguments change or `run()` is called.
+ */
+@customElement("task-search")
+export class TaskSearch extends LitElement {
+  @state()
+  private _query = "";
+
+  private _searchTask = new Task(this, {
+    task: async ([query], { signal }) => fakeApi.searchCountries(query, { signal }),
+    args: () => [this._query] as const,
+  });
+
+  render() {
+    return html`
+      <input placeholder="Search countries" @input=${this._handleInput} />
+      <div>
+        ${this._searchTask.render({
+          pending: () => html`<p>Searching "${this._query}"…</p>`,
+          complete: (countries) => countryList(this._query, countries),
+          error: (error) => html`<p>❌ ${error instanceof Error ? error.message : String(error)}</p>`,
+        })}
+      </div>
+    `;
+  }
+
+  private _handleInput(e: Event) {
+    this._query = (e.target as HTMLInputElement).value;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    "task-search": TaskSearch;
+  }
+}
@@ -0,0 +1,66 @@
+import { LitElement, html } from "lit";
+import { customElement, query, state } from "lit/decorators.js";
+import { Task, TaskStatus } from "@lit/task";
+import { Country, fakeApi } from "./fake-api";
+
+/**
+ * Running a task on demand
+ * With `autoRun: false` the task ignores its arguments changes and only runs when `run()` is called,
+ * with the arguments passed to `run()` (or the ones returned by `args()`).
+ *
+ * `abort(reason)` aborts the `signal` of the current run. The task function rejects with the reason (as `fetch()` does),
+ * so the task ends in the `error` state with it. Aborting does nothing when no run is pending.
+ * `onComplete` and `onError` are called for the runs that weren't superseded.
+ */
+@customElement("task-run")
+export class TaskRun extends LitElement {
+  @state()
+  private _history: string[] = [];
+
+  @query("input", true)
+  private _input!: HTMLInputElement;
+
+  private _countryTask = new Task(this, {
+    task: async ([code]: readonly [string], { signal }): Promise<Country> =>
+      fakeApi.getCountry(code, { signal }),
+    autoRun: false,
+    onComplete: (country) => (this._history = [...this._history, `✅ ${country.name}`]),
+    onError: (error) => (this._history = [...this._history, `❌ ${this._describe(error)}`]),
+  });
+
+  render() {
+    const pending = this._countryTask.status === TaskStatus.PENDING;
+    return html`
+      <p>
+        <input placeholder="Country code, e.g. FR" />
+        <button @click=${this._run}>Get country</button>
+        <button ?disabled=${!pending} @click=${() => this._countryTask.abort("Cancelled by the user")}>
+          Abort
+        </button>
+      </p>
+      ${this._countryTask.render({
+        initial: () => html`<p>Enter a code and press "Get country"</p>`,
+        pending: () => html`<p>Loading…</p>`,
+        complete: (country) => html`<p><code>${country.code}</code> ${country.name}</p>`,
+        error: (error) => html`<p>❌ ${this._describe(error)}</p>`,
+      })}
+      <ol>
+        ${this._history.map((entry) => html`<li>${entry}</li>`)}
+      </ol>
+    `;
+  }
+
+  private _run() {
+    this._countryTask.run([this._input.value.trim()]);
+  }
+
+  private _describe(error: unknown) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    "task-run": TaskRun;
+  }
+}
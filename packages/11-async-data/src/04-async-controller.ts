@@ -0,0 +1,151 @@
+import { LitElement, ReactiveController, ReactiveControllerHost, html } from "lit";
+import { customElement, state } from "lit/decorators.js";
+import { countryList } from "./country-list";
+import { fakeApi } from "./fake-api";
+
+export type AsyncStatus = "initial" | "pending" | "complete" | "error";
+
+export interface AsyncRenderers<R> {
+  initial?: () => unknown;
+  pending?: () => unknown;
+  complete?: (value: R) => unknown;
+  error?: (error: unknown) => unknown;
+}
+
+export type AsyncFunction<A extends ReadonlyArray<unknown>, R> = (
+  args: A,
+  options: { signal: AbortSignal }
+) => Promise<R>;
+
+const shallowArrayEquals = (a: ReadonlyArray<unknown>, b: ReadonlyArray<unknown>) =>
+  a.length === b.length && a.every((value, i) => Object.is(value, b[i]));
+
+/**
+ * What `Task` does, written by hand: a reactive controller is all it takes.
+ *
+ * - `hostUpdate()` reads the arguments before each render and runs the function when they changed,
+ *   so the render that follows already shows the `pending` state.
+ * - Each run gets its own `AbortController`, a new run aborts the previous one.
+ * - Each run gets an id, a run that settles after a newer one started is dropped: the race condition
+ *   of the naive pattern is fixed even for functions ignoring the signal.
+ *
+ * Unlike `Task`, a pending run is aborted when the host disconnects, and runs again when it reconnects.
+ */
+export class AsyncController<A extends ReadonlyArray<unknown>, R> implements ReactiveController {
+  host: ReactiveControllerHost;
+
+  status: AsyncStatus = "initial";
+  value?: R;
+  error?: unknown;
+
+  private _args?: A;
+  private _runId = 0;
+  private _abortController?: AbortController;
+
+  constructor(host: ReactiveControllerHost, private _fn: AsyncFunction<A, R>, private _argsFn: () => A) {
+    this.host = host;
+    host.addController(this);
+  }
+
+  hostConnected() {
+    // Arguments are forgotten when a pending run is aborted on disconnection, the next update runs it again
+    if (this._args === undefined) {
+      this.host.requestUpdate();
+    }
+  }
+
+  hostUpdate() {
+    const args = this._argsFn();
+    if (this._args === undefined || !shallowArrayEquals(this._args, args)) {
+      this._args = args;
+      this.run(args);
+    }
+  }
+
+  hostDisconnected() {
+    if (this.status === "pending") {
+      // Drops the aborted run, it would otherwise end in the error state
+      this._runId++;
+      this._abortController?.abort();
+      this._args = undefined;
+    }
+  }
+
+  abort(reason?: unknown) {
+    if (this.status === "pending") {
+      this._abortController?.abort(reason);
+    }
+  }
+
+  async run(args = this._argsFn()) {
+    this._abortController?.abort();
+    const abortController = (this._abortController = new AbortController());
+    const runId = ++this._runId;
+    this.status = "pending";
+    this.host.requestUpdate();
+    try {
+      const value = await this._fn(args, { signal: abortController.signal });
+      if (runId !== this._runId) {
+        return;
+      }
+      this.value = value;
+      this.error = undefined;
+      this.status = "complete";
+    } catch (e) {
+      if (runId !== this._runId) {
+        return;
+      }
+      this.error = e;
+      this.status = "error";
+    }
+    this.host.requestUpdate();
+  }
+
+  render(renderers: AsyncRenderers<R>) {
+    switch (this.status) {
+      case "initial":
+        return renderers.initial?.();
+      case "pending":
+        return renderers.pending?.();
+      case "complete":
+        return renderers.complete?.(this.value as R);
+      case "error":
+        return renderers.error?.(this.error);
+    }
+  }
+}
+
+@customElement("controller-search")
+export class ControllerSearch extends LitElement {
+  @state()
+  private _query = "";
+
+  private _search = new AsyncController(
+    this,
+    ([query], { signal }) => fakeApi.searchCountries(query, { signal }),
+    () => [this._query] as const
+  );
+
+  render() {
+    return html`
+      <input placeholder="Search countries" @input=${this._handleInput} />
+      <div>
+        ${this._search.render({
+          pending: () => html`<p>Searching "${this._query}"…</p>`,
+          complete: (countries) => countryList(this._query, countries),
+          error: (error) => html`<p>❌ ${error instanceof Error ? error.message : String(error)}</p>`,
+        })}
+      </div>
+    `;
+  }
+
+  private _handleInput(e: Event) {
+    this._query = (e.target as HTMLInputElement).value;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    "controller-search": ControllerSearch;
+  }
+}
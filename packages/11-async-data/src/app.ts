@@ -0,0 +1,52 @@
+import { LitElement, css, html } from "lit";
+import { customElement } from "lit/decorators.js";
+import "./01-naive-promise";
+import "./02-task";
+import "./03-task-run";
+import "./04-async-controller";
+
+@customElement("app-lit-async-data")
+export class AppElement extends LitElement {
+  render() {
+    return html`
+      <main>
+        <h1>11 - Async data</h1>
+        <p>
+          Searches answer after 200ms to 1.5s. Type quickly to race them, type <code>error</code> to make them fail.
+        </p>
+
+        <h3>01 - The naive promise directive</h3>
+        <naive-search></naive-search>
+
+        <h3>02 - Task</h3>
+        <task-search></task-search>
+
+        <h3>03 - Running a task on demand</h3>
+        <task-run></task-run>
+
+        <h3>04 - A hand-written async controller</h3>
+        <controller-search></controller-search>
+      </main>
+    `;
+  }
+
+  static styles = css`
+    :host {
+      max-width: 1280px;
+      margin: 0 auto;
+      padding: 2rem;
+      text-align: center;
+    }
+
+    ul,
+    ol {
+      text-align: left;
+    }
+  `;
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    "app-lit-async-data": AppElement;
+  }
+}
@@ -0,0 +1,13 @@
+import { html } from "lit";
+import { Country } from "./fake-api";
+
+/**
+ * The results of a search, headed by the query they answer:
+ * a result list that doesn't match the text in the input is a stale result.
+ */
+export const countryList = (query: string, countries: Country[]) => html`
+  <p>${countries.length} results for "${query}"</p>
+  <ul>
+    ${countries.map(({ code, name }) => html`<li><code>${code}</code> ${name}</li>`)}
+  </ul>
+`;
@@ -0,0 +1,104 @@
+/**
+ * An in-process stand-in for a search API, so the demos run offline.
+ *
+ * Every call answers after a random delay (`minLatency` to `maxLatency`): two searches started in a row
+ * can complete in the opposite order, which is what makes naive promise rendering show stale results.
+ * Calls honor an `AbortSignal` like `fetch()` does: they reject with the abort reason,
+ * an `AbortError` `DOMException` unless one was passed to `abort()`.
+ */
+
+export interface Country {
+  code: string;
+  name: string;
+}
+
+const countries: Country[] = [
+  { code: "AR", name: "Argentina" },
+  { code: "AU", name: "Australia" },
+  { code: "AT", name: "Austria" },
+  { code: "BE", name: "Belgium" },
+  { code: "BR", name: "Brazil" },
+  { code: "CA", name: "Canada" },
+  { code: "CL", name: "Chile" },
+  { code: "CN", name: "China" },
+  { code: "DK", name: "Denmark" },
+  { code: "EG", name: "Egypt" },
+  { code: "FI", name: "Finland" },
+  { code: "FR", name: "France" },
+  { code: "DE", name: "Germany" },
+  { code: "GR", name: "Greece" },
+  { code: "IN", name: "India" },
+  { code: "IE", name: "Ireland" },
+  { code: "IT", name: "Italy" },
+  { code: "JP", name: "Japan" },
+  { code: "KE", name: "Kenya" },
+  { code: "MX", name: "Mexico" },
+  { code: "NL", name: "Netherlands" },
+  { code: "NZ", name: "New Zealand" },
+  { code: "NO", name: "Norway" },
+  { code: "PE", name: "Peru" },
+  { code: "PL", name: "Poland" },
+  { code: "PT", name: "Portugal" },
+  { code: "ES", name: "Spain" },
+  { code: "SE", name: "Sweden" },
+  { code: "CH", name: "Switzerland" },
+  { code: "GB", name: "United Kingdom" },
+  { code: "US", name: "United States" },
+];
+
+export interface RequestOptions {
+  signal?: AbortSignal;
+}
+
+export const fakeApi = {
+  minLatency: 200,
+  maxLatency: 1500,
+
+  /**
+   * Countries whose name contains `query`, case insensitive.
+   * Rejects when `query` contains `error`, to show the error state.
+   */
+  searchCountries(query: string, { signal }: RequestOptions = {}) {
+    return this._respond(signal, () => {
+      if (/error/i.test(query)) {
+        throw new Error(`The server failed to search "${query}"`);
+      }
+      const q = query.trim().toLowerCase();
+      return countries.filter(({ name }) => name.toLowerCase().includes(q));
+    });
+  },
+
+  /** The country with this code, rejects when there is none. */
+  getCountry(code: string, { signal }: RequestOptions = {}) {
+    return this._respond(signal, () => {
+      const country = countries.find((country) => country.code === code.toUpperCase());
+      if (!country) {
+        throw new Error(`No country with code "${code}"`);
+      }
+      return country;
+    });
+  },
+
+  _respond<T>(signal: AbortSignal | undefined, respond: () => T) {
+    const latency = this.minLatency + Math.random() * (this.maxLatency - this.minLatency);
+    return new Promise<T>((resolve, reject) => {
+      const abort = () => {
+        clearTimeout(timerID);
+        reject(signal?.reason);
+      };
+      const timerID = setTimeout(() => {
+        signal?.removeEventListener("abort", abort);
+        try {
+          resolve(respond());
+        } catch (e) {
+          reject(e);
+        }
+      }, latency);
+      if (signal?.aborted) {
+        abort();
+        return;
+      }
+      signal?.addEventListener("abort", abort, { once: true });
+    });
+  },
+};
@@ -0,0 +1,11 @@
+/**
+ * Must be imported before lit: it patches `LitElement` so an element whose shadow root was rendered by the server
+ * hydrates it (attaches the template parts to the existing DOM and event listeners to its nodes)
+ * on its first update, instead of rendering it again.
+ */
+import "@lit-labs/ssr-client/lit-element-hydrate-support.js";
+import "@chapters/08-templates/src/01-expressions.ts";
+import "@chapters/08-templates/src/02-caching-template-results.ts";
+import "@chapters/08-templates/src/04-list.ts";
+import "@chapters/08-templates/src/06-attribute-directives.ts";
+import "@chapters/08-templates/src/07-rendering-directives.ts";
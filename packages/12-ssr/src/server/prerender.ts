@@ -0,0 +1,19 @@
+import { readFile, writeFile } from "node:fs/promises";
+import { demosTemplate, renderToString } from "./render-demos";
+
+/**
+ * Prerenders the demos into the client build: `dist/index.html` is written with the server output in place of
+ * `<!--ssr-outlet-->`, so `vite preview` (or any static host) serves the server-rendered page and the client bundle hydrates it.
+ *
+ * Built with `vite build --ssr` and run with Node after the client build, see the `build` script.
+ */
+const indexUrl = new URL("../dist/index.html", import.meta.url);
+
+const output = renderToString(demosTemplate);
+
+const template = await readFile(indexUrl, "utf8");
+if (!template.includes("<!--ssr-outlet-->")) {
+  throw new Error(`[prerender] no <!--ssr-outlet--> in ${indexUrl.pathname}`);
+}
+await writeFile(indexUrl, template.replace("<!--ssr-outlet-->", output));
+console.log(`[prerender] ${indexUrl.pathname}`);
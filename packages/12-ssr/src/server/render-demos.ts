@@ -0,0 +1,50 @@
+import { render } from "@lit-labs/ssr";
+import { collectResultSync } from "@lit-labs/ssr/lib/render-result.js";
+import { html } from "lit";
+import "@chapters/08-templates/src/01-expressions.ts";
+import "@chapters/08-templates/src/02-caching-template-results.ts";
+import "@chapters/08-templates/src/04-list.ts";
+import "@chapters/08-templates/src/06-attribute-directives.ts";
+import "@chapters/08-templates/src/07-rendering-directives.ts";
+
+/**
+ * The 08-templates demos rendered by the server.
+ *
+ * Importing `@lit-labs/ssr` installs a minimal DOM shim (`customElements`, `HTMLElement`...) before the element modules
+ * are evaluated, so `@customElement()` registers them on the server too.
+ * `render()` then runs each element's `render()` and writes its shadow root as a declarative shadow DOM
+ * `<template shadowrootmode="open">`, which the browser attaches while parsing the page, before any script runs.
+ *
+ * The `<!--lit-part-->` and `<!--lit-node-->` comments mark the template parts, hydration uses them to find
+ * the DOM each expression rendered instead of rendering it again.
+ */
+export const demosTemplate = html`
+  <h3>Child Expressions</h3>
+  <child-expressions></child-expressions>
+
+  <h3>List</h3>
+  <list-elements></list-elements>
+
+  <h3>Repeat</h3>
+  <repeat-elements></repeat-elements>
+
+  <h3>Caching Template Results</h3>
+  <caching-template-results></caching-template-results>
+
+  <h3>Built-in Directives</h3>
+  <class-map-element></class-map-element>
+  <style-map-element></style-map-element>
+  <if-defined-element></if-defined-element>
+  <when-choose-element></when-choose-element>
+  <map-join-range-element></map-join-range-element>
+  <keyed-element></keyed-element>
+  <guard-element></guard-element>
+  <unsafe-element></unsafe-element>
+`;
+
+/**
+ * Renders a template to a string.
+ * `render()` returns an iterable of strings (and promises, for async content), collected synchronously here:
+ * none of the demos render async content.
+ */
+export const renderToString = (template: unknown) => collectResultSync(render(template));
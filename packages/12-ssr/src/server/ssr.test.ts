@@ -0,0 +1,182 @@
+import { html, TemplateResult } from "lit";
+import { AsyncDirective } from "lit/async-directive.js";
+import { Directive, DirectiveClass } from "lit/directive.js";
+import { getDirectiveClass } from "lit/directive-helpers.js";
+import { describe, expect, it } from "vitest";
+// First: `@lit-labs/ssr` installs its DOM shim before the element modules are evaluated
+import { demosTemplate, renderToString } from "./render-demos";
+import { debounceValue, highlight, intersect, subscribe } from "lit-directives";
+import {
+  attributeLogger,
+  hello,
+  max,
+  resolvePromise,
+} from "@chapters/08-templates/src/05-custom-direcrtives.ts";
+
+/**
+ * The expectations are written against the output without the hydration comments and with whitespace collapsed,
+ * so they read like the HTML the browser shows before hydration, whatever the indentation of the templates.
+ */
+const stripHydrationMarkers = (output: string) =>
+  output.replace(/<!--\/?lit-(part|node)[^>]*-->/g, "").replace(/<\?>/g, "");
+
+const renderClean = (template: unknown) => stripHydrationMarkers(renderToString(template)).trim();
+
+/** The content of the element's declarative shadow root, `undefined` when it has none. */
+const shadowRootOf = (output: string, tag: string) =>
+  output
+    .match(
+      new RegExp(`<${tag}[^>]*><template shadowroot="open" shadowrootmode="open">([\\s\\S]*?)</template></${tag}>`)
+    )?.[1]
+    ?.replace(/\s+/g, " ");
+
+describe("the 08-templates demos", () => {
+  const output = stripHydrationMarkers(renderToString(demosTemplate));
+
+  it.each([
+    {
+      tag: "child-expressions",
+      contains: ['class="dotted-border active"', 'data-count="42"', "<h1>Hello John</h1>", "<span>✅ Active</span>"],
+    },
+    {
+      tag: "list-elements",
+      contains: ['<li style="color: red">red</li>', '<li style="color: blue">blue</li>'],
+    },
+    {
+      tag: "repeat-elements",
+      contains: ["<li>0: Flintstone, Fred</li>", "<li>3: Spacely, Cosmo</li>"],
+    },
+    { tag: "caching-template-results", contains: ["Welcome John"] },
+    // Built-in directives: each expectation is the behavior the demo's pitfall relies on
+    { tag: "class-map-element", contains: ['<div class="card ">'] },
+    { tag: "style-map-element", contains: ['<p style="--accent:steelblue;">'] },
+    { tag: "if-defined-element", contains: ['<img alt="Lit logo" width="32" height="32" />'] },
+    { tag: "when-choose-element", contains: ["Hello guest", "✅ Ready"] },
+    {
+      tag: "map-join-range-element",
+      contains: [
+        "<li>0: lit</li><li>1: vite</li><li>2: typescript</li>",
+        '<a href="#lit">lit</a><span> · </span><a href="#vite">vite</a>',
+        "★★★☆☆",
+        '<p class="sparse"></p>',
+      ],
+    },
+    { tag: "keyed-element", contains: ["With keyed: <label>"] },
+    { tag: "guard-element", contains: ["<p>apple, fig, pear</p>"] },
+    {
+      tag: "unsafe-element",
+      contains: [
+        "<p>&lt;em&gt;Rendered&lt;/em&gt; with",
+        "<p><em>Rendered</em> with <strong>unsafeHTML</strong></p>",
+        '<svg width="24" height="24"><circle cx="12" cy="12" r="10" fill="#324fff"></circle></svg>',
+      ],
+    },
+  ])("<$tag> has a declarative shadow root with what it renders in the browser", ({ tag, contains }) => {
+    const shadowRoot = shadowRootOf(output, tag);
+
+    expect(shadowRoot).toBeDefined();
+    for (const expected of contains) {
+      expect(shadowRoot).toContain(expected);
+    }
+  });
+});
+
+const overridesUpdate = (directiveClass: DirectiveClass) => {
+  let proto = directiveClass.prototype;
+  while (proto && proto !== Directive.prototype && proto !== AsyncDirective.prototype) {
+    if (Object.prototype.hasOwnProperty.call(proto, "update")) {
+      return true;
+    }
+    proto = Object.getPrototypeOf(proto);
+  }
+  return false;
+};
+
+/**
+ * On the server, a directive is created and its `render()` is called: there is no DOM, so `update()` is never called,
+ * and `setValue()` of an `AsyncDirective` has no rendered part to update (it throws).
+ * A directive relying on either renders something else on the server than in the browser:
+ * hydration then fails, or silently keeps the server value.
+ */
+const audit = (template: TemplateResult) => {
+  const directiveClass = getDirectiveClass(template.values[0])!;
+  return {
+    rendered: renderClean(template),
+    problems: [
+      overridesUpdate(directiveClass) && "overrides update(), which the server never calls",
+      directiveClass.prototype instanceof AsyncDirective && "is an AsyncDirective, setValue() throws on the server",
+    ].filter(Boolean),
+  };
+};
+
+describe("the custom directives of 08-templates", () => {
+  it("hello renders on the server like in the browser", () => {
+    expect(audit(html`<div>${hello()}</div>`)).toEqual({ rendered: "<div><div>Hello</div></div>", problems: [] });
+  });
+
+  it("max renders on the server like in the browser", () => {
+    expect(audit(html`<div>${max(9, 10)}</div>`)).toEqual({ rendered: "<div>10</div>", problems: [] });
+  });
+
+  it("attributeLogger is flagged: the server never calls its update()", () => {
+    expect(audit(html`<div a b>${attributeLogger()}</div>`).problems).toEqual([
+      "overrides update(), which the server never calls",
+    ]);
+  });
+
+  it("resolvePromise is flagged: its setValue() throws on the server", () => {
+    // A promise that never settles: `setValue()` would throw in a `then()` callback, an unhandled rejection
+    expect(audit(html`<div>${resolvePromise(new Promise(() => {}))}</div>`).problems).toEqual([
+      "is an AsyncDirective, setValue() throws on the server",
+    ]);
+  });
+});
+
+/**
+ * On the server the directives of `lit-directives` are constructed with their `PartInfo` and `render()` is called,
+ * which is enough to check what they render and that they reject unsupported expressions.
+ * Event listener and element expressions are skipped by the server, their directives are never constructed there.
+ */
+describe("lit-directives on the server", () => {
+  it("highlight marks every match, case-insensitively", () => {
+    expect(renderClean(html`<p>${highlight("Finland, Iceland", "LAND")}</p>`)).toBe(
+      "<p>Fin<mark>land</mark>, Ice<mark>land</mark></p>"
+    );
+  });
+
+  it("highlight matches regular expression characters literally and renders markup as text", () => {
+    expect(renderClean(html`<p>${highlight("1+1 <b>2</b>", "+")}</p>`)).toBe(
+      "<p>1<mark>+</mark>1 &lt;b&gt;2&lt;/b&gt;</p>"
+    );
+  });
+
+  it("highlight renders the text unchanged for an empty query", () => {
+    expect(renderClean(html`<p>${highlight("Finland", "")}</p>`)).toBe("<p>Finland</p>");
+  });
+
+  it("debounceValue renders the first value immediately", () => {
+    expect(renderClean(html`<p>${debounceValue("first", 500)}</p>`)).toBe("<p>first</p>");
+  });
+
+  it("subscribe renders nothing before a value is pushed", () => {
+    expect(renderClean(html`<p>${subscribe({ subscribe: () => ({ unsubscribe() {} }) })}</p>`)).toBe("<p></p>");
+  });
+
+  it("highlight rejects attribute expressions", () => {
+    expect(() => renderClean(html`<p title=${highlight("Finland", "land")}></p>`)).toThrow(
+      "highlight() can't be used in an attribute expression (`attr=${...}`), only in a child expression"
+    );
+  });
+
+  it("highlight rejects property expressions", () => {
+    expect(() => renderClean(html`<p .title=${highlight("Finland", "land")}></p>`)).toThrow(
+      "highlight() can't be used in a property expression"
+    );
+  });
+
+  it("intersect rejects child expressions", () => {
+    expect(() => renderClean(html`<p>${intersect(() => {})}</p>`)).toThrow(
+      "intersect() can't be used in a child expression (`<p>${...}</p>`), only in an element expression"
+    );
+  });
+});
@@ -0,0 +1,7 @@
+/// <reference types="vite/client" />
+
+/**
+ * The 08-templates sources are type-checked by their own package,
+ * this package only imports them for their side effects and their directives.
+ */
+declare module "@chapters/*";
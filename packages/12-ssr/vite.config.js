@@ -0,0 +1,17 @@
+import { fileURLToPath } from "node:url";
+import { defineConfig } from "vite";
+
+export default defineConfig(({ isSsrBuild }) => ({
+  resolve: {
+    alias: {
+      // The demos are imported straight from their package sources, e.g. `@chapters/08-templates/src/04-list.ts`
+      "@chapters": fileURLToPath(new URL("..", import.meta.url)),
+    },
+    // The server and the client must render with the same lit as the demos.
+    dedupe: ["lit"],
+  },
+  build: {
+    // The prerender script runs in Node, where top-level await is available
+    target: isSsrBuild ? "node20" : undefined,
+  },
+}));
@@ -0,0 +1,5 @@
+import { defineConfig, mergeConfig } from "vitest/config";
+import viteConfig from "./vite.config.js";
+
+// The server output is checked in Node, rendered by `@lit-labs/ssr` like the prerender step renders it
+export default defineConfig((env) => mergeConfig(viteConfig(env), { test: { environment: "node" } }));
@@ -0,0 +1,60 @@
+import { LitElement, css, html } from "lit";
+import { customElement, state } from "lit/decorators.js";
+import { localized, msg, str } from "@lit/localize";
+
+/**
+ * Messages
+ * `msg()` marks a string for translation and returns its translation in the active locale:
+ * - `msg("Hello")`: a plain string.
+ * - `msg(str`Hello ${name}`)`: a string with expressions. `str` keeps the expressions as placeholders,
+ *   translators can move them (`${name}, hallo`) but not change them.
+ * - `msg(html`...`)`: a template with markup, the tags are placeholders too.
+ *
+ * Options:
+ * - `desc`: a description for translators, extracted to the XLIFF `<note>`. The same English string can need different
+ *   translations depending on where it is used ("Save" a file, "Save" money).
+ * - `id`: a stable id. By default the id is a hash of the string, so editing the English text creates a new message
+ *   that needs translating again.
+ *
+ * `msg()` must be called while rendering: its result is a plain string, a field initialized with it never changes locale.
+ *
+ * This module doesn't import the runtime configuration, so it also builds in transform mode (`pnpm localize:transform`):
+ * the compiler then writes one copy of it per locale, with every `msg()` call replaced by its translation.
+ */
+@localized()
+@customElement("localized-messages")
+export class LocalizedMessages extends LitElement {
+  @state()
+  private _name = "Lit";
+
+  render() {
+    return html`
+      <p><input .value=${this._name} @input=${this._handleInput} /></p>
+      <p>${msg("Hello")}</p>
+      <p>${msg(str`Hello ${this._name}`)}</p>
+      <p>${msg(html`Welcome to <strong>Lit localize</strong>`)}</p>
+      <p>
+        <button>${msg("Save", { desc: "Button label, saves the current document" })}</button>
+        <button>${msg("Close", { id: "dialog-close" })}</button>
+      </p>
+    `;
+  }
+
+  private _handleInput(e: Event) {
+    this._name = (e.target as HTMLInputElement).value;
+  }
+
+  static styles = css`
+    :host {
+      display: block;
+      border: 1px dotted gray;
+      padding: 0.5rem;
+    }
+  `;
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    "localized-messages": LocalizedMessages;
+  }
+}
@@ -0,0 +1,73 @@
+import { LitElement, css, html } from "lit";
+import { customElement, state } from "lit/decorators.js";
+import { LocaleStatusEventDetail, localized, msg } from "@lit/localize";
+import { allLocales } from "./generated/locale-codes";
+import { getLocale, setLocale } from "./localization";
+
+/**
+ * Switches the locale of the page at runtime.
+ *
+ * `setLocale()` returns a promise, but the picker follows the `lit-localize-status` events instead,
+ * so it also reflects locale changes made by other code:
+ * - `loading`: the locale module is being loaded (`loadingLocale`);
+ * - `ready`: the locale is active, `@localized()` elements re-render;
+ * - `error`: the module failed to load, the previous locale stays active.
+ */
+@localized()
+@customElement("locale-picker")
+export class LocalePicker extends LitElement {
+  @state()
+  private _status: LocaleStatusEventDetail["status"] = "ready";
+
+  @state()
+  private _error?: string;
+
+  private _handleStatus = (e: WindowEventMap["lit-localize-status"]) => {
+    this._status = e.detail.status;
+    this._error = e.detail.status === "error" ? e.detail.errorMessage : undefined;
+  };
+
+  connectedCallback() {
+    super.connectedCallback();
+    window.addEventListener("lit-localize-status", this._handleStatus);
+  }
+
+  disconnectedCallback() {
+    window.removeEventListener("lit-localize-status", this._handleStatus);
+    super.disconnectedCallback();
+  }
+
+  render() {
+    const locale = getLocale();
+    // Every locale named in its own language
+    const name = (code: string) => new Intl.DisplayNames([code], { type: "language" }).of(code) ?? code;
+    return html`
+      <label>
+        ${msg("Language")}
+        <select @change=${this._handleChange}>
+          ${allLocales.map(
+            (code) => html`<option value=${code} ?selected=${code === locale}>${name(code)}</option>`
+          )}
+        </select>
+      </label>
+      ${this._status === "loading" ? html`<span>⏳</span>` : null}
+      ${this._error ? html`<span class="error">${this._error}</span>` : null}
+    `;
+  }
+
+  private _handleChange(e: Event) {
+    setLocale((e.target as HTMLSelectElement).value);
+  }
+
+  static styles = css`
+    .error {
+      color: crimson;
+    }
+  `;
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    "locale-picker": LocalePicker;
+  }
+}
@@ -0,0 +1,27 @@
+import { LitElement, html } from "lit";
+import { customElement } from "lit/decorators.js";
+import { localized } from "@lit/localize";
+import { getLocale } from "./localization";
+
+/**
+ * Numbers, dates and relative times are not messages: they are formatted with `Intl` for the active locale.
+ * `@localized()` re-renders the element when the locale changes, `getLocale()` then returns the new locale.
+ */
+@localized()
+@customElement("localized-formats")
+export class LocalizedFormats extends LitElement {
+  render() {
+    const locale = getLocale();
+    return html`
+      <p>${new Intl.NumberFormat(locale, { style: "currency", currency: "EUR" }).format(1234.5)}</p>
+      <p>${new Intl.DateTimeFormat(locale, { dateStyle: "full" }).format(new Date())}</p>
+      <p>${new Intl.RelativeTimeFormat(locale, { numeric: "auto" }).format(-1, "day")}</p>
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    "localized-formats": LocalizedFormats;
+  }
+}
@@ -0,0 +1,54 @@
+import { LitElement, css, html } from "lit";
+import { customElement } from "lit/decorators.js";
+import { localized, msg } from "@lit/localize";
+import "./localization";
+import "./01-messages";
+import "./02-locale-picker";
+import "./03-formatting";
+import "@chapters/02-components/src/02-render-component.ts";
+import "@chapters/vite-plugin-lit-css-ex/src/my-element.ts";
+
+@localized()
+@customElement("app-lit-localization")
+export class AppElement extends LitElement {
+  render() {
+    return html`
+      <main>
+        <h1>13 - ${msg("Localization")}</h1>
+        <locale-picker></locale-picker>
+
+        <h3>01 - ${msg("Messages")}</h3>
+        <localized-messages></localized-messages>
+
+        <h3>02 - ${msg("Formatting")}</h3>
+        <localized-formats></localized-formats>
+
+        <h3>03 - render-component</h3>
+        <render-component></render-component>
+
+        <h3>04 - my-element</h3>
+        <my-element></my-element>
+      </main>
+    `;
+  }
+
+  static styles = css`
+    :host {
+      max-width: 1280px;
+      margin: 0 auto;
+      padding: 2rem;
+      text-align: center;
+    }
+
+    locale-picker {
+      position: sticky;
+      top: 0;
+    }
+  `;
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    "app-lit-localization": AppElement;
+  }
+}
@@ -0,0 +1,31 @@
+
+    // Do not modify this file by hand!
+    // Re-generate this file by running lit-localize
+
+    import {html} from 'lit';
+    import {str} from '@lit/localize';
+
+    /* eslint-disable no-irregular-whitespace */
+    /* eslint-disable @typescript-eslint/no-explicit-any */
+
+    export const templates = {
+      'dialog-close': `Schließen`,
+'hd96ec2f1ced85921': html`Willkommen bei <strong>Lit localize</strong>`,
+'s0b3eb4542de32726': `Render kann nothing zurückgeben`,
+'s0c12cc99e879ebd5': `Eine Komponente rendern`,
+'s26c120ae4d140a2f': `Templates zusammensetzen`,
+'s33f85f24c0f5f008': `Speichern`,
+'s36785a0de2193360': `Lokalisierung`,
+'s3f6d32b521bf3fc4': `Render kann primitive Werte zurückgeben`,
+'s62bf2cafdf5e9f92': `Render kann noChange zurückgeben`,
+'s63f0bfacf2c00f6b': `Hallo`,
+'s73c1c5e257be2bdb': `Klicke auf die Vite- und Lit-Logos, um mehr zu erfahren`,
+'s761219fad84cb24e': `Formatierung`,
+'s89fdbac1c890a026': str`Zähler ist ${0}`,
+'saed7d3734ce7f09d': str`Hallo ${0}`,
+'sbdeedc1c60306b35': `Nachrichten`,
+'scac46ea39e62258a': `Render kann DOM-Knoten zurückgeben`,
+'se233d33705823d7b': `Render kann Arrays aller unterstützten Typen zurückgeben`,
+'sefcf950b3cc4fc3b': `Sprache`,
+    };
+  
\ No newline at end of file
@@ -0,0 +1,31 @@
+
+    // Do not modify this file by hand!
+    // Re-generate this file by running lit-localize
+
+    import {html} from 'lit';
+    import {str} from '@lit/localize';
+
+    /* eslint-disable no-irregular-whitespace */
+    /* eslint-disable @typescript-eslint/no-explicit-any */
+
+    export const templates = {
+      'dialog-close': `Cerrar`,
+'hd96ec2f1ced85921': html`Bienvenido a <strong>Lit localize</strong>`,
+'s0b3eb4542de32726': `Render puede devolver nothing`,
+'s0c12cc99e879ebd5': `Renderizar un componente`,
+'s26c120ae4d140a2f': `Componer plantillas`,
+'s33f85f24c0f5f008': `Guardar`,
+'s36785a0de2193360': `Localización`,
+'s3f6d32b521bf3fc4': `Render puede devolver valores primitivos`,
+'s62bf2cafdf5e9f92': `Render puede devolver noChange`,
+'s63f0bfacf2c00f6b': `Hola`,
+'s73c1c5e257be2bdb': `Haz clic en los logotipos de Vite y Lit para saber más`,
+'s761219fad84cb24e': `Formato`,
+'s89fdbac1c890a026': str`el contador es ${0}`,
+'saed7d3734ce7f09d': str`Hola, ${0}`,
+'sbdeedc1c60306b35': `Mensajes`,
+'scac46ea39e62258a': `Render puede devolver nodos del DOM`,
+'se233d33705823d7b': `Render puede devolver arrays de cualquiera de los tipos admitidos`,
+'sefcf950b3cc4fc3b': `Idioma`,
+    };
+  
\ No newline at end of file
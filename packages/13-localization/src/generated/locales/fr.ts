@@ -0,0 +1,31 @@
+
+    // Do not modify this file by hand!
+    // Re-generate this file by running lit-localize
+
+    import {html} from 'lit';
+    import {str} from '@lit/localize';
+
+    /* eslint-disable no-irregular-whitespace */
+    /* eslint-disable @typescript-eslint/no-explicit-any */
+
+    export const templates = {
+      'dialog-close': `Fermer`,
+'hd96ec2f1ced85921': html`Bienvenue dans <strong>Lit localize</strong>`,
+'s0b3eb4542de32726': `Render peut renvoyer nothing`,
+'s0c12cc99e879ebd5': `Rendre un composant`,
+'s26c120ae4d140a2f': `Composer des templates`,
+'s33f85f24c0f5f008': `Enregistrer`,
+'s36785a0de2193360': `Localisation`,
+'s3f6d32b521bf3fc4': `Render peut renvoyer des valeurs primitives`,
+'s62bf2cafdf5e9f92': `Render peut renvoyer noChange`,
+'s63f0bfacf2c00f6b': `Bonjour`,
+'s73c1c5e257be2bdb': `Cliquez sur les logos Vite et Lit pour en savoir plus`,
+'s761219fad84cb24e': `Mise en forme`,
+'s89fdbac1c890a026': str`le compteur vaut ${0}`,
+'saed7d3734ce7f09d': str`Bonjour ${0}`,
+'sbdeedc1c60306b35': `Messages`,
+'scac46ea39e62258a': `Render peut renvoyer des nœuds DOM`,
+'se233d33705823d7b': `Render peut renvoyer des tableaux de tous les types pris en charge`,
+'sefcf950b3cc4fc3b': `Langue`,
+    };
+  
\ No newline at end of file
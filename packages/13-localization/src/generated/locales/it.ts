@@ -0,0 +1,31 @@
+
+    // Do not modify this file by hand!
+    // Re-generate this file by running lit-localize
+
+    import {html} from 'lit';
+    import {str} from '@lit/localize';
+
+    /* eslint-disable no-irregular-whitespace */
+    /* eslint-disable @typescript-eslint/no-explicit-any */
+
+    export const templates = {
+      'dialog-close': `Chiudi`,
+'hd96ec2f1ced85921': html`Benvenuto in <strong>Lit localize</strong>`,
+'s0b3eb4542de32726': `Render può restituire nothing`,
+'s0c12cc99e879ebd5': `Renderizzare un componente`,
+'s26c120ae4d140a2f': `Comporre template`,
+'s33f85f24c0f5f008': `Salva`,
+'s36785a0de2193360': `Localizzazione`,
+'s3f6d32b521bf3fc4': `Render può restituire valori primitivi`,
+'s62bf2cafdf5e9f92': `Render può restituire noChange`,
+'s63f0bfacf2c00f6b': `Ciao`,
+'s73c1c5e257be2bdb': `Fai clic sui loghi di Vite e Lit per saperne di più`,
+'s761219fad84cb24e': `Formattazione`,
+'s89fdbac1c890a026': str`il contatore è ${0}`,
+'saed7d3734ce7f09d': str`Ciao ${0}`,
+'sbdeedc1c60306b35': `Messaggi`,
+'scac46ea39e62258a': `Render può restituire nodi DOM`,
+'se233d33705823d7b': `Render può restituire array di qualsiasi tipo supportato`,
+'sefcf950b3cc4fc3b': `Lingua`,
+    };
+  
\ No newline at end of file
@@ -0,0 +1,17 @@
+import { configureLocalization } from "@lit/localize";
+import { sourceLocale, targetLocales } from "./generated/locale-codes";
+
+/**
+ * Runtime mode
+ * `configureLocalization()` is called once per page, before switching locales. Each target locale is a generated module
+ * (`lit-localize build`, from the translated XLIFF files) loaded on demand with a dynamic import:
+ * the page starts in the source locale without loading any translation.
+ *
+ * `setLocale()` loads the locale module, then dispatches a `lit-localize-status` event on `window`;
+ * elements decorated with `@localized()` listen to it and re-render with the new strings.
+ */
+export const { getLocale, setLocale } = configureLocalization({
+  sourceLocale,
+  targetLocales,
+  loadLocale: (locale) => import(`./generated/locales/${locale}.ts`),
+});
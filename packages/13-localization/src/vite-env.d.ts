@@ -0,0 +1,7 @@
+/// <reference types="vite/client" />
+
+/**
+ * The localized elements are type-checked by their own package,
+ * this chapter only imports them for their side effects.
+ */
+declare module "@chapters/*";
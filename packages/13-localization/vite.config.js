@@ -0,0 +1,20 @@
+import { fileURLToPath } from "node:url";
+import { defineConfig } from "vite";
+import litCss from "vite-plugin-lit-css";
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      // The localized elements are imported from their packages, e.g. `@chapters/02-components/src/02-render-component.ts`
+      "@chapters": fileURLToPath(new URL("..", import.meta.url)),
+    },
+    // One lit, and one @lit/localize: the locale is stored in the module, every element must read the same one.
+    dedupe: ["lit", "@lit/localize"],
+  },
+  plugins: [
+    // `my-element` imports its styles as CSS files
+    litCss({
+      exclude: "./src/index.css",
+    }),
+  ],
+});
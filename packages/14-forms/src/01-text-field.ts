@@ -0,0 +1,87 @@
+import { css, html } from "lit";
+import { customElement, property, query } from "lit/decorators.js";
+import { ifDefined } from "lit/directives/if-defined.js";
+import { live } from "lit/directives/live.js";
+import { FormControl } from "./form-control";
+
+/**
+ * A text field
+ * The `<input>` in the shadow root isn't part of the form: the element submits its own `value`,
+ * and copies the validity of the input, so `required`, `minlength` and `pattern` work like on an `<input>`.
+ *
+ * Like `<input>`, the `value` attribute is the default value, restored by a form reset.
+ * `delegatesFocus` forwards the focus to the input: a click on its `<label>` focuses it.
+ */
+@customElement("form-text-field")
+export class FormTextField extends FormControl {
+  static shadowRootOptions = { ...FormControl.shadowRootOptions, delegatesFocus: true };
+
+  @property()
+  value = "";
+
+  @property()
+  placeholder = "";
+
+  @property({ type: Number })
+  minlength?: number;
+
+  @property()
+  pattern?: string;
+
+  @query("input")
+  private _input!: HTMLInputElement;
+
+  get defaultValue() {
+    return this.getAttribute("value") ?? "";
+  }
+
+  render() {
+    return html`
+      <input
+        .value=${live(this.value)}
+        placeholder=${this.placeholder}
+        minlength=${ifDefined(this.minlength)}
+        pattern=${ifDefined(this.pattern)}
+        ?required=${this.required}
+        ?disabled=${this.formDisabled}
+        @input=${this._handleInput}
+        @change=${this._handleChange}
+      />
+    `;
+  }
+
+  updated() {
+    this.internals.setFormValue(this.value);
+    // `ValidityState` has the flags of `ValidityStateFlags`: all false when the input is valid
+    this.internals.setValidity(this._input.validity, this._input.validationMessage, this._input);
+  }
+
+  formResetCallback() {
+    this.value = this.defaultValue;
+  }
+
+  formStateRestoreCallback(state: string | File | FormData | null) {
+    this.value = typeof state === "string" ? state : "";
+  }
+
+  private _handleInput() {
+    this.value = this._input.value;
+  }
+
+  /** `change` doesn't cross the shadow root (it isn't composed), the element dispatches its own. */
+  private _handleChange() {
+    this.dispatchEvent(new Event("change", { bubbles: true }));
+  }
+
+  static styles = css`
+    input {
+      font: inherit;
+    }
+  `;
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    "form-text-field": FormTextField;
+  }
+}
@@ -0,0 +1,103 @@
+import { PropertyValues, css, html } from "lit";
+import { customElement, property } from "lit/decorators.js";
+import { FormControl } from "./form-control";
+
+/**
+ * A checkbox
+ * Submits `value` (default `on`) when checked, nothing otherwise: `setFormValue(null)` removes the entry.
+ * `required` makes it invalid until checked.
+ *
+ * There is no `<input>` inside: the host is focusable, toggles on click and Space, and describes itself to
+ * assistive technologies through the ARIA properties of its internals (`role`, `ariaChecked`).
+ * A click on its `<label>` clicks the host, and toggles it.
+ *
+ * Like `<input type="checkbox">`, the `checked` attribute is the default state, restored by a form reset.
+ */
+@customElement("form-checkbox")
+export class FormCheckbox extends FormControl {
+  @property({ type: Boolean })
+  checked = false;
+
+  @property()
+  value = "on";
+
+  get defaultChecked() {
+    return this.hasAttribute("checked");
+  }
+
+  constructor() {
+    super();
+    this.internals.role = "checkbox";
+    this.addEventListener("click", this._toggle);
+    this.addEventListener("keydown", (e) => {
+      if (e.key === " ") {
+        e.preventDefault();
+        this._toggle();
+      }
+    });
+  }
+
+  render() {
+    return html`<span class="box">${this.checked ? "✓" : ""}</span><slot></slot>`;
+  }
+
+  willUpdate(changedProperties: PropertyValues) {
+    this.updateTabIndex(changedProperties);
+  }
+
+  updated() {
+    this.internals.setFormValue(this.checked ? this.value : null, String(this.checked));
+    this.internals.ariaChecked = String(this.checked);
+    this.internals.ariaDisabled = String(this.formDisabled);
+    if (this.required && !this.checked) {
+      this.internals.setValidity({ valueMissing: true }, "Check this box to continue.");
+    } else {
+      this.internals.setValidity({});
+    }
+  }
+
+  formResetCallback() {
+    this.checked = this.defaultChecked;
+  }
+
+  /** The state saved by `setFormValue()`: the value alone can't tell an unchecked box */
+  formStateRestoreCallback(state: string | File | FormData | null) {
+    this.checked = state === "true";
+  }
+
+  private _toggle = () => {
+    if (this.formDisabled) {
+      return;
+    }
+    this.checked = !this.checked;
+    this.dispatchEvent(new Event("change", { bubbles: true }));
+  };
+
+  static styles = css`
+    :host {
+      display: inline-flex;
+      align-items: center;
+      gap: 0.5em;
+      cursor: pointer;
+    }
+    :host(:disabled) {
+      cursor: default;
+      opacity: 0.5;
+    }
+    .box {
+      display: inline-block;
+      width: 1em;
+      height: 1em;
+      line-height: 1em;
+      text-align: center;
+      border: 1px solid currentColor;
+      border-radius: 2px;
+    }
+  `;
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    "form-checkbox": FormCheckbox;
+  }
+}
@@ -0,0 +1,111 @@
+import { PropertyValues, css, html } from "lit";
+import { customElement, property } from "lit/decorators.js";
+import { FormControl } from "./form-control";
+
+/**
+ * A rating
+ * A control no native input provides: from 0 to `max` stars, submitted as a number, nothing while 0.
+ * `required` makes 0 invalid.
+ *
+ * The host is a `slider` for assistive technologies: arrow keys change the value, Home and End go to 0 and `max`.
+ * The `value` attribute is the default value, restored by a form reset.
+ */
+@customElement("form-rating")
+export class FormRating extends FormControl {
+  @property({ type: Number })
+  value = 0;
+
+  @property({ type: Number })
+  max = 5;
+
+  get defaultValue() {
+    return Number(this.getAttribute("value") ?? 0);
+  }
+
+  constructor() {
+    super();
+    this.internals.role = "slider";
+    this.internals.ariaValueMin = "0";
+    this.addEventListener("keydown", this._handleKeydown);
+  }
+
+  render() {
+    return html`${Array.from(
+      { length: this.max },
+      (_, i) => html`<span class=${i < this.value ? "on" : ""} @click=${() => this._select(i + 1)}>★</span>`
+    )}`;
+  }
+
+  willUpdate(changedProperties: PropertyValues) {
+    this.updateTabIndex(changedProperties);
+  }
+
+  updated() {
+    this.internals.setFormValue(this.value ? String(this.value) : null, String(this.value));
+    this.internals.ariaValueNow = String(this.value);
+    this.internals.ariaValueMax = String(this.max);
+    this.internals.ariaDisabled = String(this.formDisabled);
+    if (this.required && !this.value) {
+      this.internals.setValidity({ valueMissing: true }, "Select a rating.");
+    } else {
+      this.internals.setValidity({});
+    }
+  }
+
+  formResetCallback() {
+    this.value = this.defaultValue;
+  }
+
+  formStateRestoreCallback(state: string | File | FormData | null) {
+    this.value = Number(state) || 0;
+  }
+
+  /** A click on the selected star clears the rating */
+  private _select(value: number) {
+    if (this.formDisabled) {
+      return;
+    }
+    this.value = value === this.value ? 0 : value;
+    this.dispatchEvent(new Event("change", { bubbles: true }));
+  }
+
+  private _handleKeydown(e: KeyboardEvent) {
+    const values: Record<string, number> = {
+      ArrowRight: this.value + 1,
+      ArrowUp: this.value + 1,
+      ArrowLeft: this.value - 1,
+      ArrowDown: this.value - 1,
+      Home: 0,
+      End: this.max,
+    };
+    if (e.key in values && !this.formDisabled) {
+      e.preventDefault();
+      const value = Math.min(this.max, Math.max(0, values[e.key]));
+      if (value !== this.value) {
+        this.value = value;
+        this.dispatchEvent(new Event("change", { bubbles: true }));
+      }
+    }
+  }
+
+  static styles = css`
+    :host {
+      display: inline-block;
+      cursor: pointer;
+      color: gray;
+    }
+    :host(:disabled) {
+      cursor: default;
+      opacity: 0.5;
+    }
+    .on {
+      color: goldenrod;
+    }
+  `;
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    "form-rating": FormRating;
+  }
+}
@@ -0,0 +1,90 @@
+import { LitElement, css, html } from "lit";
+import { customElement, query, state } from "lit/decorators.js";
+import "./01-text-field";
+import "./02-checkbox";
+import "./03-rating";
+
+/**
+ * A form of custom controls
+ * The controls and the `<form>` are in the same shadow root: a form only owns the controls of its own tree,
+ * and `<label for>` only finds ids there. The native inputs of `my-dispatcher` (06-events) or of the 04-lifecycle app
+ * are in the shadow root of their element: a `<form>` around the element never sees them.
+ *
+ * Submitting reads `new FormData(form)`: every control with a `name` and a form value.
+ * An invalid control stops the submission, and the browser shows its message at the anchor it set.
+ * The fieldset disables all its controls at once, disabled controls are left out of `FormData`.
+ */
+@customElement("form-demo")
+export class FormDemo extends LitElement {
+  @state()
+  private _entries?: Array<[string, FormDataEntryValue]>;
+
+  @state()
+  private _disabled = false;
+
+  @query("form")
+  private _form!: HTMLFormElement;
+
+  render() {
+    return html`
+      <form @submit=${this._handleSubmit} @reset=${() => (this._entries = undefined)}>
+        <fieldset ?disabled=${this._disabled}>
+          <legend>Profile</legend>
+          <p>
+            <label for="name">Name</label>
+            <form-text-field id="name" name="name" value="Fred" required minlength="2"></form-text-field>
+          </p>
+          <p>
+            <label for="code">Code (3 letters)</label>
+            <form-text-field id="code" name="code" pattern="[A-Z]{3}" placeholder="ABC"></form-text-field>
+          </p>
+          <p>
+            <label><form-checkbox name="newsletter" value="weekly" checked></form-checkbox> Weekly newsletter</label>
+          </p>
+          <p>
+            <form-checkbox id="terms" name="terms" required></form-checkbox>
+            <label for="terms">I accept the terms</label>
+          </p>
+          <p>
+            <label for="rating">Rating</label>
+            <form-rating id="rating" name="rating" value="3"></form-rating>
+          </p>
+        </fieldset>
+        <p>
+          <button>Submit</button>
+          <button type="reset">Reset</button>
+        </p>
+      </form>
+      <label>
+        <input type="checkbox" @change=${(e: Event) => (this._disabled = (e.target as HTMLInputElement).checked)} />
+        Disable the fieldset
+      </label>
+      ${this._entries
+        ? html`<pre>FormData ${JSON.stringify(this._entries, null, 1)}</pre>`
+        : html`<p>Submit to see the FormData</p>`}
+    `;
+  }
+
+  private _handleSubmit(e: SubmitEvent) {
+    e.preventDefault();
+    this._entries = [...new FormData(this._form)];
+  }
+
+  static styles = css`
+    :host {
+      display: block;
+      text-align: left;
+    }
+    form-text-field:invalid,
+    form-checkbox:invalid,
+    form-rating:invalid {
+      outline: 1px solid crimson;
+    }
+  `;
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    "form-demo": FormDemo;
+  }
+}
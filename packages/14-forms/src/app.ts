@@ -0,0 +1,32 @@
+import { LitElement, css, html } from "lit";
+import { customElement } from "lit/decorators.js";
+import "./04-form";
+
+@customElement("app-lit-forms")
+export class AppElement extends LitElement {
+  render() {
+    return html`
+      <main>
+        <h1>14 - Forms</h1>
+
+        <h3>01 - Form-associated controls</h3>
+        <form-demo></form-demo>
+      </main>
+    `;
+  }
+
+  static styles = css`
+    :host {
+      max-width: 1280px;
+      margin: 0 auto;
+      padding: 2rem;
+      text-align: center;
+    }
+  `;
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    "app-lit-forms": AppElement;
+  }
+}
@@ -0,0 +1,88 @@
+import { LitElement, PropertyValues } from "lit";
+import { property, state } from "lit/decorators.js";
+
+/**
+ * Form-associated custom elements
+ * `static formAssociated = true` makes an element a form control, like `<input>`: it belongs to its `<form>`
+ * (or the one named by its `form` attribute), can be labelled by a `<label>`, and is disabled by a `<fieldset disabled>`.
+ * Everything else goes through the `ElementInternals` returned by `attachInternals()`:
+ * - `setFormValue(value, state)`: the entry in `FormData`, `null` for none (an unchecked checkbox);
+ * - `setValidity(flags, message, anchor)`: the validity `form.checkValidity()` and the `:invalid` pseudo-class use,
+ *   `anchor` is where the browser shows the message;
+ * - `form`, `labels`, `validity`, `validationMessage`, `willValidate`, `checkValidity()`, `reportValidity()`.
+ *
+ * The browser calls these callbacks on form-associated elements:
+ * - `formResetCallback()`: the form was reset, go back to the default value;
+ * - `formStateRestoreCallback(state, mode)`: the browser restores the state saved by `setFormValue()`,
+ *   on back/forward navigation (`restore`) or autofill (`autocomplete`);
+ * - `formDisabledCallback(disabled)`: the element or an ancestor `<fieldset>` was disabled or enabled;
+ * - `formAssociatedCallback(form)`: the element was associated with a form, or dissociated (`null`).
+ *
+ * Subclasses set the form value and the validity in `updated()`, once their own properties are up to date.
+ */
+export abstract class FormControl extends LitElement {
+  static formAssociated = true;
+
+  protected readonly internals = this.attachInternals();
+
+  /** The name of the entry in `FormData` */
+  @property({ reflect: true })
+  name = "";
+
+  /** Reflected: the browser reads the `disabled` attribute, and calls `formDisabledCallback()` */
+  @property({ type: Boolean, reflect: true })
+  disabled = false;
+
+  @property({ type: Boolean, reflect: true })
+  required = false;
+
+  /** Disabled by its own `disabled` attribute or by an ancestor `<fieldset disabled>` */
+  @state()
+  protected formDisabled = false;
+
+  get form() {
+    return this.internals.form;
+  }
+
+  get labels() {
+    return this.internals.labels;
+  }
+
+  get validity() {
+    return this.internals.validity;
+  }
+
+  get validationMessage() {
+    return this.internals.validationMessage;
+  }
+
+  get willValidate() {
+    return this.internals.willValidate;
+  }
+
+  checkValidity() {
+    return this.internals.checkValidity();
+  }
+
+  reportValidity() {
+    return this.internals.reportValidity();
+  }
+
+  formDisabledCallback(disabled: boolean) {
+    this.formDisabled = disabled;
+  }
+
+  abstract formResetCallback(): void;
+
+  abstract formStateRestoreCallback(state: string | File | FormData | null, mode: "restore" | "autocomplete"): void;
+
+  /**
+   * For controls without a focusable element in their shadow root, focused themselves:
+   * makes the host focusable, unless it is disabled. Call it from `willUpdate()`.
+   */
+  protected updateTabIndex(changedProperties: PropertyValues) {
+    if (changedProperties.has("formDisabled")) {
+      this.tabIndex = this.formDisabled ? -1 : 0;
+    }
+  }
+}
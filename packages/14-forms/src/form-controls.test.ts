@@ -0,0 +1,176 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import "./01-text-field";
+import "./02-checkbox";
+import "./03-rating";
+
+let form: HTMLFormElement;
+let fieldset: HTMLFieldSetElement;
+let name: HTMLElementTagNameMap["form-text-field"];
+let terms: HTMLElementTagNameMap["form-checkbox"];
+let rating: HTMLElementTagNameMap["form-rating"];
+
+/** Lets the controls update, so their form values and validity are set */
+const settled = () => Promise.all([name, terms, rating].map((control) => control.updateComplete));
+
+const entries = () => [...new FormData(form)];
+
+beforeEach(async () => {
+  document.body.innerHTML = `
+    <form>
+      <fieldset>
+        <label for="name">Name</label>
+        <form-text-field id="name" name="name" value="Fred" required></form-text-field>
+        <label for="terms">Terms</label>
+        <form-checkbox id="terms" name="terms" required></form-checkbox>
+        <label><form-rating name="rating" value="3"></form-rating>Rating</label>
+      </fieldset>
+    </form>
+  `;
+  form = document.querySelector("form")!;
+  fieldset = form.querySelector("fieldset")!;
+  name = form.querySelector("form-text-field")!;
+  terms = form.querySelector("form-checkbox")!;
+  rating = form.querySelector("form-rating")!;
+  await settled();
+});
+
+afterEach(() => {
+  document.body.innerHTML = "";
+});
+
+describe("FormData", () => {
+  it("has the named values, not the unchecked checkbox", () => {
+    expect(entries()).toEqual([
+      ["name", "Fred"],
+      ["rating", "3"],
+    ]);
+  });
+
+  it("has the value of a checkbox checked by a click", async () => {
+    terms.click();
+    await settled();
+
+    expect(entries()).toEqual([
+      ["name", "Fred"],
+      ["terms", "on"],
+      ["rating", "3"],
+    ]);
+  });
+
+  it("follows the text typed in the field", async () => {
+    const input = name.renderRoot.querySelector("input")!;
+    input.value = "Wilma";
+    input.dispatchEvent(new Event("input"));
+    await settled();
+
+    expect(entries()[0]).toEqual(["name", "Wilma"]);
+  });
+});
+
+describe("validity", () => {
+  it("the required checkbox makes the form invalid until it is checked", async () => {
+    expect([form.checkValidity(), terms.validity.valueMissing, terms.matches(":invalid")]).toEqual([false, true, true]);
+
+    terms.click();
+    await settled();
+
+    expect(form.checkValidity()).toBe(true);
+  });
+
+  it("the text field copies the validity of its input", async () => {
+    name.value = "";
+    await settled();
+
+    expect(name.validity.valueMissing).toBe(true);
+    expect(name.validationMessage).not.toBe("");
+  });
+});
+
+describe("labels", () => {
+  it("are associated with the controls", () => {
+    expect([name, terms, rating].map((control) => control.labels[0]?.textContent)).toEqual([
+      "Name",
+      "Terms",
+      "Rating",
+    ]);
+  });
+});
+
+describe("formResetCallback", () => {
+  it("form.reset() restores the default values", async () => {
+    name.value = "Wilma";
+    terms.click();
+    rating.value = 5;
+    await settled();
+
+    form.reset();
+    await settled();
+
+    expect([name.value, terms.checked, rating.value]).toEqual(["Fred", false, 3]);
+    expect(entries()).toEqual([
+      ["name", "Fred"],
+      ["rating", "3"],
+    ]);
+  });
+});
+
+describe("formDisabledCallback", () => {
+  it("a disabled fieldset disables the controls, left out of FormData", async () => {
+    fieldset.disabled = true;
+    await settled();
+
+    expect(entries()).toEqual([]);
+    expect(name.matches(":disabled")).toBe(true);
+    expect(name.renderRoot.querySelector("input")!.disabled).toBe(true);
+    expect(rating.tabIndex).toBe(-1);
+  });
+
+  it("a disabled control doesn't toggle", async () => {
+    fieldset.disabled = true;
+    await settled();
+
+    terms.click();
+    await settled();
+
+    expect(terms.checked).toBe(false);
+  });
+
+  it("enabling the fieldset enables them again", async () => {
+    fieldset.disabled = true;
+    await settled();
+    fieldset.disabled = false;
+    await settled();
+
+    expect(entries()).toEqual([
+      ["name", "Fred"],
+      ["rating", "3"],
+    ]);
+    expect(rating.tabIndex).toBe(0);
+  });
+});
+
+describe("formStateRestoreCallback", () => {
+  // The browser only calls it on back/forward navigation and autofill: the tests call it like the browser does
+  it("restores the state saved by setFormValue()", async () => {
+    name.formStateRestoreCallback("Wilma");
+    terms.formStateRestoreCallback("true");
+    rating.formStateRestoreCallback("5");
+    await settled();
+
+    expect(entries()).toEqual([
+      ["name", "Wilma"],
+      ["terms", "on"],
+      ["rating", "5"],
+    ]);
+  });
+
+  it("tells an unchecked checkbox from a checked one by its state", async () => {
+    terms.click();
+    await settled();
+
+    terms.formStateRestoreCallback("false");
+    await settled();
+
+    expect(terms.checked).toBe(false);
+  });
+});
@@ -0,0 +1,14 @@
+import { defineConfig } from "vitest/config";
+
+// happy-dom has no `ElementInternals`: the form controls are tested in Chromium, driven by Playwright.
+// Install it once with `pnpm exec playwright install chromium`.
+export default defineConfig({
+  test: {
+    browser: {
+      enabled: true,
+      provider: "playwright",
+      headless: true,
+      instances: [{ browser: "chromium" }],
+    },
+  },
+});
@@ -0,0 +1,69 @@
+import { LitElement, html, nothing } from "lit";
+import { customElement, property, query, state } from "lit/decorators.js";
+import { classMap } from "lit/directives/class-map.js";
+import type { Variant } from "../button/button.component";
+import { emit, transitionEnd } from "../shared/events";
+import { StyledElement } from "../shared/styled.element";
+
+import style from "./alert.component.scss?inline";
+
+/**
+ * A Bootstrap alert.
+ * ```html
+ * <bs-alert variant="warning" dismissible>Check your input</bs-alert>
+ * ```
+ *
+ * `dismissible` adds a close button. `close()` (or the button) dispatches `bs-close`, which a listener can cancel,
+ * fades the alert out, dispatches `bs-closed` and removes the element.
+ */
+@customElement("bs-alert")
+export class BsAlert extends StyledElement(LitElement, style) {
+  @property()
+  variant: Variant = "primary";
+
+  @property({ type: Boolean })
+  dismissible = false;
+
+  @state()
+  private _closing = false;
+
+  @query(".alert")
+  private _alert!: HTMLElement;
+
+  render() {
+    const classes = {
+      alert: true,
+      [`alert-${this.variant}`]: true,
+      "alert-dismissible": this.dismissible,
+      fade: true,
+      show: !this._closing,
+    };
+    return html`
+      <div part="alert" class=${classMap(classes)} role="alert">
+        <slot></slot>
+        ${this.dismissible
+          ? html`<button type="button" class="btn-close" aria-label="Close" @click=${this.close}></button>`
+          : nothing}
+      </div>
+    `;
+  }
+
+  /** Resolves to `false` when a `bs-close` listener cancelled it */
+  async close() {
+    if (this._closing || !emit(this, "bs-close")) {
+      return false;
+    }
+    this._closing = true;
+    await this.updateComplete;
+    await transitionEnd(this._alert);
+    emit(this, "bs-closed");
+    this.remove();
+    return true;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    "bs-alert": BsAlert;
+  }
+}
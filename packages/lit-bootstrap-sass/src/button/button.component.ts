@@ -0,0 +1,88 @@
+import { LitElement, html, nothing } from "lit";
+import { customElement, property } from "lit/decorators.js";
+import { classMap } from "lit/directives/class-map.js";
+import { emit } from "../shared/events";
+import { StyledElement } from "../shared/styled.element";
+
+import style from "./button.component.scss?inline";
+
+export type Variant = "primary" | "secondary" | "success" | "danger" | "warning" | "info" | "light" | "dark";
+
+/**
+ * A Bootstrap button.
+ * ```html
+ * <bs-button variant="success" size="lg" outline>Save</bs-button>
+ * ```
+ *
+ * The `<button>` is in the shadow root, where a `<form>` doesn't see it: the element is form-associated,
+ * and `type="submit"` or `type="reset"` submits or resets its form. With `toggle`, a click presses or releases it,
+ * like `data-bs-toggle="button"`, and dispatches `bs-toggle`. `delegatesFocus`: focusing the element
+ * focuses its button.
+ */
+@customElement("bs-button")
+export class BsButton extends StyledElement(LitElement, style) {
+  static formAssociated = true;
+
+  static shadowRootOptions = { ...LitElement.shadowRootOptions, delegatesFocus: true };
+
+  @property()
+  variant: Variant | "link" = "primary";
+
+  @property()
+  size?: "sm" | "lg";
+
+  @property({ type: Boolean })
+  outline = false;
+
+  @property({ type: Boolean, reflect: true })
+  disabled = false;
+
+  @property()
+  type: "button" | "submit" | "reset" = "button";
+
+  @property({ type: Boolean })
+  toggle = false;
+
+  @property({ type: Boolean, reflect: true })
+  pressed = false;
+
+  private _internals = this.attachInternals();
+
+  render() {
+    const classes = {
+      btn: true,
+      [`btn-${this.outline ? "outline-" : ""}${this.variant}`]: true,
+      [`btn-${this.size}`]: !!this.size,
+      active: this.pressed,
+    };
+    return html`
+      <button
+        part="button"
+        class=${classMap(classes)}
+        ?disabled=${this.disabled}
+        aria-pressed=${this.toggle ? String(this.pressed) : nothing}
+        @click=${this._handleClick}
+      >
+        <slot></slot>
+      </button>
+    `;
+  }
+
+  private _handleClick() {
+    if (this.toggle) {
+      this.pressed = !this.pressed;
+      emit(this, "bs-toggle", { pressed: this.pressed });
+    }
+    if (this.type === "submit") {
+      this._internals.form?.requestSubmit();
+    } else if (this.type === "reset") {
+      this._internals.form?.reset();
+    }
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    "bs-button": BsButton;
+  }
+}
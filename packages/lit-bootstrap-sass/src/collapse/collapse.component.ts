@@ -0,0 +1,61 @@
+import { PropertyValues, html } from "lit";
+import { customElement, query } from "lit/decorators.js";
+import { reflow, transitionEnd } from "../shared/events";
+import { StyledElement } from "../shared/styled.element";
+import { ToggleElement } from "../shared/toggle.element";
+
+import style from "./collapse.component.scss?inline";
+
+/**
+ * A Bootstrap collapse: shows and hides its content, animating its height.
+ * ```html
+ * <bs-button @click=${() => collapse.toggle()}>Details</bs-button>
+ * <bs-collapse>...</bs-collapse>
+ * ```
+ *
+ * `show()`, `hide()` and `toggle()` dispatch `bs-show`, `bs-shown`, `bs-hide` and `bs-hidden`.
+ * The classes of the content are set by the transition, like Bootstrap's JS does: `collapsing` while the height
+ * changes, then `collapse` and `show`. They aren't rendered by the template, which would reset them.
+ */
+@customElement("bs-collapse")
+export class BsCollapse extends StyledElement(ToggleElement, style) {
+  @query("[part=content]")
+  private _content!: HTMLElement;
+
+  render() {
+    return html`<div part="content"><slot></slot></div>`;
+  }
+
+  updated(changedProperties: PropertyValues<this>) {
+    if (changedProperties.has("open") && !this.transitioning) {
+      this._content.classList.add("collapse");
+      this._content.classList.toggle("show", this.open);
+    }
+  }
+
+  protected async transition(open: boolean) {
+    const content = this._content;
+    if (open) {
+      content.classList.remove("collapse");
+      content.classList.add("collapsing");
+      content.style.height = `${content.scrollHeight}px`;
+    } else {
+      content.style.height = `${content.getBoundingClientRect().height}px`;
+      reflow(content);
+      content.classList.add("collapsing");
+      content.classList.remove("collapse", "show");
+      content.style.height = "";
+    }
+    await transitionEnd(content);
+    content.classList.remove("collapsing");
+    content.classList.add("collapse");
+    content.classList.toggle("show", open);
+    content.style.height = "";
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    "bs-collapse": BsCollapse;
+  }
+}
@@ -0,0 +1,334 @@
+import { userEvent } from "@vitest/browser/context";
+import { LitElement } from "lit";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import "./alert/alert.component";
+import "./button/button.component";
+import "./collapse/collapse.component";
+import "./dropdown/dropdown.component";
+import "./modal/modal.component";
+import "./tabs/tabs.component";
+
+/** Records the type of the events dispatched on `target` */
+const record = (target: EventTarget, ...types: string[]) => {
+  const events: string[] = [];
+  types.forEach((type) => target.addEventListener(type, (e) => events.push(e.type)));
+  return events;
+};
+
+const next = <K extends keyof HTMLElementEventMap>(target: HTMLElement, type: K) =>
+  new Promise<HTMLElementEventMap[K]>((resolve) => target.addEventListener(type, resolve, { once: true }));
+
+/** Lets the async handlers of the components run */
+const settle = () => new Promise((resolve) => setTimeout(resolve));
+
+const inner = <E extends Element>(element: LitElement, selector: string) =>
+  element.shadowRoot!.querySelector<E>(selector)!;
+
+/** Connects the markup, and waits for the first update of the components */
+const mount = async <K extends keyof HTMLElementTagNameMap>(tagName: K, markup: string) => {
+  document.body.innerHTML = markup;
+  await Promise.all([...document.querySelectorAll<LitElement>("*")].map((element) => element.updateComplete));
+  // The tabs render their panels after `slotchange`
+  await settle();
+  return document.querySelector(tagName)!;
+};
+
+const TOGGLE_EVENTS = ["bs-show", "bs-shown", "bs-hide", "bs-hidden"];
+
+afterEach(() => {
+  document.body.innerHTML = "";
+});
+
+describe("bs-button", () => {
+  it("a toggle button is pressed by a click, and dispatches bs-toggle", async () => {
+    const button = await mount("bs-button", `<bs-button toggle>Toggle</bs-button>`);
+    const toggle = next(button, "bs-toggle");
+
+    await userEvent.click(button);
+
+    expect((await toggle).detail).toEqual({ pressed: true });
+    await button.updateComplete;
+    expect([button.pressed, inner(button, "button").getAttribute("aria-pressed")]).toEqual([true, "true"]);
+  });
+
+  it("a submit button submits its form from its shadow root", async () => {
+    const form = await mount("form", `<form><bs-button type="submit">Submit</bs-button></form>`);
+    let submitted = false;
+    form.addEventListener("submit", (e) => {
+      e.preventDefault();
+      submitted = true;
+    });
+
+    await userEvent.click(form.querySelector("bs-button")!);
+
+    expect([submitted, form.elements.length]).toEqual([true, 1]);
+  });
+});
+
+describe("bs-alert", () => {
+  it("a cancelled bs-close keeps the alert", async () => {
+    const alert = await mount("bs-alert", `<bs-alert dismissible>Kept</bs-alert>`);
+    alert.addEventListener("bs-close", (e) => e.preventDefault());
+
+    expect(await alert.close()).toBe(false);
+    expect(alert.isConnected).toBe(true);
+  });
+
+  it("the close button fades the alert out, dispatches bs-closed and removes it", async () => {
+    const alert = await mount("bs-alert", `<bs-alert dismissible>Closed</bs-alert>`);
+    const events = record(alert, "bs-close", "bs-closed");
+    const closed = next(alert, "bs-closed");
+
+    await userEvent.click(inner(alert, ".btn-close"));
+    await closed;
+
+    expect(events).toEqual(["bs-close", "bs-closed"]);
+    expect(alert.isConnected).toBe(false);
+  });
+});
+
+describe("bs-collapse", () => {
+  let collapse: HTMLElementTagNameMap["bs-collapse"];
+  let events: string[];
+
+  beforeEach(async () => {
+    collapse = await mount("bs-collapse", `<bs-collapse>Content</bs-collapse>`);
+    events = record(collapse, ...TOGGLE_EVENTS);
+  });
+
+  it("dispatches bs-show and bs-hide before the change, bs-shown and bs-hidden once the transition ended", async () => {
+    const content = inner(collapse, "[part=content]");
+    const states: Array<[string, boolean, string]> = [];
+    for (const type of TOGGLE_EVENTS) {
+      collapse.addEventListener(type, (e) => states.push([e.type, collapse.open, content.className]));
+    }
+
+    await collapse.show();
+    await collapse.hide();
+
+    expect(states).toEqual([
+      ["bs-show", false, "collapse"],
+      ["bs-shown", true, "collapse show"],
+      ["bs-hide", true, "collapse show"],
+      ["bs-hidden", false, "collapse"],
+    ]);
+  });
+
+  it("a cancelled bs-show keeps it hidden", async () => {
+    collapse.addEventListener("bs-show", (e) => e.preventDefault(), { once: true });
+
+    expect(await collapse.show()).toBe(false);
+    expect([collapse.open, events]).toEqual([false, ["bs-show"]]);
+  });
+
+  it("ignores the calls during a transition", async () => {
+    await collapse.show();
+
+    expect(await Promise.all([collapse.hide(), collapse.show()])).toEqual([true, false]);
+    expect(collapse.open).toBe(false);
+  });
+});
+
+describe("bs-dropdown", () => {
+  let dropdown: HTMLElementTagNameMap["bs-dropdown"];
+  let toggle: HTMLButtonElement;
+  let items: NodeListOf<HTMLElementTagNameMap["bs-dropdown-item"]>;
+
+  /** The focused item, retargeted to its host */
+  const focused = () => [...items].findIndex((item) => item.matches(":focus-within"));
+
+  const press = async (key: string) => {
+    await userEvent.keyboard(`{${key}}`);
+    await settle();
+  };
+
+  beforeEach(async () => {
+    dropdown = await mount(
+      "bs-dropdown",
+      `
+        <bs-dropdown label="Actions">
+          <bs-dropdown-item value="edit">Edit</bs-dropdown-item>
+          <bs-dropdown-item value="duplicate">Duplicate</bs-dropdown-item>
+          <bs-dropdown-item value="delete" disabled>Delete</bs-dropdown-item>
+        </bs-dropdown>
+        <p>Outside</p>
+      `
+    );
+    toggle = inner(dropdown, "[part=toggle]");
+    items = dropdown.querySelectorAll("bs-dropdown-item");
+    toggle.focus();
+  });
+
+  it("ArrowDown on the toggle opens the menu and focuses the first item", async () => {
+    await press("ArrowDown");
+
+    expect([dropdown.open, toggle.getAttribute("aria-expanded"), focused()]).toEqual([true, "true", 0]);
+  });
+
+  it("ArrowUp on the toggle focuses the last enabled item", async () => {
+    await press("ArrowUp");
+
+    expect(focused()).toBe(1);
+  });
+
+  it("the arrows, Home and End move the focus between the enabled items", async () => {
+    await press("ArrowDown");
+
+    await press("ArrowDown");
+    expect(focused()).toBe(1);
+    await press("ArrowDown");
+    expect(focused()).toBe(1);
+    await press("Home");
+    expect(focused()).toBe(0);
+    await press("End");
+    expect(focused()).toBe(1);
+    await press("ArrowUp");
+    expect(focused()).toBe(0);
+  });
+
+  it("Escape closes the menu and focuses the toggle", async () => {
+    await press("ArrowDown");
+
+    await press("Escape");
+
+    expect([dropdown.open, toggle.getAttribute("aria-expanded")]).toEqual([false, "false"]);
+    expect(dropdown.shadowRoot!.activeElement).toBe(toggle);
+  });
+
+  it("choosing an item dispatches bs-select with its value, and closes the menu", async () => {
+    await dropdown.show();
+    const select = next(dropdown, "bs-select");
+
+    await userEvent.click(items[1]);
+
+    expect((await select).detail).toEqual({ value: "duplicate" });
+    await settle();
+    expect(dropdown.open).toBe(false);
+  });
+
+  it("a click outside closes the menu", async () => {
+    await dropdown.show();
+
+    await userEvent.click(document.querySelector("p")!);
+    await settle();
+
+    expect(dropdown.open).toBe(false);
+  });
+});
+
+describe("bs-modal", () => {
+  let modal: HTMLElementTagNameMap["bs-modal"];
+  let dialog: HTMLDialogElement;
+
+  beforeEach(async () => {
+    modal = await mount("bs-modal", `<bs-modal><span slot="title">Modal</span>Body</bs-modal>`);
+    dialog = inner(modal, "dialog");
+  });
+
+  it("shows a modal dialog holding the focus, Escape hides it, in the order of the events", async () => {
+    const events = record(modal, ...TOGGLE_EVENTS);
+
+    await modal.show();
+    expect([dialog.open, dialog.matches(":modal"), modal.matches(":focus-within")]).toEqual([true, true, true]);
+
+    const hidden = next(modal, "bs-hidden");
+    await userEvent.keyboard("{Escape}");
+    await hidden;
+
+    expect([dialog.open, modal.open]).toEqual([false, false]);
+    expect(events).toEqual(TOGGLE_EVENTS);
+  });
+
+  it("a click on the backdrop hides it", async () => {
+    await modal.show();
+    const hidden = next(modal, "bs-hidden");
+
+    await userEvent.click(dialog, { position: { x: 5, y: 5 } });
+    await hidden;
+
+    expect(modal.open).toBe(false);
+  });
+
+  describe("with a static backdrop", () => {
+    beforeEach(async () => {
+      modal.backdrop = "static";
+      await modal.show();
+    });
+
+    it("Escape doesn't hide it", async () => {
+      await userEvent.keyboard("{Escape}");
+      await settle();
+
+      expect([modal.open, dialog.open]).toEqual([true, true]);
+    });
+
+    it("a click on the backdrop doesn't hide it", async () => {
+      await userEvent.click(dialog, { position: { x: 5, y: 5 } });
+      await settle();
+
+      expect([modal.open, dialog.open]).toEqual([true, true]);
+    });
+
+    it("hide() still hides it", async () => {
+      expect(await modal.hide()).toBe(true);
+      expect(dialog.open).toBe(false);
+    });
+  });
+});
+
+describe("bs-tabs", () => {
+  let tabs: HTMLElementTagNameMap["bs-tabs"];
+  let panels: NodeListOf<HTMLElementTagNameMap["bs-tab-panel"]>;
+
+  const tab = (index: number) => tabs.shadowRoot!.querySelectorAll<HTMLElement>("[role=tab]")[index];
+
+  const press = async (key: string) => {
+    await userEvent.keyboard(`{${key}}`);
+    await settle();
+  };
+
+  beforeEach(async () => {
+    tabs = await mount(
+      "bs-tabs",
+      `
+        <bs-tabs>
+          <bs-tab-panel label="Home">Home</bs-tab-panel>
+          <bs-tab-panel label="Profile">Profile</bs-tab-panel>
+          <bs-tab-panel label="Disabled" disabled>Disabled</bs-tab-panel>
+        </bs-tabs>
+      `
+    );
+    panels = tabs.querySelectorAll("bs-tab-panel");
+    tab(0).focus();
+  });
+
+  it("ArrowRight selects the next tab, moves the focus, and dispatches the events of both panels", async () => {
+    const events: string[] = [];
+    for (const type of TOGGLE_EVENTS) {
+      tabs.addEventListener(type, (e) => events.push(`${e.type} ${(e.target as HTMLElement).textContent}`));
+    }
+
+    await press("ArrowRight");
+
+    expect(tabs.selected).toBe(1);
+    expect([...panels].map((panel) => panel.hidden)).toEqual([true, false, true]);
+    expect([tab(0).tabIndex, tab(1).tabIndex, tab(1).getAttribute("aria-selected")]).toEqual([-1, 0, "true"]);
+    expect(tabs.shadowRoot!.activeElement).toBe(tab(1));
+    expect(events).toEqual(["bs-hide Home", "bs-show Profile", "bs-hidden Home", "bs-shown Profile"]);
+  });
+
+  it("the arrows skip the disabled tabs and cycle", async () => {
+    await press("ArrowRight");
+    await press("ArrowRight");
+    expect(tabs.selected).toBe(0);
+
+    await press("ArrowLeft");
+    expect(tabs.selected).toBe(1);
+  });
+
+  it("a cancelled bs-show keeps the selection, a disabled tab can't be selected", async () => {
+    tabs.addEventListener("bs-show", (e) => e.preventDefault(), { once: true });
+
+    expect([await tabs.select(1), await tabs.select(2), tabs.selected]).toEqual([false, false, 0]);
+  });
+});
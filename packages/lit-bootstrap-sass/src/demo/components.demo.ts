@@ -0,0 +1,91 @@
+import { LitElement, css, html } from "lit";
+import { customElement, query, state } from "lit/decorators.js";
+import "../alert/alert.component";
+import "../button/button.component";
+import "../collapse/collapse.component";
+import type { BsCollapse } from "../collapse/collapse.component";
+import "../dropdown/dropdown-item.component";
+import "../dropdown/dropdown.component";
+import "../modal/modal.component";
+import type { BsModal } from "../modal/modal.component";
+import "../tabs/tab-panel.component";
+import "../tabs/tabs.component";
+
+/** Every component, and the last `bs-*` event they dispatched */
+@customElement("components-demo")
+export class ComponentsDemo extends LitElement {
+  @state()
+  private _lastEvent = "";
+
+  @query("bs-collapse")
+  private _collapse!: BsCollapse;
+
+  @query("bs-modal")
+  private _modal!: BsModal;
+
+  render() {
+    return html`
+      <div
+        @bs-shown=${this._log}
+        @bs-hidden=${this._log}
+        @bs-closed=${this._log}
+        @bs-toggle=${this._log}
+        @bs-select=${this._log}
+      >
+        <section>
+          <bs-button>Primary</bs-button>
+          <bs-button variant="success" outline>Outline</bs-button>
+          <bs-button variant="secondary" size="sm" toggle>Toggle</bs-button>
+          <bs-button disabled>Disabled</bs-button>
+        </section>
+        <section>
+          <bs-alert variant="warning" dismissible>A dismissible alert</bs-alert>
+        </section>
+        <section>
+          <bs-button variant="info" @click=${() => this._collapse.toggle()}>Details</bs-button>
+          <bs-collapse>Collapsed content, animated like Bootstrap's.</bs-collapse>
+        </section>
+        <section>
+          <bs-dropdown label="Actions">
+            <bs-dropdown-item value="edit">Edit</bs-dropdown-item>
+            <bs-dropdown-item value="duplicate">Duplicate</bs-dropdown-item>
+            <bs-dropdown-item value="delete" disabled>Delete</bs-dropdown-item>
+          </bs-dropdown>
+        </section>
+        <section>
+          <bs-button @click=${() => this._modal.show()}>Open the modal</bs-button>
+          <bs-modal>
+            <span slot="title">Modal title</span>
+            The rest of the page is inert, Escape closes the modal.
+            <bs-button slot="footer" variant="secondary" @click=${() => this._modal.hide()}>Close</bs-button>
+          </bs-modal>
+        </section>
+        <section>
+          <bs-tabs>
+            <bs-tab-panel label="Home">The home panel</bs-tab-panel>
+            <bs-tab-panel label="Profile">The profile panel</bs-tab-panel>
+            <bs-tab-panel label="Disabled" disabled>Never shown</bs-tab-panel>
+          </bs-tabs>
+        </section>
+      </div>
+      <p>Last event: <code>${this._lastEvent}</code></p>
+    `;
+  }
+
+  private _log(e: Event) {
+    const detail = (e as CustomEvent).detail;
+    this._lastEvent = `${e.type} on <${(e.target as Element).localName}>${detail ? ` ${JSON.stringify(detail)}` : ""}`;
+  }
+
+  static styles = css`
+    section {
+      margin-bottom: 16px;
+    }
+  `;
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    "components-demo": ComponentsDemo;
+  }
+}
@@ -0,0 +1,40 @@
+import { LitElement, html } from "lit";
+import { customElement, property, query } from "lit/decorators.js";
+import { StyledElement } from "../shared/styled.element";
+
+import style from "./dropdown-item.component.scss?inline";
+
+/**
+ * An item of a `bs-dropdown`: a `.dropdown-item` button.
+ * Its `value` is the detail of the `bs-select` event of the dropdown, a disabled item can't be chosen or focused.
+ */
+@customElement("bs-dropdown-item")
+export class BsDropdownItem extends StyledElement(LitElement, style) {
+  @property()
+  value = "";
+
+  @property({ type: Boolean, reflect: true })
+  disabled = false;
+
+  @query("button")
+  private _button!: HTMLButtonElement;
+
+  render() {
+    return html`
+      <button part="item" type="button" class="dropdown-item" role="menuitem" tabindex="-1" ?disabled=${this.disabled}>
+        <slot></slot>
+      </button>
+    `;
+  }
+
+  /** The dropdown moves the focus between its items with the arrow keys */
+  focus(options?: FocusOptions) {
+    this._button.focus(options);
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    "bs-dropdown-item": BsDropdownItem;
+  }
+}
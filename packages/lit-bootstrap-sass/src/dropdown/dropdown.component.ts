@@ -0,0 +1,146 @@
+import { PropertyValues, html } from "lit";
+import { customElement, property, query } from "lit/decorators.js";
+import type { Variant } from "../button/button.component";
+import { emit } from "../shared/events";
+import { StyledElement } from "../shared/styled.element";
+import { ToggleElement } from "../shared/toggle.element";
+import "./dropdown-item.component";
+import type { BsDropdownItem } from "./dropdown-item.component";
+
+import style from "./dropdown.component.scss?inline";
+
+/**
+ * A Bootstrap dropdown: a toggle button and a menu of `bs-dropdown-item`s.
+ * ```html
+ * <bs-dropdown label="Actions" @bs-select=${(e) => console.log(e.detail.value)}>
+ *   <bs-dropdown-item value="edit">Edit</bs-dropdown-item>
+ *   <bs-dropdown-item value="delete" disabled>Delete</bs-dropdown-item>
+ * </bs-dropdown>
+ * ```
+ *
+ * The keyboard support of Bootstrap's JS:
+ * - ArrowDown or ArrowUp on the toggle opens the menu and focuses the first or last item;
+ * - ArrowDown, ArrowUp, Home and End move the focus between the enabled items;
+ * - Escape closes the menu and focuses the toggle, Tab closes it.
+ *
+ * A click outside the dropdown closes it: the listener is on the document while the menu is open,
+ * and `composedPath()` tells whether the click was inside, through the shadow roots.
+ * Choosing an item dispatches `bs-select` with its value, and closes the menu.
+ */
+@customElement("bs-dropdown")
+export class BsDropdown extends StyledElement(ToggleElement, style) {
+  @property()
+  label = "";
+
+  @property()
+  variant: Variant = "secondary";
+
+  @query("[part=toggle]")
+  private _toggleButton!: HTMLButtonElement;
+
+  render() {
+    const show = this.open ? "show" : "";
+    return html`
+      <div class="dropdown">
+        <button
+          part="toggle"
+          type="button"
+          class="btn btn-${this.variant} dropdown-toggle ${show}"
+          aria-haspopup="menu"
+          aria-expanded=${String(this.open)}
+          @click=${() => this.toggle()}
+          @keydown=${this._handleToggleKeydown}
+        >
+          ${this.label}
+        </button>
+        <div
+          part="menu"
+          class="dropdown-menu ${show}"
+          role="menu"
+          data-bs-popper="static"
+          @keydown=${this._handleMenuKeydown}
+          @click=${this._handleMenuClick}
+        >
+          <slot></slot>
+        </div>
+      </div>
+    `;
+  }
+
+  updated(changedProperties: PropertyValues<this>) {
+    if (changedProperties.has("open")) {
+      if (this.open) {
+        document.addEventListener("click", this._handleDocumentClick);
+      } else {
+        document.removeEventListener("click", this._handleDocumentClick);
+      }
+    }
+  }
+
+  disconnectedCallback() {
+    super.disconnectedCallback();
+    document.removeEventListener("click", this._handleDocumentClick);
+  }
+
+  private get _items() {
+    return [...this.querySelectorAll<BsDropdownItem>("bs-dropdown-item:not([disabled])")];
+  }
+
+  private async _handleToggleKeydown(e: KeyboardEvent) {
+    if (e.key === "Escape") {
+      this.hide();
+    }
+    if (e.key !== "ArrowDown" && e.key !== "ArrowUp") {
+      return;
+    }
+    e.preventDefault();
+    await this.show();
+    if (this.open) {
+      this._items.at(e.key === "ArrowDown" ? 0 : -1)?.focus();
+    }
+  }
+
+  private _handleMenuKeydown(e: KeyboardEvent) {
+    const items = this._items;
+    // The focused item, retargeted to the `bs-dropdown-item` host
+    const index = items.findIndex((item) => item.matches(":focus-within"));
+    const next: Record<string, number> = {
+      ArrowDown: Math.min(index + 1, items.length - 1),
+      ArrowUp: Math.max(index - 1, 0),
+      Home: 0,
+      End: items.length - 1,
+    };
+    if (e.key in next) {
+      e.preventDefault();
+      items[next[e.key]]?.focus();
+    } else if (e.key === "Escape") {
+      e.preventDefault();
+      this.hide();
+      this._toggleButton.focus();
+    } else if (e.key === "Tab") {
+      this.hide();
+    }
+  }
+
+  private _handleMenuClick(e: Event) {
+    const item = (e.target as Element).closest("bs-dropdown-item");
+    if (!item || item.disabled) {
+      return;
+    }
+    emit(this, "bs-select", { value: item.value });
+    this.hide();
+    this._toggleButton.focus();
+  }
+
+  private _handleDocumentClick = (e: MouseEvent) => {
+    if (!e.composedPath().includes(this)) {
+      this.hide();
+    }
+  };
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    "bs-dropdown": BsDropdown;
+  }
+}
@@ -0,0 +1,112 @@
+import { PropertyValues, html } from "lit";
+import { customElement, property, query } from "lit/decorators.js";
+import { reflow, transitionEnd } from "../shared/events";
+import { StyledElement } from "../shared/styled.element";
+import { ToggleElement } from "../shared/toggle.element";
+
+import style from "./modal.component.scss?inline";
+
+/**
+ * A Bootstrap modal, on a native `<dialog>`.
+ * ```html
+ * <bs-modal>
+ *   <span slot="title">Title</span>
+ *   ...
+ *   <bs-button slot="footer" @click=${() => modal.hide()}>Close</bs-button>
+ * </bs-modal>
+ * ```
+ *
+ * `showModal()` gives what Bootstrap's JS emulates: the dialog is in the top layer, the rest of the page is inert,
+ * the focus stays inside and goes back to the element that had it once the dialog closes.
+ * Escape and a click on the backdrop hide it, unless `backdrop` is `static`.
+ *
+ * `show()`, `hide()` and `toggle()` dispatch `bs-show`, `bs-shown`, `bs-hide` and `bs-hidden`.
+ */
+@customElement("bs-modal")
+export class BsModal extends StyledElement(ToggleElement, style) {
+  /** `static`: Escape and clicks on the backdrop don't hide the modal */
+  @property()
+  backdrop: "static" | undefined;
+
+  @property()
+  size: "sm" | "lg" | "xl" | undefined;
+
+  @property({ type: Boolean })
+  centered = false;
+
+  @query("dialog")
+  private _dialog!: HTMLDialogElement;
+
+  @query(".modal-dialog")
+  private _modalDialog!: HTMLElement;
+
+  render() {
+    const size = this.size ? `modal-${this.size}` : "";
+    return html`
+      <dialog
+        part="dialog"
+        class="modal fade"
+        aria-labelledby="title"
+        @cancel=${this._handleCancel}
+        @click=${this._handleClick}
+      >
+        <div class="modal-dialog ${size} ${this.centered ? "modal-dialog-centered" : ""}">
+          <div class="modal-content">
+            <div class="modal-header">
+              <h1 class="modal-title fs-5" id="title"><slot name="title"></slot></h1>
+              <button type="button" class="btn-close" aria-label="Close" @click=${this.hide}></button>
+            </div>
+            <div class="modal-body"><slot></slot></div>
+            <div class="modal-footer"><slot name="footer"></slot></div>
+          </div>
+        </div>
+      </dialog>
+    `;
+  }
+
+  updated(changedProperties: PropertyValues<this>) {
+    if (changedProperties.has("open") && !this.transitioning) {
+      if (this.open && this.isConnected && !this._dialog.open) {
+        this._dialog.showModal();
+      } else if (!this.open) {
+        this._dialog.close();
+      }
+      this._dialog.classList.toggle("show", this.open);
+    }
+  }
+
+  protected async transition(open: boolean) {
+    if (open) {
+      this._dialog.showModal();
+      reflow(this._dialog);
+      this._dialog.classList.add("show");
+    } else {
+      this._dialog.classList.remove("show");
+    }
+    await transitionEnd(this._modalDialog);
+    if (!open) {
+      this._dialog.close();
+    }
+  }
+
+  /** Escape: the dialog would close itself, without events or transition */
+  private _handleCancel(e: Event) {
+    e.preventDefault();
+    if (this.backdrop !== "static") {
+      this.hide();
+    }
+  }
+
+  /** The dialog fills the viewport: a click on itself, not on `.modal-dialog`, is a click on the backdrop */
+  private _handleClick(e: MouseEvent) {
+    if (e.target === this._dialog && this.backdrop !== "static") {
+      this.hide();
+    }
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    "bs-modal": BsModal;
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * The events of the components, named after Bootstrap's (`show.bs.modal` is `bs-show` on `<bs-modal>`).
+ * They bubble and are composed: a listener outside every shadow root hears them.
+ */
+export interface BsEventMap {
+  /** Before showing, cancelable */
+  "bs-show": CustomEvent<void>;
+  /** Once shown, after the transition */
+  "bs-shown": CustomEvent<void>;
+  /** Before hiding, cancelable */
+  "bs-hide": CustomEvent<void>;
+  /** Once hidden, after the transition */
+  "bs-hidden": CustomEvent<void>;
+  /** Before an alert closes, cancelable */
+  "bs-close": CustomEvent<void>;
+  /** Once an alert faded out, just before it is removed */
+  "bs-closed": CustomEvent<void>;
+  /** A toggle button was pressed or released */
+  "bs-toggle": CustomEvent<{ pressed: boolean }>;
+  /** A dropdown item was chosen */
+  "bs-select": CustomEvent<{ value: string }>;
+}
+
+/** Dispatches a `bs-*` event. Returns `false` when a listener called `preventDefault()` */
+export const emit = <K extends keyof BsEventMap>(
+  target: EventTarget,
+  type: K,
+  ...[detail]: BsEventMap[K]["detail"] extends void ? [] : [BsEventMap[K]["detail"]]
+) => target.dispatchEvent(new CustomEvent(type, { bubbles: true, composed: true, cancelable: true, detail }));
+
+/**
+ * Resolves once the transition of `element` ended, like Bootstrap's `executeAfterTransition()`:
+ * at `transitionend`, or after the duration in case the event never comes (the element was hidden meanwhile).
+ * Resolves at once without a transition, or when the user prefers reduced motion.
+ */
+export const transitionEnd = (element: Element) =>
+  new Promise<void>((resolve) => {
+    const { transitionDuration, transitionDelay } = getComputedStyle(element);
+    const duration = (parseFloat(transitionDuration) + parseFloat(transitionDelay)) * 1000;
+    if (!duration) {
+      resolve();
+      return;
+    }
+    const done = () => {
+      element.removeEventListener("transitionend", onTransitionEnd);
+      clearTimeout(timeout);
+      resolve();
+    };
+    const onTransitionEnd = (e: Event) => e.target === element && done();
+    const timeout = setTimeout(done, duration + 5);
+    element.addEventListener("transitionend", onTransitionEnd);
+  });
+
+/** Forces a style recalculation, so a class added next starts a transition */
+export const reflow = (element: HTMLElement) => element.offsetHeight;
+
+declare global {
+  interface HTMLElementEventMap extends BsEventMap {}
+}
@@ -1,5 +1,11 @@
 declare module '*.scss';
-declare module '*.scss?inline';
+declare module '*.scss?inline' {
+  const css: string;
+  export default css;
+}
 declare module '*.css';
-declare module '*.css?inline';
+declare module '*.css?inline' {
+  const css: string;
+  export default css;
+}
 declare module '*.html';
@@ -0,0 +1,142 @@
+import { LitElement, css, html } from "lit";
+import { customElement, property } from "lit/decorators.js";
+import { version } from "bootstrap/package.json";
+import { registry } from "lit-styles";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import "../test/test.component";
+import { Test2Component } from "../test2/test2.component";
+import { StyledElement, globalStyleSheet } from "./styled.element";
+
+type Constructor<T = {}> = new (...args: any[]) => T;
+
+/** Another mixin with its own styles, to compose with `StyledElement` */
+const Outlined = <TBase extends Constructor<LitElement>>(Base: TBase) => {
+  class OutlinedElement extends Base {
+    static styles = css`
+      :host {
+        display: block;
+        outline: 1px dashed currentColor;
+      }
+    `;
+
+    @property({ type: Boolean })
+    outlined = true;
+  }
+  return OutlinedElement;
+};
+
+@customElement("composed-component")
+class ComposedComponent extends StyledElement(Outlined(LitElement), css`p { text-transform: uppercase; }`) {
+  render() {
+    return html`<p class="fw-bold">Composed</p>`;
+  }
+}
+
+/** A styled element styled again */
+@customElement("restyled-component")
+class RestyledComponent extends StyledElement(Test2Component, "p { font-style: italic; }") {}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    "composed-component": ComposedComponent;
+    "restyled-component": RestyledComponent;
+  }
+}
+
+const adopted = (element: LitElement) => element.shadowRoot!.adoptedStyleSheets;
+
+const computed = (element: LitElement, selector: string, property: string) =>
+  getComputedStyle(element.shadowRoot!.querySelector(selector)!).getPropertyValue(property);
+
+let test: HTMLElementTagNameMap["test-component"];
+let test2: HTMLElementTagNameMap["test2-component"];
+
+beforeEach(async () => {
+  document.body.innerHTML = `
+    <test-component name="Pippo"></test-component>
+    <test2-component></test2-component>
+  `;
+  test = document.querySelector("test-component")!;
+  test2 = document.querySelector("test2-component")!;
+  await Promise.all([test.updateComplete, test2.updateComplete]);
+});
+
+afterEach(() => {
+  document.body.innerHTML = "";
+});
+
+describe("test-component and test2-component", () => {
+  it("adopt the same global stylesheet instance", () => {
+    expect(adopted(test)[0]).toBe(globalStyleSheet.styleSheet);
+    expect(adopted(test2)[0]).toBe(adopted(test)[0]);
+  });
+
+  it("each add their own component stylesheet", () => {
+    expect([adopted(test).length, adopted(test2).length]).toEqual([2, 2]);
+    expect(adopted(test)[1]).not.toBe(adopted(test2)[1]);
+  });
+
+  it("test-component: the paragraph is $danger, its name $primary", () => {
+    expect([computed(test, "p", "color"), computed(test, "b", "color"), computed(test, "p", "padding-bottom")]).toEqual(
+      ["rgb(220, 53, 69)", "rgb(13, 110, 253)", "8px"]
+    );
+  });
+
+  it("test2-component: Bootstrap's reboot applies in the shadow root", () => {
+    expect([computed(test2, "p", "margin-top"), computed(test2, "p", "margin-bottom")]).toEqual(["0px", "16px"]);
+  });
+
+  it("render the name property", () => {
+    expect([test.shadowRoot!.querySelector("b")!.textContent, test2.name]).toEqual(["Pippo", "World"]);
+  });
+
+  it("don't add Bootstrap to the document", () => {
+    expect([...document.styleSheets].some((sheet) => sheet.ownerNode?.textContent?.includes(".btn-primary"))).toBe(
+      false
+    );
+  });
+});
+
+describe("composition", () => {
+  it("with another mixin: keeps its styles and properties, and Bootstrap utilities apply", async () => {
+    const composed = document.createElement("composed-component");
+    document.body.append(composed);
+    await composed.updateComplete;
+
+    expect(adopted(composed)).toHaveLength(3);
+    expect(adopted(composed)[0]).toBe(globalStyleSheet.styleSheet);
+    expect(getComputedStyle(composed).getPropertyValue("outline-style")).toBe("dashed");
+    expect([computed(composed, "p", "text-transform"), computed(composed, "p", "font-weight")]).toEqual([
+      "uppercase",
+      "700",
+    ]);
+    expect(composed.outlined).toBe(true);
+  });
+
+  it("a styled element styled again adopts the global stylesheet once", async () => {
+    const restyled = document.createElement("restyled-component");
+    document.body.append(restyled);
+    await restyled.updateComplete;
+
+    expect(adopted(restyled).filter((sheet) => sheet === globalStyleSheet.styleSheet)).toHaveLength(1);
+    expect(computed(restyled, "p", "font-style")).toBe("italic");
+  });
+});
+
+describe("the bootstrap style module of lit-styles", () => {
+  it("is the global stylesheet, versioned with Bootstrap", () => {
+    expect(registry.get("bootstrap")).toEqual({ name: "bootstrap", version, styles: globalStyleSheet });
+  });
+
+  it("lists the styled elements connected, not the mixin class", async () => {
+    const restyled = document.createElement("restyled-component");
+    document.body.append(restyled);
+    await restyled.updateComplete;
+
+    const bootstrap = registry.usage().find(({ name }) => name === "bootstrap")!;
+    expect(bootstrap.elements).toEqual(
+      expect.arrayContaining(["test-component", "test2-component", "restyled-component"])
+    );
+    expect(bootstrap.elements).not.toContain("StyledElementClass");
+  });
+});
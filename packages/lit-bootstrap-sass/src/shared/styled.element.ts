@@ -1,8 +1,64 @@
-import { LitElement, unsafeCSS } from "lit";
+import { CSSResult, CSSResultGroup, LitElement, unsafeCSS } from "lit";
+import { defineStyles, registry } from "lit-styles";
+import { version } from "bootstrap/package.json";
 
-import glogalStyles from "./global.scss";
+import globalStyles from "./global.scss?inline";
 
-export const StyledElement = (style) =>
-  class extends LitElement {
-    static styles = [unsafeCSS(glogalStyles), unsafeCSS(style)];
-  };
+type Constructor<T = {}> = new (...args: any[]) => T;
+
+declare module "lit-styles" {
+  interface StyleModuleMap {
+    bootstrap: true;
+  }
+}
+
+/**
+ * Bootstrap, compiled from `global.scss` once for the whole app.
+ * Lit caches the constructed stylesheet of a `CSSResult`: every styled element adopts this same sheet,
+ * instead of one copy of Bootstrap per component.
+ *
+ * Bootstrap declares its CSS variables (`--bs-body-color`, `--bs-border-radius`...) on `:root`, which matches nothing
+ * in a shadow root: they are declared on `:host` instead.
+ */
+export const globalStyleSheet: CSSResult = unsafeCSS(globalStyles.replaceAll(":root", ":host"));
+
+/**
+ * The `bootstrap` style module of lit-styles, versioned with the Bootstrap it was compiled from: `registry.usage()`
+ * lists the styled elements, and a second bundle with another Bootstrap is reported in `registry.conflicts()`.
+ */
+registry.register(defineStyles("bootstrap", version, globalStyleSheet));
+
+/**
+ * Adds the global stylesheet, requested from the lit-styles registry, and the component `styles` to `Base`.
+ * ```ts
+ * import style from "./test.component.scss?inline";
+ *
+ * @customElement("test-component")
+ * export class TestComponent extends StyledElement(LitElement, style) {}
+ * ```
+ *
+ * `styles` are the strings of `?inline` imports, or `css` results. The styles of `Base` are kept, after the global
+ * stylesheet: `Base` can be another mixin, or another styled element. Lit drops the duplicates of a sheet.
+ */
+export const StyledElement = <TBase extends Constructor<LitElement>>(
+  Base: TBase,
+  ...styles: Array<string | CSSResultGroup>
+) => {
+  class StyledElementClass extends Base {
+    static styles: CSSResultGroup = [
+      registry.get("bootstrap")!.styles,
+      (Base as unknown as typeof LitElement).styles ?? [],
+      ...styles.map((style) => (typeof style === "string" ? unsafeCSS(style) : style)),
+    ];
+
+    /**
+     * Records the element class as a user of the `bootstrap` module. `styles` can't: it is initialized once,
+     * on this class and not on the elements extending it.
+     */
+    connectedCallback() {
+      registry.request(this.constructor as CustomElementConstructor, "bootstrap");
+      super.connectedCallback();
+    }
+  }
+  return StyledElementClass;
+};
@@ -0,0 +1,59 @@
+import { LitElement } from "lit";
+import { property } from "lit/decorators.js";
+import { emit } from "./events";
+
+/**
+ * The base of the components that open and close: `bs-collapse`, `bs-dropdown` and `bs-modal`.
+ * `show()`, `hide()` and `toggle()` dispatch `bs-show` or `bs-hide` first, a listener can cancel them,
+ * then set `open` and run the transition of the subclass, then dispatch `bs-shown` or `bs-hidden`.
+ * They resolve to `false` when the change was cancelled, or ignored during another transition.
+ *
+ * Setting `open` directly (or the attribute) shows or hides without events or transition, like the initial state.
+ */
+export class ToggleElement extends LitElement {
+  @property({ type: Boolean, reflect: true })
+  open = false;
+
+  private _pending?: Promise<boolean>;
+
+  show() {
+    return this.toggle(true);
+  }
+
+  hide() {
+    return this.toggle(false);
+  }
+
+  async toggle(open = !this.open): Promise<boolean> {
+    // Like Bootstrap, ignore the calls during a transition
+    if (this._pending) {
+      return false;
+    }
+    if (open === this.open) {
+      return true;
+    }
+    if (!emit(this, open ? "bs-show" : "bs-hide")) {
+      return false;
+    }
+    this._pending = (async () => {
+      this.open = open;
+      await this.updateComplete;
+      await this.transition(open);
+      emit(this, open ? "bs-shown" : "bs-hidden");
+      return true;
+    })();
+    try {
+      return await this._pending;
+    } finally {
+      this._pending = undefined;
+    }
+  }
+
+  /** From `bs-show` or `bs-hide` to `bs-shown` or `bs-hidden` */
+  protected get transitioning() {
+    return !!this._pending;
+  }
+
+  /** Runs once `open` was rendered. Resolves when the transition ended */
+  protected async transition(_open: boolean): Promise<void> {}
+}
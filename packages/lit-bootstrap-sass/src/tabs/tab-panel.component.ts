@@ -0,0 +1,36 @@
+import { LitElement, html } from "lit";
+import { customElement, property } from "lit/decorators.js";
+import { StyledElement } from "../shared/styled.element";
+
+import style from "./tab-panel.component.scss?inline";
+
+/** A panel of `bs-tabs`, its `label` is the text of its tab. Hidden by the tabs unless selected */
+@customElement("bs-tab-panel")
+export class BsTabPanel extends StyledElement(LitElement, style) {
+  @property()
+  label = "";
+
+  @property({ type: Boolean, reflect: true })
+  disabled = false;
+
+  private _internals = this.attachInternals();
+
+  constructor() {
+    super();
+    this._internals.role = "tabpanel";
+  }
+
+  render() {
+    return html`<slot></slot>`;
+  }
+
+  updated() {
+    this._internals.ariaLabel = this.label;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    "bs-tab-panel": BsTabPanel;
+  }
+}
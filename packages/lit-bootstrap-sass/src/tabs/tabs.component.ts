@@ -0,0 +1,123 @@
+import { LitElement, PropertyValues, html } from "lit";
+import { customElement, property, queryAll, state } from "lit/decorators.js";
+import { classMap } from "lit/directives/class-map.js";
+import { emit } from "../shared/events";
+import { StyledElement } from "../shared/styled.element";
+import { BsTabPanel } from "./tab-panel.component";
+
+import style from "./tabs.component.scss?inline";
+
+/**
+ * Bootstrap tabs: a `.nav-tabs` list with a tab per `bs-tab-panel` child, showing the `selected` panel.
+ * ```html
+ * <bs-tabs>
+ *   <bs-tab-panel label="Home">...</bs-tab-panel>
+ *   <bs-tab-panel label="Profile">...</bs-tab-panel>
+ * </bs-tabs>
+ * ```
+ *
+ * The keyboard support of Bootstrap's JS: the arrow keys select the next or previous enabled tab (cycling),
+ * Home and End the first and last. Only the selected tab is in the tab order (roving `tabindex`).
+ *
+ * Selecting a tab dispatches `bs-hide` on the previous panel and `bs-show` on the next one, either can be cancelled,
+ * then `bs-hidden` and `bs-shown`. They bubble: listen on `bs-tabs`, `event.target` is the panel.
+ * The tabs follow the panels added and removed, not the later changes of their labels.
+ */
+@customElement("bs-tabs")
+export class BsTabs extends StyledElement(LitElement, style) {
+  @property({ type: Number, reflect: true })
+  selected = 0;
+
+  @property()
+  variant: "tabs" | "pills" | "underline" = "tabs";
+
+  @state()
+  private _panels: BsTabPanel[] = [];
+
+  @queryAll("[role=tab]")
+  private _tabs!: NodeListOf<HTMLButtonElement>;
+
+  render() {
+    return html`
+      <ul part="tablist" class="nav nav-${this.variant}" role="tablist" @keydown=${this._handleKeydown}>
+        ${this._panels.map(
+          (panel, index) => html`
+            <li class="nav-item" role="presentation">
+              <button
+                type="button"
+                role="tab"
+                class=${classMap({ "nav-link": true, active: index === this.selected })}
+                aria-selected=${String(index === this.selected)}
+                tabindex=${index === this.selected ? 0 : -1}
+                ?disabled=${panel.disabled}
+                @click=${() => this.select(index)}
+              >
+                ${panel.label}
+              </button>
+            </li>
+          `
+        )}
+      </ul>
+      <div part="content" class="tab-content">
+        <slot @slotchange=${this._handleSlotChange}></slot>
+      </div>
+    `;
+  }
+
+  updated(changedProperties: PropertyValues<this>) {
+    if (changedProperties.has("selected") || changedProperties.has("_panels" as keyof BsTabs)) {
+      this._panels.forEach((panel, index) => (panel.hidden = index !== this.selected));
+    }
+  }
+
+  /** Resolves to `false` when the tab is already selected, disabled, missing, or a listener cancelled it */
+  async select(index: number) {
+    const previous = this._panels[this.selected];
+    const next = this._panels[index];
+    if (!next || next === previous || next.disabled) {
+      return false;
+    }
+    if ((previous && !emit(previous, "bs-hide")) || !emit(next, "bs-show")) {
+      return false;
+    }
+    this.selected = index;
+    await this.updateComplete;
+    if (previous) {
+      emit(previous, "bs-hidden");
+    }
+    emit(next, "bs-shown");
+    return true;
+  }
+
+  private _handleSlotChange(e: Event) {
+    this._panels = (e.target as HTMLSlotElement)
+      .assignedElements()
+      .filter((element): element is BsTabPanel => element instanceof BsTabPanel);
+  }
+
+  private async _handleKeydown(e: KeyboardEvent) {
+    const enabled = this._panels.flatMap((panel, index) => (panel.disabled ? [] : [index]));
+    const position = enabled.indexOf(this.selected);
+    const next: Record<string, number | undefined> = {
+      ArrowRight: enabled[(position + 1) % enabled.length],
+      ArrowDown: enabled[(position + 1) % enabled.length],
+      ArrowLeft: enabled.at(position - 1),
+      ArrowUp: enabled.at(position - 1),
+      Home: enabled[0],
+      End: enabled.at(-1),
+    };
+    const index = next[e.key];
+    if (index === undefined) {
+      return;
+    }
+    e.preventDefault();
+    await this.select(index);
+    this._tabs[this.selected]?.focus();
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    "bs-tabs": BsTabs;
+  }
+}
@@ -1,11 +1,11 @@
-import { html } from "lit";
+import { LitElement, html } from "lit";
 import { customElement, property } from "lit/decorators.js";
 import { StyledElement } from "../shared/styled.element";
 
 import style from "./test.component.scss?inline";
 
 @customElement("test-component")
-export class TestComponent extends StyledElement(style) {
+export class TestComponent extends StyledElement(LitElement, style) {
   @property()
   name?: string = "World";
 
@@ -22,3 +22,9 @@ export class TestComponent extends StyledElement(style) {
     `;
   }
 }
+
+declare global {
+  interface HTMLElementTagNameMap {
+    "test-component": TestComponent;
+  }
+}
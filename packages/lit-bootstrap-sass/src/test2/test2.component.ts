@@ -1,11 +1,11 @@
-import { html } from "lit";
+import { LitElement, html } from "lit";
 import { customElement, property } from "lit/decorators.js";
 import { StyledElement } from "../shared/styled.element";
 
 import style from "./test2.component.scss?inline";
 
 @customElement("test2-component")
-export class Test2Component extends StyledElement(style) {
+export class Test2Component extends StyledElement(LitElement, style) {
   @property()
   name?: string = "World";
 
@@ -22,3 +22,9 @@ export class Test2Component extends StyledElement(style) {
     `;
   }
 }
+
+declare global {
+  interface HTMLElementTagNameMap {
+    "test2-component": Test2Component;
+  }
+}
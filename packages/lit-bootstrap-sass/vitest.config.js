@@ -0,0 +1,18 @@
+import { defineConfig } from "vitest/config";
+
+// The tests read computed styles, focus and `<dialog>`s, which happy-dom doesn't implement: they run in Chromium,
+// driven by Playwright. Install it once with `pnpm exec playwright install chromium`.
+export default defineConfig({
+  // Optimized up front: discovered during the run, Vite would reload the tests
+  optimizeDeps: {
+    include: ["lit/directives/class-map.js"],
+  },
+  test: {
+    browser: {
+      enabled: true,
+      provider: "playwright",
+      headless: true,
+      instances: [{ browser: "chromium" }],
+    },
+  },
+});
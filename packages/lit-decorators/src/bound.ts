@@ -0,0 +1,59 @@
+import { AnyFunction, DualMethodDecorator, Members } from "./dual-decorator.ts";
+
+/** The first object of the prototype chain of `instance` that defines `name`. */
+const definingPrototype = (instance: object, name: PropertyKey) => {
+  let proto = Object.getPrototypeOf(instance);
+  while (proto && !Object.prototype.hasOwnProperty.call(proto, name)) {
+    proto = Object.getPrototypeOf(proto);
+  }
+  return proto;
+};
+
+/**
+ * Binds the method to the instance, so it can be passed as a callback and still use `this`.
+ * ```ts
+ * @bound
+ * private _handleResize() { ... }
+ *
+ * window.addEventListener("resize", this._handleResize);
+ * window.removeEventListener("resize", this._handleResize); // the same function
+ * ```
+ *
+ * Declarative `@event=${this._handler}` listeners are already bound by Lit, `@bound` is for `addEventListener()`,
+ * timers and callbacks passed to other objects. A subclass overriding the method must decorate it too.
+ */
+export const bound = ((
+  protoOrMethod: object,
+  nameOrContext: PropertyKey | ClassMethodDecoratorContext,
+  descriptor?: PropertyDescriptor
+) => {
+  if (typeof nameOrContext === "object") {
+    const context = nameOrContext;
+    if (context.private) {
+      throw new Error(`@bound can't decorate the private method ${String(context.name)}`);
+    }
+    context.addInitializer(function (this: unknown) {
+      const members = this as Members;
+      members[context.name] = (members[context.name] as AnyFunction).bind(this);
+    });
+    return;
+  }
+  const name = nameOrContext;
+  const method = descriptor!.value as AnyFunction;
+  return {
+    configurable: true,
+    get(this: object) {
+      // Read on the prototype itself (`MyElement.prototype._handler`), nothing to bind to
+      if (this === protoOrMethod) {
+        return method;
+      }
+      const value = method.bind(this);
+      // Bound once per instance, so the next reads get the same function. Unless it is read through `super`
+      // from a subclass override: caching the base method on the instance would hide the override.
+      if (definingPrototype(this, name) === protoOrMethod) {
+        Object.defineProperty(this, name, { value, configurable: true, writable: true });
+      }
+      return value;
+    },
+  };
+}) as DualMethodDecorator;
@@ -0,0 +1,38 @@
+import { AnyFunction, DualGetterDecorator, Members } from "./dual-decorator.ts";
+
+/**
+ * Caches the value of a getter until one of `dependencies` changed (compared with `Object.is()`, like Lit does).
+ * ```ts
+ * @computed("items", "filter")
+ * get visibleItems() {
+ *   return this.items.filter((item) => item.includes(this.filter));
+ * }
+ * ```
+ *
+ * The getter must only depend on the listed properties: the cache doesn't see any other change.
+ * Mutating an array in place doesn't change it either, assign a new array.
+ */
+export const computed = (...dependencies: string[]) => {
+  const cache = new WeakMap<object, { values: unknown[]; result: unknown }>();
+  const cached = (getter: AnyFunction) =>
+    function (this: Members) {
+      const values = dependencies.map((dependency) => this[dependency]);
+      const entry = cache.get(this);
+      if (entry && entry.values.every((value, i) => Object.is(value, values[i]))) {
+        return entry.result;
+      }
+      const result = getter.call(this);
+      cache.set(this, { values, result });
+      return result;
+    };
+  return ((
+    protoOrGetter: object,
+    nameOrContext: PropertyKey | ClassGetterDecoratorContext,
+    descriptor?: PropertyDescriptor
+  ) => {
+    if (typeof nameOrContext === "object") {
+      return cached(protoOrGetter as AnyFunction);
+    }
+    return { ...descriptor, get: cached(descriptor!.get!) };
+  }) as DualGetterDecorator;
+};
@@ -0,0 +1,30 @@
+import { AnyFunction, DualMethodDecorator } from "./dual-decorator.ts";
+
+/**
+ * Delays the method until it hasn't been called for `wait` ms, then calls it once with the last arguments.
+ * ```ts
+ * @debounce(300)
+ * private _save() { ... }
+ * ```
+ *
+ * Each instance has its own timer. The decorated method returns `undefined`.
+ * A pending call still runs after the element is disconnected.
+ */
+export const debounce = (wait: number) => {
+  const timers = new WeakMap<object, ReturnType<typeof setTimeout>>();
+  const debounced = (method: AnyFunction) =>
+    function (this: object, ...args: unknown[]) {
+      clearTimeout(timers.get(this));
+      timers.set(this, setTimeout(() => method.apply(this, args), wait));
+    };
+  return ((
+    protoOrMethod: object,
+    nameOrContext: PropertyKey | ClassMethodDecoratorContext,
+    descriptor?: PropertyDescriptor
+  ) => {
+    if (typeof nameOrContext === "object") {
+      return debounced(protoOrMethod as AnyFunction);
+    }
+    return { ...descriptor, value: debounced(descriptor!.value) };
+  }) as DualMethodDecorator;
+};
@@ -0,0 +1,28 @@
+/**
+ * The decorators of this package work with experimental and standard decorators alike.
+ *
+ * A decorator receives different arguments in each mode:
+ * - experimental: `(prototype, name, descriptor)`, it returns a new descriptor to replace the member;
+ * - standard: `(value, context)`, it returns the replacement value, and `context.addInitializer()` runs code
+ *   for every new instance.
+ * Each decorator tells them apart with `typeof nameOrContext === "object"`, like Lit's own decorators do.
+ */
+
+/** A method decorator for both modes. */
+export interface DualMethodDecorator {
+  // experimental
+  (proto: object, name: PropertyKey, descriptor?: PropertyDescriptor): PropertyDescriptor | void;
+  // standard
+  <C, V extends (this: C, ...args: any) => any>(method: V, context: ClassMethodDecoratorContext<C, V>): V | void;
+}
+
+/** A getter decorator for both modes. */
+export interface DualGetterDecorator {
+  // experimental
+  (proto: object, name: PropertyKey, descriptor: PropertyDescriptor): PropertyDescriptor | void;
+  // standard
+  <C, V>(getter: (this: C) => V, context: ClassGetterDecoratorContext<C, V>): ((this: C) => V) | void;
+}
+
+export type AnyFunction = (...args: unknown[]) => unknown;
+export type Members = Record<PropertyKey, unknown>;
@@ -0,0 +1,6 @@
+export { bound } from "./bound.ts";
+export { computed } from "./computed.ts";
+export { debounce } from "./debounce.ts";
+export type { DualGetterDecorator, DualMethodDecorator } from "./dual-decorator.ts";
+export { watch } from "./watch.ts";
+export type { WatchOptions } from "./watch.ts";
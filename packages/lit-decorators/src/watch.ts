@@ -0,0 +1,66 @@
+import { PropertyValues, ReactiveElement } from "lit";
+import { AnyFunction, DualMethodDecorator, Members } from "./dual-decorator.ts";
+
+export interface WatchOptions {
+  /** Don't call the method for the initial values, only for changes after the first update. */
+  waitUntilFirstUpdate?: boolean;
+}
+
+interface Watcher {
+  property: PropertyKey;
+  method: PropertyKey;
+  waitUntilFirstUpdate: boolean;
+}
+
+const watchers = new WeakMap<ReactiveElement, Watcher[]>();
+
+/**
+ * Registers a watcher on an element. The first one wraps the instance's `willUpdate()`,
+ * so the watchers run before the `willUpdate()` of the class and of its superclasses.
+ */
+const addWatcher = (element: ReactiveElement, watcher: Watcher) => {
+  let list = watchers.get(element);
+  if (!list) {
+    const elementWatchers: Watcher[] = (list = []);
+    watchers.set(element, elementWatchers);
+    // willUpdate() is protected, the wrapper is an own property of the instance that shadows it
+    const host = element as unknown as { willUpdate(changedProperties: PropertyValues): void };
+    const willUpdate = host.willUpdate;
+    host.willUpdate = function (this: ReactiveElement, changedProperties: PropertyValues) {
+      for (const { property, method, waitUntilFirstUpdate } of elementWatchers) {
+        if (changedProperties.has(property) && (this.hasUpdated || !waitUntilFirstUpdate)) {
+          const members = this as unknown as Members;
+          (members[method] as AnyFunction).call(this, changedProperties.get(property), members[property]);
+        }
+      }
+      willUpdate.call(this, changedProperties);
+    };
+  }
+  list.push(watcher);
+};
+
+/**
+ * Calls the method with `(oldValue, newValue)` when the reactive property `property` changed.
+ * ```ts
+ * @watch("query")
+ * protected _queryChanged(oldValue?: string, newValue?: string) { ... }
+ * ```
+ *
+ * The method runs from `willUpdate()`, once per update whatever the number of changes since the last one:
+ * `oldValue` is the value at the last update. Like `willUpdate()`, it doesn't run when `shouldUpdate()` returns false,
+ * and that change is not reported later. Property changes in the method don't trigger another update.
+ */
+export const watch = (property: string, { waitUntilFirstUpdate = false }: WatchOptions = {}) =>
+  ((protoOrMethod: object, nameOrContext: PropertyKey | ClassMethodDecoratorContext) => {
+    if (typeof nameOrContext === "object") {
+      const method = nameOrContext.name;
+      nameOrContext.addInitializer(function (this: unknown) {
+        addWatcher(this as ReactiveElement, { property, method, waitUntilFirstUpdate });
+      });
+    } else {
+      const method = nameOrContext;
+      (protoOrMethod.constructor as typeof ReactiveElement).addInitializer((element) =>
+        addWatcher(element, { property, method, waitUntilFirstUpdate })
+      );
+    }
+  }) as DualMethodDecorator;
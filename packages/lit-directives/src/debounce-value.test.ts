@@ -0,0 +1,96 @@
+import { html, render } from "lit";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { debounceValue } from "./index.ts";
+
+const container = document.createElement("div");
+
+const renderValue = (value: string, wait?: number) =>
+  render(html`<p title=${debounceValue(value, wait)}>${debounceValue(value, wait)}</p>`, container);
+
+const rendered = () => {
+  const p = container.querySelector("p")!;
+  return [p.textContent, p.title];
+};
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  render(html``, container);
+  vi.useRealTimers();
+});
+
+describe("debounceValue", () => {
+  it("renders the first value immediately", () => {
+    renderValue("first");
+
+    expect(rendered()).toEqual(["first", "first"]);
+  });
+
+  it("renders a new value once it stopped changing for the wait", () => {
+    renderValue("a", 500);
+    renderValue("ab", 500);
+    vi.advanceTimersByTime(400);
+    expect(rendered()).toEqual(["a", "a"]);
+
+    // Each change starts the wait again
+    renderValue("abc", 500);
+    vi.advanceTimersByTime(400);
+    expect(rendered()).toEqual(["a", "a"]);
+
+    vi.advanceTimersByTime(100);
+
+    expect(rendered()).toEqual(["abc", "abc"]);
+  });
+
+  it("waits 300 ms by default, and keeps waiting when re-rendered with the pending value", () => {
+    renderValue("a");
+    renderValue("b");
+    vi.advanceTimersByTime(200);
+    renderValue("b");
+    vi.advanceTimersByTime(100);
+
+    expect(rendered()).toEqual(["b", "b"]);
+  });
+
+  it("drops the pending value when back to the rendered value before the end of the wait", () => {
+    renderValue("a");
+    renderValue("b");
+
+    renderValue("a");
+    vi.runAllTimers();
+
+    expect(rendered()).toEqual(["a", "a"]);
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it("keeps the pending value while disconnected, and waits again once reconnected", () => {
+    renderValue("a");
+    const part = renderValue("b");
+    vi.advanceTimersByTime(200);
+
+    part.setConnected(false);
+    vi.advanceTimersByTime(1000);
+    expect(rendered()).toEqual(["a", "a"]);
+
+    part.setConnected(true);
+    vi.advanceTimersByTime(200);
+    expect(rendered()).toEqual(["a", "a"]);
+
+    vi.advanceTimersByTime(100);
+
+    expect(rendered()).toEqual(["b", "b"]);
+  });
+
+  it("rejects event listener and element expressions", () => {
+    expect(() => render(html`<p @click=${debounceValue(() => {})}></p>`, container)).toThrow(
+      "debounceValue() can't be used in an event listener expression (`@event=${...}`), " +
+        "only in a child expression (`<p>${...}</p>`) or an attribute expression (`attr=${...}`) " +
+        "or a boolean attribute expression (`?attr=${...}`) or a property expression (`.prop=${...}`)"
+    );
+    expect(() => render(html`<p ${debounceValue("a")}></p>`, container)).toThrow(
+      "debounceValue() can't be used in an element expression (`<div ${...}>`)"
+    );
+  });
+});
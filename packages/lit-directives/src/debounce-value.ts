@@ -0,0 +1,80 @@
+import { noChange } from "lit";
+import { AsyncDirective } from "lit/async-directive.js";
+import { PartInfo, PartType, directive } from "lit/directive.js";
+import { assertPartType } from "./part-type.ts";
+
+/** No value yet, `undefined` is a value to render. */
+const NONE = Symbol("none");
+
+class DebounceValueDirective extends AsyncDirective {
+  private _committed: unknown = NONE;
+  private _pending: unknown = NONE;
+  private _wait = 0;
+  private _timeout?: ReturnType<typeof setTimeout>;
+
+  constructor(partInfo: PartInfo) {
+    super(partInfo);
+    assertPartType("debounceValue", partInfo, [
+      PartType.CHILD,
+      PartType.ATTRIBUTE,
+      PartType.BOOLEAN_ATTRIBUTE,
+      PartType.PROPERTY,
+    ]);
+  }
+
+  render(value: unknown, wait = 300) {
+    this._wait = wait;
+    // The first value is rendered immediately, so is the server output
+    if (this._committed === NONE) {
+      this._committed = value;
+      return value;
+    }
+    // Re-rendered with the value it waits for, keep waiting
+    if (value === this._pending) {
+      return noChange;
+    }
+    clearTimeout(this._timeout);
+    // Back to the rendered value before the end of the wait, nothing to render
+    if (value === this._committed) {
+      this._pending = NONE;
+      return noChange;
+    }
+    this._pending = value;
+    if (this.isConnected) {
+      this._schedule();
+    }
+    return noChange;
+  }
+
+  private _schedule() {
+    this._timeout = setTimeout(() => this._commit(), this._wait);
+  }
+
+  private _commit() {
+    this._committed = this._pending;
+    this._pending = NONE;
+    this.setValue(this._committed);
+  }
+
+  disconnected() {
+    clearTimeout(this._timeout);
+  }
+
+  reconnected() {
+    if (this._pending !== NONE) {
+      this._schedule();
+    }
+  }
+}
+
+/**
+ * Renders `value` once it stopped changing for `wait` ms (300 by default).
+ * ```ts
+ * html`<search-results .query=${debounceValue(this.query, 500)}></search-results>`
+ * ```
+ *
+ * The element re-renders on every keystroke, but `search-results` only receives the query when the user pauses.
+ * The first value is rendered immediately. Values are compared with `===`.
+ * A pending value is kept while the template is disconnected, its wait starts again on reconnect.
+ */
+export const debounceValue = directive(DebounceValueDirective);
@@ -0,0 +1,54 @@
+import { html, render } from "lit";
+import { afterEach, describe, expect, it } from "vitest";
+import { highlight } from "./index.ts";
+
+const container = document.createElement("div");
+
+/** The rendered markup, without the markers of the template */
+const renderHighlight = (text: string, query: string) => {
+  render(html`<p>${highlight(text, query)}</p>`, container);
+  return container.querySelector("p")!.innerHTML.replace(/<!--[^>]*-->/g, "");
+};
+
+afterEach(() => {
+  render(html``, container);
+});
+
+describe("highlight", () => {
+  it("marks every match, case-insensitively, keeping the case of the text", () => {
+    expect(renderHighlight("Land of Finland", "LAND")).toBe("<mark>Land</mark> of Fin<mark>land</mark>");
+  });
+
+  it("matches regular expression characters literally", () => {
+    expect(renderHighlight("1+1 = 2 (a.k.a. two)", "(a.k.a.")).toBe("1+1 = 2 <mark>(a.k.a.</mark> two)");
+    expect(renderHighlight("a.b", ".")).toBe("a<mark>.</mark>b");
+  });
+
+  it("renders the text and the query as text, not as HTML", () => {
+    expect(renderHighlight("<b>bold</b>", "<b>")).toBe("<mark>&lt;b&gt;</mark>bold&lt;/b&gt;");
+  });
+
+  it("renders the text unchanged for an empty query, or without match", () => {
+    expect(renderHighlight("Finland", "")).toBe("Finland");
+    expect(renderHighlight("Finland", "x")).toBe("Finland");
+  });
+
+  it("updates the marks when the query changes", () => {
+    renderHighlight("Finland", "fin");
+
+    expect(renderHighlight("Finland", "land")).toBe("Fin<mark>land</mark>");
+  });
+
+  it("rejects every expression but child expressions", () => {
+    expect(() => render(html`<p title=${highlight("Finland", "land")}></p>`, container)).toThrow(
+      "highlight() can't be used in an attribute expression (`attr=${...}`), " +
+        "only in a child expression (`<p>${...}</p>`)"
+    );
+    expect(() => render(html`<p ?hidden=${highlight("Finland", "land")}></p>`, container)).toThrow(
+      "highlight() can't be used in a boolean attribute expression (`?attr=${...}`)"
+    );
+    expect(() => render(html`<p .title=${highlight("Finland", "land")}></p>`, container)).toThrow(
+      "highlight() can't be used in a property expression (`.prop=${...}`)"
+    );
+  });
+});
@@ -0,0 +1,34 @@
+import { html } from "lit";
+import { Directive, PartInfo, PartType, directive } from "lit/directive.js";
+import { assertPartType } from "./part-type.ts";
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+class HighlightDirective extends Directive {
+  constructor(partInfo: PartInfo) {
+    super(partInfo);
+    // `<mark>` elements can't be rendered in an attribute
+    assertPartType("highlight", partInfo, [PartType.CHILD]);
+  }
+
+  render(text: string, query: string) {
+    if (!query) {
+      return text;
+    }
+    // With a capturing group, split() keeps the matches at the odd indexes
+    return text
+      .split(new RegExp(`(${escapeRegExp(query)})`, "gi"))
+      .map((part, index) => (index % 2 ? html`<mark>${part}</mark>` : part));
+  }
+}
+
+/**
+ * Renders `text` with every occurrence of `query` (case-insensitive) in a `<mark>`.
+ * ```ts
+ * html`<li>${highlight(country.name, this.query)}</li>`
+ * ```
+ *
+ * The text and the query are rendered as text, never parsed as HTML. Regular expression characters in the query
+ * are matched literally. A pure `render()`, so it renders the same on the server.
+ */
+export const highlight = directive(HighlightDirective);
@@ -0,0 +1,7 @@
+export { assertPartType } from "./part-type.ts";
+export { debounceValue } from "./debounce-value.ts";
+export { highlight } from "./highlight.ts";
+export { intersect } from "./intersect.ts";
+export type { IntersectCallback } from "./intersect.ts";
+export { subscribe } from "./subscribe.ts";
+export type { Subscribable, Unsubscribable } from "./subscribe.ts";
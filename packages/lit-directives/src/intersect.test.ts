@@ -0,0 +1,105 @@
+import { html, render } from "lit";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { intersect } from "./index.ts";
+
+/** Records what the directive observes, and lets the test call it back like the browser does */
+class StubIntersectionObserver {
+  static instances: StubIntersectionObserver[] = [];
+
+  observed = new Set<Element>();
+
+  constructor(
+    readonly callback: IntersectionObserverCallback,
+    readonly options?: IntersectionObserverInit
+  ) {
+    StubIntersectionObserver.instances.push(this);
+  }
+
+  observe(element: Element) {
+    this.observed.add(element);
+  }
+
+  disconnect() {
+    this.observed.clear();
+  }
+
+  intersect(isIntersecting: boolean) {
+    const entries = [...this.observed].map((target) => ({ target, isIntersecting }) as IntersectionObserverEntry);
+    this.callback(entries, this as unknown as IntersectionObserver);
+  }
+}
+
+const container = document.createElement("div");
+
+const renderIntersect = (callback: (entry: IntersectionObserverEntry) => void, options?: IntersectionObserverInit) =>
+  render(html`<img ${intersect(callback, options)} />`, container);
+
+beforeEach(() => {
+  StubIntersectionObserver.instances = [];
+  vi.stubGlobal("IntersectionObserver", StubIntersectionObserver);
+});
+
+afterEach(() => {
+  render(html``, container);
+  vi.unstubAllGlobals();
+});
+
+describe("intersect", () => {
+  it("observes the element with the options of the first render, and calls the callback with its entries", () => {
+    const callback = vi.fn();
+    renderIntersect(callback, { threshold: 0.5 });
+    const [observer] = StubIntersectionObserver.instances;
+
+    observer.intersect(true);
+
+    expect(observer.options).toEqual({ threshold: 0.5 });
+    expect([...observer.observed]).toEqual([container.querySelector("img")]);
+    expect(callback).toHaveBeenCalledWith(expect.objectContaining({ isIntersecting: true }));
+  });
+
+  it("keeps its observer across renders, and calls the callback of the last one", () => {
+    const first = vi.fn();
+    const last = vi.fn();
+    renderIntersect(first, { threshold: 0.5 });
+    renderIntersect(last, { threshold: 1 });
+
+    StubIntersectionObserver.instances[0].intersect(false);
+
+    expect(StubIntersectionObserver.instances).toHaveLength(1);
+    expect(first).not.toHaveBeenCalled();
+    expect(last).toHaveBeenCalledOnce();
+  });
+
+  it("stops observing when disconnected, and observes again when reconnected", () => {
+    const part = renderIntersect(() => {});
+    const [observer] = StubIntersectionObserver.instances;
+
+    part.setConnected(false);
+    expect(observer.observed.size).toBe(0);
+
+    part.setConnected(true);
+
+    expect([...observer.observed]).toEqual([container.querySelector("img")]);
+  });
+
+  it("stops observing when the expression renders something else", () => {
+    renderIntersect(() => {});
+
+    render(html`<p>no element to observe</p>`, container);
+
+    expect(StubIntersectionObserver.instances[0].observed.size).toBe(0);
+  });
+
+  it("rejects every expression but element expressions", () => {
+    expect(() => render(html`<p>${intersect(() => {})}</p>`, container)).toThrow(
+      "intersect() can't be used in a child expression (`<p>${...}</p>`), " +
+        "only in an element expression (`<div ${...}>`)"
+    );
+    expect(() => render(html`<p title=${intersect(() => {})}></p>`, container)).toThrow(
+      "intersect() can't be used in an attribute expression (`attr=${...}`)"
+    );
+    expect(() => render(html`<p @click=${intersect(() => {})}></p>`, container)).toThrow(
+      "intersect() can't be used in an event listener expression (`@event=${...}`)"
+    );
+  });
+});
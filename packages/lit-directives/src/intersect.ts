@@ -0,0 +1,58 @@
+import { ElementPart, noChange } from "lit";
+import { AsyncDirective } from "lit/async-directive.js";
+import { PartInfo, PartType, directive } from "lit/directive.js";
+import { assertPartType } from "./part-type.ts";
+
+export type IntersectCallback = (entry: IntersectionObserverEntry) => void;
+
+class IntersectDirective extends AsyncDirective {
+  private _element?: Element;
+  private _callback?: IntersectCallback;
+  private _observer?: IntersectionObserver;
+
+  constructor(partInfo: PartInfo) {
+    super(partInfo);
+    assertPartType("intersect", partInfo, [PartType.ELEMENT]);
+  }
+
+  // Nothing to render, and nothing to observe on the server: update() is never called there
+  render(_callback: IntersectCallback, _options?: IntersectionObserverInit) {
+    return noChange;
+  }
+
+  update(part: ElementPart, [callback, options]: Parameters<this["render"]>) {
+    // The callback can be a new arrow function on each render, the observer always calls the last one
+    this._callback = callback;
+    if (!this._observer) {
+      this._element = part.element;
+      this._observer = new IntersectionObserver(
+        (entries) => entries.forEach((entry) => this._callback?.(entry)),
+        options
+      );
+      if (this.isConnected) {
+        this._observer.observe(this._element);
+      }
+    }
+    return noChange;
+  }
+
+  disconnected() {
+    this._observer?.disconnect();
+  }
+
+  reconnected() {
+    this._observer?.observe(this._element!);
+  }
+}
+
+/**
+ * Calls `callback` when the element enters or leaves the viewport (or `options.root`).
+ * ```ts
+ * html`<img ${intersect((entry) => (this.visible = entry.isIntersecting), { threshold: 0.5 })} />`
+ * ```
+ *
+ * The observer is created on the first render, with the `options` of that render.
+ * It stops observing when the template is disconnected, and observes again when it is reconnected:
+ * the observer then calls `callback` with the current intersection.
+ */
+export const intersect = directive(IntersectDirective);
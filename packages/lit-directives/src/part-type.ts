@@ -0,0 +1,32 @@
+import { PartInfo, PartType } from "lit/directive.js";
+
+type PartTypeValue = (typeof PartType)[keyof typeof PartType];
+
+const partTypeNames: Record<PartTypeValue, string> = {
+  [PartType.ATTRIBUTE]: "an attribute expression (`attr=${...}`)",
+  [PartType.CHILD]: "a child expression (`<p>${...}</p>`)",
+  [PartType.PROPERTY]: "a property expression (`.prop=${...}`)",
+  [PartType.BOOLEAN_ATTRIBUTE]: "a boolean attribute expression (`?attr=${...}`)",
+  [PartType.EVENT]: "an event listener expression (`@event=${...}`)",
+  [PartType.ELEMENT]: "an element expression (`<div ${...}>`)",
+};
+
+/**
+ * Throws when a directive is used in an expression it doesn't support.
+ * Called from the directive constructor, so the error points at the template on its first render,
+ * instead of failing later with an unrelated error (e.g. `part.element` is undefined).
+ * ```ts
+ * constructor(partInfo: PartInfo) {
+ *   super(partInfo);
+ *   assertPartType("highlight", partInfo, [PartType.CHILD]);
+ * }
+ * ```
+ */
+export const assertPartType = (name: string, partInfo: PartInfo, allowed: PartTypeValue[]) => {
+  if (!allowed.includes(partInfo.type)) {
+    throw new Error(
+      `${name}() can't be used in ${partTypeNames[partInfo.type]}, ` +
+        `only in ${allowed.map((type) => partTypeNames[type]).join(" or ")}`
+    );
+  }
+};
@@ -0,0 +1,23 @@
+import { render } from "@lit-labs/ssr";
+import { collectResultSync } from "@lit-labs/ssr/lib/render-result.js";
+import { html } from "lit";
+import { describe, expect, it } from "vitest";
+import { subscribe } from "./index.ts";
+
+describe("subscribe on the server", () => {
+  it("doesn't subscribe, a value pushed on subscribe can't be rendered there", () => {
+    let subscribed = false;
+    const emitting = {
+      subscribe(next: (value: string) => void) {
+        subscribed = true;
+        next("pushed");
+        return { unsubscribe() {} };
+      },
+    };
+
+    const rendered = collectResultSync(render(html`<p>${subscribe(emitting)}</p>`));
+
+    expect(subscribed).toBe(false);
+    expect(rendered).not.toContain("pushed");
+  });
+});
@@ -0,0 +1,87 @@
+import { html, render } from "lit";
+import { afterEach, describe, expect, it } from "vitest";
+import { Subscribable } from "./subscribe.ts";
+import { subscribe } from "./index.ts";
+
+/** A `BehaviorSubject`-like store: emits its current value on subscribe, and counts its subscribers */
+const store = <T>(value: T) => {
+  const subscribers = new Set<(value: T) => void>();
+  return {
+    subscribers,
+    next(next: T) {
+      value = next;
+      subscribers.forEach((subscriber) => subscriber(value));
+    },
+    subscribe(subscriber: (value: T) => void) {
+      subscribers.add(subscriber);
+      subscriber(value);
+      return { unsubscribe: () => subscribers.delete(subscriber) };
+    },
+  } satisfies Subscribable<T> & Record<string, unknown>;
+};
+
+const container = document.createElement("div");
+
+const renderValue = (subscribable: Subscribable<unknown>) =>
+  render(html`<p>${subscribe(subscribable)}</p>`, container);
+
+afterEach(() => {
+  render(html``, container);
+});
+
+describe("subscribe", () => {
+  it("renders the current value, then each value pushed", () => {
+    const count = store(1);
+    renderValue(count);
+    expect(container.textContent).toBe("1");
+
+    count.next(2);
+
+    expect(container.textContent).toBe("2");
+  });
+
+  it("subscribes once, whatever the number of renders", () => {
+    const count = store(1);
+    renderValue(count);
+    renderValue(count);
+
+    expect(count.subscribers.size).toBe(1);
+  });
+
+  it("unsubscribes from a replaced subscribable, and ignores its values", () => {
+    const first = store("first");
+    const second = store("second");
+    renderValue(first);
+
+    renderValue(second);
+    first.next("late");
+
+    expect(first.subscribers.size).toBe(0);
+    expect(container.textContent).toBe("second");
+  });
+
+  it("unsubscribes when disconnected, and subscribes again when reconnected", () => {
+    const count = store(1);
+    const part = renderValue(count);
+
+    part.setConnected(false);
+    count.next(2);
+
+    expect(count.subscribers.size).toBe(0);
+    expect(container.textContent).toBe("1");
+
+    part.setConnected(true);
+
+    expect(count.subscribers.size).toBe(1);
+    expect(container.textContent).toBe("2");
+  });
+
+  it("unsubscribes when the expression renders something else", () => {
+    const count = store(1);
+    renderValue(count);
+
+    render(html`<p>nothing to subscribe to</p>`, container);
+
+    expect(count.subscribers.size).toBe(0);
+  });
+});
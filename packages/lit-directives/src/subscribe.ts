@@ -0,0 +1,77 @@
+import { isServer, noChange } from "lit";
+import { AsyncDirective } from "lit/async-directive.js";
+import { PartInfo, PartType, directive } from "lit/directive.js";
+import { assertPartType } from "./part-type.ts";
+
+export interface Unsubscribable {
+  unsubscribe(): void;
+}
+
+/**
+ * Anything with a `subscribe(next)` method returning a subscription: an RxJS `Observable` or `BehaviorSubject`,
+ * or a small hand-written store.
+ */
+export interface Subscribable<T> {
+  subscribe(next: (value: T) => void): Unsubscribable;
+}
+
+class SubscribeDirective extends AsyncDirective {
+  private _subscribable?: Subscribable<unknown>;
+  private _subscription?: Unsubscribable;
+
+  constructor(partInfo: PartInfo) {
+    super(partInfo);
+    assertPartType("subscribe", partInfo, [
+      PartType.CHILD,
+      PartType.ATTRIBUTE,
+      PartType.BOOLEAN_ATTRIBUTE,
+      PartType.PROPERTY,
+    ]);
+  }
+
+  render(subscribable: Subscribable<unknown>) {
+    if (subscribable !== this._subscribable) {
+      this._subscription?.unsubscribe();
+      this._subscription = undefined;
+      this._subscribable = subscribable;
+      // A directive can be rendered while disconnected (e.g. inside a `cache()`d template), it subscribes on reconnect.
+      // On the server, `setValue()` throws: a subscribable emitting on subscribe would break the render
+      if (this.isConnected && !isServer) {
+        this._subscribe(subscribable);
+      }
+    }
+    // The values are pushed with setValue()
+    return noChange;
+  }
+
+  private _subscribe(subscribable: Subscribable<unknown>) {
+    this._subscription = subscribable.subscribe((value) => {
+      // Ignore the values of a subscribable that was replaced
+      if (subscribable === this._subscribable) {
+        this.setValue(value);
+      }
+    });
+  }
+
+  disconnected() {
+    this._subscription?.unsubscribe();
+    this._subscription = undefined;
+  }
+
+  reconnected() {
+    this._subscribe(this._subscribable!);
+  }
+}
+
+/**
+ * Renders each value of a subscribable.
+ * ```ts
+ * html`<p>${subscribe(clock$)}</p>`
+ * ```
+ *
+ * It subscribes when it is first rendered, unsubscribes when the template is disconnected
+ * (the host is removed, or the expression renders something else) and subscribes again when it is reconnected:
+ * a subscribable emitting its current value on subscribe (a `BehaviorSubject`) renders it again immediately.
+ * Nothing is rendered until the first value, and nothing on the server, where it doesn't subscribe.
+ */
+export const subscribe = directive(SubscribeDirective);
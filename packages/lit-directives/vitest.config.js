@@ -0,0 +1,13 @@
+import { defineConfig } from "vitest/config";
+import { dom } from "../../vitest.shared.js";
+
+export default defineConfig({
+  test: {
+    projects: [
+      // The directives in a headless DOM
+      { ...dom, test: { ...dom.test, name: "dom", exclude: ["src/**/*.server.test.ts"] } },
+      // The server build of lit, as 12-ssr renders them
+      { test: { name: "server", environment: "node", include: ["src/**/*.server.test.ts"] } },
+    ],
+  },
+});
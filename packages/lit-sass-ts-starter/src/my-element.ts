@@ -2,7 +2,7 @@ import {LitElement, html} from 'lit';
 import {customElement} from 'lit/decorators.js';
 import styles from './my-element.scss';
 
-@customElement('my-element')
+@customElement('sass-starter-element')
 export class MyElement extends LitElement {
   static styles = styles;
 
@@ -0,0 +1,21 @@
+import { css } from "lit";
+import { defineStyles } from "./registry.ts";
+
+/**
+ * `.blue-button`, themed with `--button-text-color`, `--button-background-color` and `--button-font-family`.
+ * It was copied in `styles.ts` and `07-styles-ts.ts` of 03-styles.
+ */
+export const buttons = defineStyles(
+  "buttons",
+  "1.0.0",
+  css`
+    .blue-button {
+      color: var(--button-text-color, white);
+      background: var(--button-background-color, blue);
+      font-family: var(--button-font-family, inherit);
+    }
+    .blue-button:disabled {
+      background-color: grey;
+    }
+  `
+);
@@ -0,0 +1,18 @@
+import { css } from "lit";
+import { defineStyles } from "./registry.ts";
+
+/**
+ * A focus ring for keyboard users only (`:focus-visible`), on the elements of the shadow root and on the host,
+ * themed with `--focus-ring-color` and `--focus-ring-width`.
+ */
+export const focusRing = defineStyles(
+  "focus-ring",
+  "1.0.0",
+  css`
+    :focus-visible,
+    :host(:focus-visible) {
+      outline: var(--focus-ring-width, 2px) solid var(--focus-ring-color, Highlight);
+      outline-offset: 2px;
+    }
+  `
+);
@@ -0,0 +1,19 @@
+import { buttons } from "./buttons.ts";
+import { focusRing } from "./focus-ring.ts";
+import { layout } from "./layout.ts";
+import { StyleRegistry } from "./registry.ts";
+import { typography } from "./typography.ts";
+
+const key = Symbol.for("lit-styles.registry");
+const scope = globalThis as unknown as Record<symbol, StyleRegistry | undefined>;
+
+/**
+ * The registry of the page, with the modules of this package.
+ * Kept on `globalThis`: two copies of the package in one page (two bundles) share it, and their sheets.
+ */
+export const registry = (scope[key] ??= new StyleRegistry());
+registry.register(buttons, typography, layout, focusRing);
+
+export { buttons, focusRing, layout, typography };
+export { StyleRegistry, defineStyles } from "./registry.ts";
+export type { StyleConflict, StyleModule, StyleModuleMap, StyleName, StyleUsage } from "./registry.ts";
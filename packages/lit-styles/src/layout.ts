@@ -0,0 +1,26 @@
+import { css } from "lit";
+import { defineStyles } from "./registry.ts";
+
+/** `.stack` (a column), `.row` (wrapping) and `.grid` (as many columns as fit), spaced by `--layout-gap` */
+export const layout = defineStyles(
+  "layout",
+  "1.0.0",
+  css`
+    .stack {
+      display: flex;
+      flex-direction: column;
+      gap: var(--layout-gap, 8px);
+    }
+    .row {
+      display: flex;
+      flex-wrap: wrap;
+      align-items: center;
+      gap: var(--layout-gap, 8px);
+    }
+    .grid {
+      display: grid;
+      grid-template-columns: repeat(auto-fit, minmax(var(--layout-column-width, 200px), 1fr));
+      gap: var(--layout-gap, 8px);
+    }
+  `
+);
@@ -0,0 +1,98 @@
+import { css } from "lit";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { StyleRegistry, buttons, defineStyles, registry as pageRegistry } from "./index.ts";
+
+const v1 = defineStyles("layout", "1.0.0", css`.stack { display: flex; }`);
+const v2 = defineStyles("layout", "2.0.0", css`.stack { display: grid; }`);
+const typography = defineStyles("typography", "1.0.0", css`h1 { font-size: 2rem; }`);
+
+class CardElement extends HTMLElement {}
+customElements.define("card-element", CardElement);
+
+class ListElement extends HTMLElement {}
+customElements.define("list-element", ListElement);
+
+/** Not defined yet: reported by its class name */
+class PendingElement extends HTMLElement {}
+
+let registry: StyleRegistry;
+
+beforeEach(() => {
+  registry = new StyleRegistry();
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("StyleRegistry", () => {
+  it("registers modules by name", () => {
+    registry.register(v1, typography);
+
+    expect(registry.get("layout")).toBe(v1);
+    expect(registry.get("typography")).toBe(typography);
+    expect(registry.get("buttons")).toBeUndefined();
+  });
+
+  it("keeps the first version registered for a name, and reports the other one as a conflict", () => {
+    registry.register(v1);
+    registry.register(v2);
+
+    expect(registry.get("layout")).toBe(v1);
+    expect(registry.conflicts()).toEqual([{ name: "layout", registered: "1.0.0", ignored: "2.0.0" }]);
+    expect(console.warn).toHaveBeenCalledWith('[lit-styles] "layout" 2.0.0 is ignored, 1.0.0 is already registered');
+  });
+
+  it("ignores the same version registered again, without a conflict", () => {
+    const copy = defineStyles("layout", "1.0.0", css`.stack { display: flex; }`);
+
+    registry.register(v1, copy);
+
+    expect(registry.get("layout")).toBe(v1);
+    expect(registry.conflicts()).toEqual([]);
+    expect(console.warn).not.toHaveBeenCalled();
+  });
+
+  it("gives every element the same CSSResult for a name, in the requested order", () => {
+    registry.register(v1, typography);
+    registry.register(v2);
+
+    const card = registry.request(CardElement, "typography", "layout");
+    const list = registry.request(ListElement, "layout");
+
+    expect(card).toEqual([typography.styles, v1.styles]);
+    expect(list[0]).toBe(card[1]);
+  });
+
+  it("throws for a name no module was registered with", () => {
+    registry.register(v1);
+
+    expect(() => registry.request(CardElement, "layout", "buttons")).toThrow(
+      '[lit-styles] CardElement requested "buttons", no style module has this name'
+    );
+  });
+
+  it("lists the users of each module once, by tag name, or by class name before they are defined", () => {
+    registry.register(v1, typography);
+    registry.register(v2);
+
+    registry.request(CardElement, "layout", "typography");
+    registry.request(CardElement, "layout");
+    registry.request(ListElement, "layout");
+    registry.request(PendingElement, "typography");
+
+    expect(registry.usage()).toEqual([
+      { name: "layout", version: "1.0.0", elements: ["card-element", "list-element"] },
+      { name: "typography", version: "1.0.0", elements: ["card-element", "PendingElement"] },
+    ]);
+  });
+});
+
+describe("the page registry", () => {
+  it("has the modules of the package, and is shared on globalThis by the copies of the package", () => {
+    expect(pageRegistry.get("buttons")).toBe(buttons);
+    expect(pageRegistry.usage().map(({ name }) => name)).toEqual(["buttons", "typography", "layout", "focus-ring"]);
+    expect((globalThis as Record<symbol, unknown>)[Symbol.for("lit-styles.registry")]).toBe(pageRegistry);
+  });
+});
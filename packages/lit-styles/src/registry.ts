@@ -0,0 +1,114 @@
+import { CSSResult } from "lit";
+
+/** A named, versioned `CSSResult`: one copy shared by every element that requests it */
+export interface StyleModule {
+  name: string;
+  version: string;
+  styles: CSSResult;
+}
+
+/**
+ * The names of the registered modules, for typed requests.
+ * A package registering its own modules adds their names, like `HTMLElementTagNameMap`:
+ * ```ts
+ * declare module "lit-styles" {
+ *   interface StyleModuleMap {
+ *     "my-card": true;
+ *   }
+ * }
+ * ```
+ */
+export interface StyleModuleMap {
+  buttons: true;
+  typography: true;
+  layout: true;
+  "focus-ring": true;
+}
+
+export type StyleName = keyof StyleModuleMap & string;
+
+/** Which elements use a module */
+export interface StyleUsage {
+  name: string;
+  version: string;
+  elements: string[];
+}
+
+/** A module registered with another version than the one already registered, and ignored */
+export interface StyleConflict {
+  name: string;
+  registered: string;
+  ignored: string;
+}
+
+export const defineStyles = (name: StyleName, version: string, styles: CSSResult): StyleModule => ({
+  name,
+  version,
+  styles,
+});
+
+/**
+ * Style modules by name.
+ * Elements request the modules they need in their `static styles`:
+ * ```ts
+ * static styles = [registry.request(MyElement, "buttons", "focus-ring"), css`...`];
+ * ```
+ *
+ * Every element gets the same `CSSResult` for a name, so Lit adopts the same constructed `CSSStyleSheet`
+ * in every shadow root: one sheet per module in the page, instead of one per copy of the CSS.
+ * The first version registered for a name wins, a different version is ignored and reported in `conflicts()`.
+ */
+export class StyleRegistry {
+  private _modules = new Map<string, StyleModule>();
+
+  private _users = new Map<string, Set<CustomElementConstructor>>();
+
+  private _conflicts: StyleConflict[] = [];
+
+  register(...modules: StyleModule[]) {
+    for (const module of modules) {
+      const registered = this._modules.get(module.name);
+      if (!registered) {
+        this._modules.set(module.name, module);
+        this._users.set(module.name, new Set());
+      } else if (registered.version !== module.version) {
+        this._conflicts.push({ name: module.name, registered: registered.version, ignored: module.version });
+        console.warn(
+          `[lit-styles] "${module.name}" ${module.version} is ignored, ${registered.version} is already registered`
+        );
+      }
+    }
+  }
+
+  get(name: StyleName) {
+    return this._modules.get(name);
+  }
+
+  /**
+   * The styles of the modules, in order, and records `element` as one of their users.
+   * Throws for a name no module was registered with.
+   */
+  request(element: CustomElementConstructor, ...names: StyleName[]) {
+    return names.map((name) => {
+      const module = this._modules.get(name);
+      if (!module) {
+        throw new Error(`[lit-styles] ${element.name} requested "${name}", no style module has this name`);
+      }
+      this._users.get(name)!.add(element);
+      return module.styles;
+    });
+  }
+
+  /** Every module with the tag names (or class names, before they are defined) of the elements that requested it */
+  usage(): StyleUsage[] {
+    return [...this._modules.values()].map(({ name, version }) => ({
+      name,
+      version,
+      elements: [...this._users.get(name)!].map((element) => customElements.getName(element) ?? element.name),
+    }));
+  }
+
+  conflicts(): readonly StyleConflict[] {
+    return this._conflicts;
+  }
+}
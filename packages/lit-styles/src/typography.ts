@@ -0,0 +1,27 @@
+import { css } from "lit";
+import { defineStyles } from "./registry.ts";
+
+/** Headings, small print and code, following the font of the host */
+export const typography = defineStyles(
+  "typography",
+  "1.0.0",
+  css`
+    :host {
+      line-height: var(--line-height, 1.5);
+    }
+    h1,
+    h2,
+    h3,
+    h4 {
+      line-height: 1.2;
+      margin: 0 0 0.5em;
+    }
+    .small {
+      font-size: 0.875em;
+    }
+    code,
+    pre {
+      font-family: var(--font-family-mono, ui-monospace, Menlo, Consolas, monospace);
+    }
+  `
+);
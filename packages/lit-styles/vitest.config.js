@@ -0,0 +1,5 @@
+import { defineConfig } from "vitest/config";
+import { dom } from "../../vitest.shared.js";
+
+// The registry names its users from the custom element registry of a headless DOM
+export default defineConfig(dom);
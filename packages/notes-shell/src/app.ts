@@ -0,0 +1,109 @@
+import { LitElement, css, html } from "lit";
+import { customElement, state } from "lit/decorators.js";
+import { keyed } from "lit/directives/keyed.js";
+import { chapters, findChapter } from "./chapters.ts";
+import "./chapter-pane.ts";
+
+const chapterIdFromHash = (hash: string) => hash.replace(/^#\/?/, "");
+
+/**
+ * One page for every chapter of the notes.
+ *
+ * Routes are hash based (`#/04-lifecycle`) so the shell works from `vite preview` or any static host
+ * without a history API fallback. Each route mounts a fresh `chapter-pane`, keyed by chapter id,
+ * so switching chapters tears down the previous demos (and their window listeners) instead of reusing their DOM.
+ */
+@customElement("notes-shell")
+export class NotesShell extends LitElement {
+  @state()
+  private _chapterId = chapterIdFromHash(location.hash);
+
+  private _handleHashChange = () => {
+    this._chapterId = chapterIdFromHash(location.hash);
+  };
+
+  connectedCallback() {
+    super.connectedCallback();
+    window.addEventListener("hashchange", this._handleHashChange);
+  }
+
+  disconnectedCallback() {
+    window.removeEventListener("hashchange", this._handleHashChange);
+    super.disconnectedCallback();
+  }
+
+  render() {
+    const active = findChapter(this._chapterId);
+    return html`
+      <nav>
+        <h2>Lit notes</h2>
+        <ul>
+          ${chapters.map(
+            (chapter) => html`
+              <li>
+                <a
+                  href="#/${chapter.id}"
+                  aria-current=${chapter === active ? "page" : "false"}
+                >
+                  ${chapter.title}
+                </a>
+              </li>
+            `
+          )}
+        </ul>
+      </nav>
+      <main>
+        ${keyed(active.id, html`<chapter-pane .chapter=${active}></chapter-pane>`)}
+      </main>
+    `;
+  }
+
+  static styles = css`
+    :host {
+      display: grid;
+      grid-template-columns: 14rem 1fr;
+      min-height: 100vh;
+    }
+
+    nav {
+      position: sticky;
+      top: 0;
+      align-self: start;
+      padding: 1rem;
+      border-right: 1px solid #888;
+      min-height: 100vh;
+      box-sizing: border-box;
+    }
+
+    ul {
+      list-style: none;
+      margin: 0;
+      padding: 0;
+    }
+
+    a {
+      display: block;
+      padding: 0.25rem 0.5rem;
+      color: inherit;
+      text-decoration: none;
+      border-radius: 4px;
+    }
+    a:hover {
+      color: #646cff;
+    }
+    a[aria-current="page"] {
+      background-color: #646cff;
+      color: white;
+    }
+
+    main {
+      min-width: 0;
+    }
+  `;
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    "notes-shell": NotesShell;
+  }
+}
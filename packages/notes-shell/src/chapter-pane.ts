@@ -0,0 +1,84 @@
+import { LitElement, adoptStyles, css, html, unsafeCSS } from "lit";
+import { customElement, property, state } from "lit/decorators.js";
+import { Chapter } from "./chapters.ts";
+
+/**
+ * Mounts one chapter in its own shadow root.
+ *
+ * Custom elements share a single registry per document, so the pane can't isolate element names
+ * (every chapter registers unique tags for that reason), but it does isolate styles:
+ * the chapter's global stylesheet is adopted into the pane instead of the document,
+ * with `:root` rewritten to `:host` so the custom properties it declares still reach the demos.
+ */
+@customElement("chapter-pane")
+export class ChapterPane extends LitElement {
+  static styles = css`
+    :host {
+      display: block;
+    }
+    .status {
+      padding: 2rem;
+    }
+  `;
+
+  @property({ attribute: false })
+  chapter?: Chapter;
+
+  @state()
+  private _status: "loading" | "ready" | "error" = "loading";
+
+  @state()
+  private _error?: unknown;
+
+  override willUpdate(changedProperties: Map<string, unknown>) {
+    if (changedProperties.has("chapter")) {
+      this._load();
+    }
+  }
+
+  private async _load() {
+    const chapter = this.chapter;
+    if (!chapter) {
+      return;
+    }
+    this._status = "loading";
+    try {
+      const [, chapterStyles] = await Promise.all([chapter.load(), chapter.styles?.()]);
+      // The chapter changed while its modules were loading, the newer load owns the pane.
+      if (chapter !== this.chapter) {
+        return;
+      }
+      if (chapterStyles) {
+        adoptStyles(this.renderRoot as ShadowRoot, [
+          ChapterPane.styles,
+          unsafeCSS(chapterStyles.replace(/:root/g, ":host")),
+        ]);
+      }
+      this._status = "ready";
+    } catch (e) {
+      if (chapter !== this.chapter) {
+        return;
+      }
+      console.error(`[ChapterPane] failed to load ${chapter.id}`, e);
+      this._error = e;
+      this._status = "error";
+    }
+  }
+
+  render() {
+    switch (this._status) {
+      case "loading":
+        return html`<p class="status">Loading ${this.chapter?.title}…</p>`;
+      case "error":
+        return html`<p class="status">Failed to load ${this.chapter?.title}: ${String(this._error)}</p>`;
+      case "ready":
+        return this.chapter?.render();
+    }
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    "chapter-pane": ChapterPane;
+  }
+}
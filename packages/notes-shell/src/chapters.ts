@@ -0,0 +1,171 @@
+import { TemplateResult, html } from "lit";
+
+/**
+ * A chapter is one package of the workspace.
+ *
+ * Nothing from a chapter is imported until its route is visited:
+ * - `load()` imports the modules that register the chapter's elements, the same ones its index.html loads.
+ * - `styles()` imports the chapter's global stylesheet as a string, so the pane can scope it to its shadow root.
+ * - `render()` returns the markup of the chapter's index.html body.
+ */
+export interface Chapter {
+  /** Route segment, the package directory name. */
+  id: string;
+  title: string;
+  load: () => Promise<unknown>;
+  styles?: () => Promise<string>;
+  render: () => TemplateResult;
+}
+
+const inline = (module: { default: string }) => module.default;
+
+export const chapters: Chapter[] = [
+  {
+    id: "01-introduction",
+    title: "Introduction",
+    load: () => import("@chapters/01-introduction/src/app-lit-introduction.ts"),
+    render: () => html`<app-lit-introduction></app-lit-introduction>`,
+  },
+  {
+    id: "02-components",
+    title: "Components",
+    load: () =>
+      Promise.all([
+        import("@chapters/02-components/src/app-lit-components.ts"),
+        import("@chapters/02-components/src/01-define-component.ts"),
+        import("@chapters/02-components/src/02-render-component.ts"),
+      ]),
+    render: () => html`
+      <app-lit-components></app-lit-components>
+      <define-component></define-component>
+      <render-component></render-component>
+    `,
+  },
+  {
+    id: "03-styles",
+    title: "Styles",
+    load: () => import("@chapters/03-styles/src/app.ts"),
+    styles: () => import("@chapters/03-styles/src/index.css?inline").then(inline),
+    render: () => html`
+      <app-lit-styles>
+        <h1>Lit styles</h1>
+      </app-lit-styles>
+    `,
+  },
+  {
+    id: "04-lifecycle",
+    title: "Lifecycle",
+    load: () => import("@chapters/04-lifecycle/src/app.ts"),
+    styles: () => import("@chapters/04-lifecycle/src/index.css?inline").then(inline),
+    render: () => html`
+      <app-lit-lifecycle>
+        <h1>Lit lifecycle</h1>
+      </app-lit-lifecycle>
+    `,
+  },
+  {
+    id: "05-shadow-dom",
+    title: "Shadow DOM",
+    load: () => import("@chapters/05-shadow-dom/src/app.ts"),
+    styles: () => import("@chapters/05-shadow-dom/src/index.css?inline").then(inline),
+    render: () => html`<app-lit-shadow-dom></app-lit-shadow-dom>`,
+  },
+  {
+    id: "06-events",
+    title: "Events",
+    load: () => import("@chapters/06-events/src/app.ts"),
+    styles: () => import("@chapters/06-events/src/index.css?inline").then(inline),
+    render: () => html`<app-lit-events></app-lit-events>`,
+  },
+  {
+    id: "07-decorators",
+    title: "Decorators",
+    load: () => import("@chapters/07-decorators/src/app.ts"),
+    styles: () => import("@chapters/07-decorators/src/index.css?inline").then(inline),
+    render: () => html`<app-lit-decorators></app-lit-decorators>`,
+  },
+  {
+    id: "08-templates",
+    title: "Templates",
+    load: () => import("@chapters/08-templates/src/app.ts"),
+    styles: () => import("@chapters/08-templates/src/index.css?inline").then(inline),
+    render: () => html`<app-lit-templates></app-lit-templates>`,
+  },
+  {
+    id: "09-reactive-controllers",
+    title: "Reactive controllers",
+    load: () => import("@chapters/09-reactive-controllers/src/app.ts"),
+    styles: () => import("@chapters/09-reactive-controllers/src/index.css?inline").then(inline),
+    render: () => html`<app-lit-reactive-controllers></app-lit-reactive-controllers>`,
+  },
+  {
+    id: "10-context",
+    title: "Context",
+    load: () => import("@chapters/10-context/src/app.ts"),
+    styles: () => import("@chapters/10-context/src/index.css?inline").then(inline),
+    render: () => html`<app-lit-context></app-lit-context>`,
+  },
+  {
+    id: "11-async-data",
+    title: "Async data",
+    load: () => import("@chapters/11-async-data/src/app.ts"),
+    styles: () => import("@chapters/11-async-data/src/index.css?inline").then(inline),
+    render: () => html`<app-lit-async-data></app-lit-async-data>`,
+  },
+  {
+    id: "13-localization",
+    title: "Localization",
+    load: () => import("@chapters/13-localization/src/app.ts"),
+    styles: () => import("@chapters/13-localization/src/index.css?inline").then(inline),
+    render: () => html`<app-lit-localization></app-lit-localization>`,
+  },
+  {
+    id: "14-forms",
+    title: "Forms",
+    load: () => import("@chapters/14-forms/src/app.ts"),
+    styles: () => import("@chapters/14-forms/src/index.css?inline").then(inline),
+    render: () => html`<app-lit-forms></app-lit-forms>`,
+  },
+  {
+    id: "lit-bootstrap-sass",
+    title: "Bootstrap + Sass",
+    load: () =>
+      Promise.all([
+        import("@chapters/lit-bootstrap-sass/src/test/test.component.ts"),
+        import("@chapters/lit-bootstrap-sass/src/test2/test2.component.ts"),
+        import("@chapters/lit-bootstrap-sass/src/demo/components.demo.ts"),
+      ]),
+    render: () => html`
+      <test-component name="Pippo"></test-component>
+      <test2-component name="Pluto"></test2-component>
+      <p>This section is not affected by the component styles</p>
+      <components-demo></components-demo>
+    `,
+  },
+  {
+    id: "lit-sass-ts-starter",
+    title: "Sass + TS starter",
+    load: () => import("@chapters/lit-sass-ts-starter/src/index.ts"),
+    render: () => html`<sass-starter-element></sass-starter-element>`,
+  },
+  {
+    id: "lit-sass-ts-starter-2",
+    title: "Sass + TS starter 2",
+    load: () => import("@chapters/lit-sass-ts-starter-2/src/index.ts"),
+    render: () => html`<sass-starter-2-element></sass-starter-2-element>`,
+  },
+  {
+    id: "vite-plugin-lit-css-ex",
+    title: "vite-plugin-lit-css",
+    load: () => import("@chapters/vite-plugin-lit-css-ex/src/my-element.ts"),
+    styles: () => import("@chapters/vite-plugin-lit-css-ex/src/index.css?inline").then(inline),
+    render: () => html`
+      <my-element>
+        <h1>Vite + Lit</h1>
+      </my-element>
+    `,
+  },
+];
+
+export const findChapter = (id: string) =>
+  chapters.find((chapter) => chapter.id === id) ?? chapters[0];
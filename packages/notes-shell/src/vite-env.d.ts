@@ -0,0 +1,8 @@
+/// <reference types="vite-plugin-lit-css/client" />
+/// <reference types="vite/client" />
+
+/**
+ * Chapter sources are type-checked by their own package (each has its own tsconfig),
+ * the shell only imports them for their side effects.
+ */
+declare module "@chapters/*";
@@ -0,0 +1,24 @@
+import { fileURLToPath } from "node:url";
+import { defineConfig } from "vite";
+import litCss from "vite-plugin-lit-css";
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      // Chapters are imported straight from their package sources, e.g. `@chapters/04-lifecycle/src/app.ts`
+      "@chapters": fileURLToPath(new URL("..", import.meta.url)),
+    },
+    // Every chapter installs its own lit, they must all share a single copy to render into one page.
+    dedupe: ["lit"],
+  },
+  esbuild: {
+    // 07-decorators compiles src/standard with standard decorators, esbuild only compiles them below ESNext
+    target: "es2022",
+  },
+  plugins: [
+    litCss({
+      // your global and rel="stylesheet" styles must be excluded
+      exclude: "./src/index.css",
+    }),
+  ],
+});
@@ -1,5 +1,6 @@
 import { LitElement, css, html } from 'lit'
 import { customElement, property } from 'lit/decorators.js'
+import { localized, msg, str } from '@lit/localize'
 import litLogo from './assets/lit.svg'
 import viteLogo from '/vite.svg'
 import './element-with-css'
@@ -10,13 +11,14 @@ import './element-with-css'
  * @slot - This element has a slot
  * @csspart button - The button
  */
+@localized()
 @customElement('my-element')
 export class MyElement extends LitElement {
   /**
-   * Copy for the read the docs hint.
+   * Copy for the read the docs hint, the localized default hint when not set.
    */
   @property()
-  docsHint = 'Click on the Vite and Lit logos to learn more'
+  docsHint?: string
 
   /**
    * The number of times the button has been clicked.
@@ -38,10 +40,12 @@ export class MyElement extends LitElement {
       <slot></slot>
       <div class="card">
         <button @click=${this._onClick} part="button">
-          count is ${this.count}
+          ${msg(str`count is ${this.count}`)}
         </button>
       </div>
-      <p class="read-the-docs">${this.docsHint}</p>
+      <p class="read-the-docs">
+        ${this.docsHint ?? msg('Click on the Vite and Lit logos to learn more')}
+      </p>
     `
   }
 
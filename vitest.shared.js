@@ -0,0 +1,18 @@
+/**
+ * The Vitest config of the packages mounting elements in a headless DOM:
+ * ```js
+ * import { dom } from "../../vitest.shared.js";
+ *
+ * export default defineConfig(dom);
+ * ```
+ *
+ * Loaded by Node, lit resolves to its server build (`isServer` is true, directives don't run their client code):
+ * it is inlined, and resolved with the `browser` condition, like Vite does for the page.
+ */
+export const dom = {
+  resolve: { conditions: ["browser"] },
+  test: {
+    environment: "happy-dom",
+    server: { deps: { inline: ["lit", "lit-html", "lit-element", "@lit/reactive-element"] } },
+  },
+};